@@ -5,17 +5,21 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/theme-provider";
 import { Navigation } from "@/components/navigation";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 import NotFound from "@/pages/not-found";
 import VideoStudio from "@/pages/video-studio";
 import VideoAnalyzer from "@/pages/video-analyzer";
 import Dashboard from "@/pages/dashboard";
+import AuthPage from "@/pages/auth-page";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={VideoStudio} />
-      <Route path="/analyzer" component={VideoAnalyzer} />
-      <Route path="/dashboard" component={Dashboard} />
+      <ProtectedRoute path="/" component={VideoStudio} />
+      <ProtectedRoute path="/analyzer" component={VideoAnalyzer} />
+      <ProtectedRoute path="/dashboard" component={Dashboard} />
+      <Route path="/auth" component={AuthPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -25,13 +29,15 @@ function App() {
   return (
     <ThemeProvider defaultTheme="dark" storageKey="video-studio-theme">
       <QueryClientProvider client={queryClient}>
-        <TooltipProvider>
-          <div className="min-h-screen bg-background">
-            <Navigation />
-            <Router />
-          </div>
-          <Toaster />
-        </TooltipProvider>
+        <AuthProvider>
+          <TooltipProvider>
+            <div className="min-h-screen bg-background">
+              <Navigation />
+              <Router />
+            </div>
+            <Toaster />
+          </TooltipProvider>
+        </AuthProvider>
       </QueryClientProvider>
     </ThemeProvider>
   );
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import type { LexiconEntry, LexiconFormat } from "@shared/schema";
+import { BookA, Plus, Trash2, Volume2 } from "lucide-react";
+
+interface LexiconEditorProps {
+  voiceId: string; // the voice previews are spoken with
+}
+
+interface LexiconDraft {
+  term: string;
+  pronunciation: string;
+  format: LexiconFormat;
+}
+
+const emptyDraft: LexiconDraft = { term: "", pronunciation: "", format: "respelling" };
+
+// Pronunciation fixes for brand names, acronyms and transliterations; they apply to every render of this account
+export function LexiconEditor({ voiceId }: LexiconEditorProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<LexiconDraft>(emptyDraft);
+
+  const { data: entries = [] } = useQuery<LexiconEntry[]>({ queryKey: ["/api/lexicon"] });
+
+  const showError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: (entry: LexiconDraft) => apiRequest("POST", "/api/lexicon", entry),
+    onSuccess: () => {
+      setDraft(emptyDraft);
+      queryClient.invalidateQueries({ queryKey: ["/api/lexicon"] });
+    },
+    onError: showError("Could Not Add Pronunciation"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/lexicon/${id}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/lexicon"] }),
+    onError: showError("Could Not Remove Pronunciation"),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: (entry: LexiconDraft) => apiRequest("POST", "/api/lexicon/preview", { ...entry, voiceId }),
+    onSuccess: async (response) => {
+      const audioBlob = await response.blob();
+      const audio = new Audio(URL.createObjectURL(audioBlob));
+      audio.play();
+    },
+    onError: showError("Preview Failed"),
+  });
+
+  const draftReady = draft.term.trim() !== "" && draft.pronunciation.trim() !== "";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BookA className="h-5 w-5" />
+          Pronunciations
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Teach the voices how to say brand names and acronyms, e.g. "Nguyen" as "win" or "SQL" as "sequel".
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-2 items-end">
+          <div className="space-y-1">
+            <Label>Word or phrase</Label>
+            <Input value={draft.term} onChange={(e) => setDraft(prev => ({ ...prev, term: e.target.value }))} />
+          </div>
+          <div className="space-y-1">
+            <Label>Say it as</Label>
+            <Input
+              value={draft.pronunciation}
+              onChange={(e) => setDraft(prev => ({ ...prev, pronunciation: e.target.value }))}
+              placeholder={draft.format === "ipa" ? "ˈsiːkwəl" : "sequel"}
+            />
+          </div>
+          <Select value={draft.format} onValueChange={(value) => setDraft(prev => ({ ...prev, format: value as LexiconFormat }))}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="respelling">Respelling</SelectItem>
+              <SelectItem value="ipa">IPA</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            disabled={!draftReady || !voiceId || previewMutation.isPending}
+            onClick={() => previewMutation.mutate(draft)}
+          >
+            <Volume2 className="h-4 w-4" />
+            Preview pronunciation
+          </Button>
+          <Button size="sm" className="gap-2" disabled={!draftReady || addMutation.isPending} onClick={() => addMutation.mutate(draft)}>
+            <Plus className="h-4 w-4" />
+            Add
+          </Button>
+        </div>
+        {draft.format === "ipa" && (
+          <p className="text-xs text-muted-foreground">IPA is only followed by eSpeak voices; other engines read the word as written.</p>
+        )}
+
+        {entries.length > 0 && (
+          <div className="space-y-2 border-t pt-4">
+            {entries.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between gap-2 text-sm">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="font-medium truncate">{entry.term}</span>
+                  <span className="text-muted-foreground truncate">→ {entry.pronunciation}</span>
+                  {entry.format === "ipa" && <Badge variant="secondary">IPA</Badge>}
+                  {entry.projectId && <Badge variant="outline">Project</Badge>}
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Preview pronunciation"
+                    disabled={!voiceId || previewMutation.isPending}
+                    onClick={() => previewMutation.mutate({ term: entry.term, pronunciation: entry.pronunciation, format: entry.format as LexiconFormat })}
+                  >
+                    <Volume2 className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Remove"
+                    className="text-destructive hover:text-destructive"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(entry.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
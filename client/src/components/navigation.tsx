@@ -6,12 +6,15 @@ import {
   BarChart3, 
   Settings, 
   User,
+  LogOut,
   Sparkles
 } from "lucide-react";
 import { Link, useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
 
 export function Navigation() {
   const [location] = useLocation();
+  const { user, logoutMutation } = useAuth();
 
   const navItems = [
     { href: "/", label: "Home", icon: Home },
@@ -62,10 +65,34 @@ export function Navigation() {
             100% Free
           </Badge>
           
-          <Button variant="outline" size="sm" className="gap-2">
-            <User className="h-4 w-4" />
-            Account
-          </Button>
+          {user ? (
+            <>
+              <Badge variant="outline" className="gap-1">
+                <User className="h-3 w-3" />
+                {user.username}
+              </Badge>
+              <Badge variant="secondary">
+                {user.credits ?? 0} credits
+              </Badge>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+              >
+                <LogOut className="h-4 w-4" />
+                Sign out
+              </Button>
+            </>
+          ) : (
+            <Link href="/auth">
+              <Button variant="outline" size="sm" className="gap-2">
+                <User className="h-4 w-4" />
+                Sign in
+              </Button>
+            </Link>
+          )}
         </div>
       </div>
     </header>
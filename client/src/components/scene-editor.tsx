@@ -8,6 +8,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
+import { validateSsml } from "@shared/ssml";
+import { VOICE_PRESETS } from "@shared/voice-processing";
+import type { VoicePreset, VoiceProcessing } from "@shared/schema";
 import { 
   Plus, 
   Trash2, 
@@ -28,8 +31,11 @@ interface Scene {
   background: string;
   voiceId: string;
   duration: number;
+  durationMode: 'auto' | 'fixed';
   textStyle: string;
   audioEnabled: boolean;
+  speaker?: string;
+  voiceProcessing?: VoiceProcessing;
   backgroundImage?: string;
   audioFile?: string;
 }
@@ -40,6 +46,7 @@ interface Voice {
   language: string;
   gender: string;
   provider: string;
+  available: boolean; // false when the server lacks the voice's engine
 }
 
 interface SceneEditorProps {
@@ -48,6 +55,9 @@ interface SceneEditorProps {
   voices: Voice[];
 }
 
+// Silent scenes have nothing to fit, so they always render at their set length
+const isAutoFit = (scene: Scene) => scene.audioEnabled && scene.durationMode === "auto";
+
 export function SceneEditor({ scenes, onScenesChange, voices }: SceneEditorProps) {
   const [expandedScene, setExpandedScene] = useState<string | null>(null);
 
@@ -57,8 +67,9 @@ export function SceneEditor({ scenes, onScenesChange, voices }: SceneEditorProps
       title: `Scene ${scenes.length + 1}`,
       text: "",
       background: "gradient",
-      voiceId: voices[0]?.id || "",
+      voiceId: (voices.find(voice => voice.available) ?? voices[0])?.id || "",
       duration: 5,
+      durationMode: "auto",
       textStyle: "fade-in",
       audioEnabled: true
     };
@@ -102,7 +113,8 @@ export function SceneEditor({ scenes, onScenesChange, voices }: SceneEditorProps
     { value: "fade-in", label: "Fade In" },
     { value: "typewriter", label: "Typewriter" },
     { value: "slide-up", label: "Slide Up" },
-    { value: "zoom", label: "Zoom In" }
+    { value: "zoom", label: "Zoom In" },
+    { value: "karaoke", label: "Karaoke" }
   ];
 
   if (scenes.length === 0) {
@@ -146,9 +158,10 @@ export function SceneEditor({ scenes, onScenesChange, voices }: SceneEditorProps
                 <div className="flex items-center gap-3">
                   <Badge variant="outline">#{index + 1}</Badge>
                   <CardTitle className="text-base">{scene.title}</CardTitle>
+                  {scene.speaker && <Badge variant="secondary">{scene.speaker}</Badge>}
                   <Badge variant="secondary" className="gap-1">
                     <Clock className="h-3 w-3" />
-                    {scene.duration}s
+                    {isAutoFit(scene) ? `~${scene.duration}s (auto)` : `${scene.duration}s`}
                   </Badge>
                 </div>
                 
@@ -199,6 +212,7 @@ export function SceneEditor({ scenes, onScenesChange, voices }: SceneEditorProps
                     placeholder="Enter the text for this scene..."
                     rows={3}
                   />
+                  <MarkupHint text={scene.text} />
                 </div>
 
                 {/* Expanded Settings */}
@@ -213,17 +227,29 @@ export function SceneEditor({ scenes, onScenesChange, voices }: SceneEditorProps
                         />
                       </div>
                       <div className="space-y-2">
-                        <Label>Duration (seconds)</Label>
+                        <div className="flex items-center justify-between">
+                          <Label>Duration (seconds)</Label>
+                          {scene.audioEnabled && (
+                            <div className="flex items-center gap-2">
+                              <Label className="text-xs text-muted-foreground">Fit to narration</Label>
+                              <Switch
+                                checked={scene.durationMode === "auto"}
+                                onCheckedChange={(checked) => updateScene(scene.id, { durationMode: checked ? "auto" : "fixed" })}
+                              />
+                            </div>
+                          )}
+                        </div>
                         <Slider
                           value={[scene.duration]}
-                          onValueChange={(value) => updateScene(scene.id, { duration: value[0] })}
+                          // Dragging the slider pins the scene to that length
+                          onValueChange={(value) => updateScene(scene.id, { duration: value[0], durationMode: "fixed" })}
                           min={1}
                           max={15}
                           step={0.5}
                           className="pt-2"
                         />
                         <div className="text-center text-sm text-muted-foreground">
-                          {scene.duration}s
+                          {isAutoFit(scene) ? "Set from the narration when rendered" : `${scene.duration}s`}
                         </div>
                       </div>
                     </div>
@@ -267,6 +293,15 @@ export function SceneEditor({ scenes, onScenesChange, voices }: SceneEditorProps
                       </div>
                     </div>
 
+                    <div className="space-y-2">
+                      <Label>Speaker</Label>
+                      <Input
+                        value={scene.speaker ?? ""}
+                        onChange={(e) => updateScene(scene.id, { speaker: e.target.value || undefined })}
+                        placeholder="Narration"
+                      />
+                    </div>
+
                     <div className="space-y-2">
                       <Label>Voice</Label>
                       <Select
@@ -278,14 +313,34 @@ export function SceneEditor({ scenes, onScenesChange, voices }: SceneEditorProps
                         </SelectTrigger>
                         <SelectContent>
                           {voices.map((voice) => (
-                            <SelectItem key={voice.id} value={voice.id}>
-                              {voice.name} ({voice.language})
+                            <SelectItem key={voice.id} value={voice.id} disabled={!voice.available}>
+                              {voice.name} ({voice.language}){!voice.available && " - engine not installed"}
                             </SelectItem>
                           ))}
                         </SelectContent>
                       </Select>
                     </div>
 
+                    <div className="space-y-2">
+                      <Label>Voice Processing</Label>
+                      <Select
+                        value={scene.voiceProcessing?.preset ?? "project"}
+                        onValueChange={(value) => updateScene(scene.id, {
+                          voiceProcessing: value === "project" ? undefined : { preset: value as VoicePreset }
+                        })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="project">Project default</SelectItem>
+                          {(Object.keys(VOICE_PRESETS) as VoicePreset[]).map((preset) => (
+                            <SelectItem key={preset} value={preset}>{VOICE_PRESETS[preset].label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
                     <div className="flex items-center justify-between">
                       <Label>Enable Audio</Label>
                       <Switch
@@ -302,4 +357,17 @@ export function SceneEditor({ scenes, onScenesChange, voices }: SceneEditorProps
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// The server rejects scenes whose markup doesn't parse, so say why while the text is being written
+function MarkupHint({ text }: { text: string }) {
+  const error = validateSsml(text);
+  if (error) {
+    return <p className="text-xs text-destructive">Markup problem: {error}</p>;
+  }
+  return (
+    <p className="text-xs text-muted-foreground">
+      Supports SSML such as &lt;break time="500ms"/&gt;, &lt;emphasis&gt; and &lt;prosody rate="slow"&gt;
+    </p>
+  );
+}
@@ -13,12 +13,15 @@ import {
   Expand,
   Sparkles,
   CheckCircle,
-  AlertCircle
+  AlertCircle,
+  FileText
 } from "lucide-react";
 
 interface VideoPreviewProps {
   videoUrl?: string;
   thumbnailUrl?: string;
+  captionsUrl?: string; // WebVTT track shown in the player
+  srtUrl?: string;
   isGenerating: boolean;
   progress: number;
   currentStep: string;
@@ -29,6 +32,8 @@ interface VideoPreviewProps {
 export function VideoPreview({
   videoUrl,
   thumbnailUrl,
+  captionsUrl,
+  srtUrl,
   isGenerating,
   progress,
   currentStep,
@@ -147,7 +152,11 @@ export function VideoPreview({
             onPause={() => setIsPlaying(false)}
             className="w-full aspect-video"
             controls={false}
-          />
+          >
+            {captionsUrl && (
+              <track kind="captions" src={captionsUrl} srcLang="en" label="Captions" default />
+            )}
+          </video>
           
           {/* Custom Controls Overlay */}
           <div className="absolute inset-0 bg-gradient-to-t from-black/50 to-transparent opacity-0 hover:opacity-100 transition-opacity duration-300">
@@ -214,6 +223,27 @@ export function VideoPreview({
           </Button>
         </div>
 
+        {(srtUrl || captionsUrl) && (
+          <div className="flex items-center gap-3">
+            {srtUrl && (
+              <Button asChild variant="outline" size="sm" className="flex-1 gap-2">
+                <a href={srtUrl} download>
+                  <FileText className="h-4 w-4" />
+                  Subtitles (SRT)
+                </a>
+              </Button>
+            )}
+            {captionsUrl && (
+              <Button asChild variant="outline" size="sm" className="flex-1 gap-2">
+                <a href={captionsUrl} download>
+                  <FileText className="h-4 w-4" />
+                  Subtitles (WebVTT)
+                </a>
+              </Button>
+            )}
+          </div>
+        )}
+
         {/* Video Info */}
         <div className="grid grid-cols-3 gap-4 p-4 bg-muted/50 rounded-lg">
           <div className="text-center">
@@ -0,0 +1,128 @@
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { useToast } from "@/hooks/use-toast";
+import type { VoicePreset, VoiceProcessing } from "@shared/schema";
+import { VOICE_PRESETS, type VoiceChain } from "@shared/voice-processing";
+import { AudioWaveform, RotateCcw, Volume2 } from "lucide-react";
+
+interface VoiceProcessingEditorProps {
+  value: VoiceProcessing;
+  onChange: (value: VoiceProcessing) => void;
+  voiceId: string; // the voice previews are spoken with
+  disabled?: boolean; // the server's ffmpeg lacks the filters
+}
+
+type Adjustment = keyof Omit<VoiceChain, "highpass" | "lowpass">;
+
+const adjustments: { key: Adjustment; label: string; min: number; max: number; step: number; unit?: string }[] = [
+  { key: "bass", label: "Bass", min: -12, max: 12, step: 1, unit: "dB" },
+  { key: "presence", label: "Presence", min: -12, max: 12, step: 1, unit: "dB" },
+  { key: "deEssing", label: "De-essing", min: 0, max: 1, step: 0.05 },
+  { key: "compression", label: "Compression", min: 0, max: 1, step: 0.05 },
+  { key: "roomTone", label: "Room Tone", min: 0, max: 1, step: 0.05 },
+];
+
+const PREVIEW_TEXT = "Hello, this is how my voice sounds with these settings. Simple sentences show the difference best.";
+
+// Picks a processing preset for the project's voices and fine-tunes it; sliders start at the preset's own values
+export function VoiceProcessingEditor({ value, onChange, voiceId, disabled }: VoiceProcessingEditorProps) {
+  const { toast } = useToast();
+  const preset = VOICE_PRESETS[value.preset].chain;
+  const adjusted = adjustments.some(({ key }) => value[key] !== undefined);
+
+  const previewMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/preview-voice", { voiceId, text: PREVIEW_TEXT, voiceProcessing: value }),
+    onSuccess: async (response) => {
+      const audioBlob = await response.blob();
+      const audio = new Audio(URL.createObjectURL(audioBlob));
+      audio.play();
+    },
+    onError: (error) => {
+      toast({
+        title: "Preview Failed",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AudioWaveform className="h-5 w-5" />
+          Voice Processing
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {disabled
+            ? "The server's ffmpeg lacks the filters for voice processing, so voices are used as synthesized."
+            : "EQ, de-essing, compression and room tone for every scene's voice; a scene can pick its own preset."}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2 items-end">
+          <div className="space-y-2 flex-1">
+            <Label>Preset</Label>
+            <Select
+              value={value.preset}
+              // A new preset starts from its own values
+              onValueChange={(preset: VoicePreset) => onChange({ preset })}
+              disabled={disabled}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(VOICE_PRESETS) as VoicePreset[]).map((key) => (
+                  <SelectItem key={key} value={key}>{VOICE_PRESETS[key].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            variant="outline"
+            className="gap-2"
+            disabled={disabled || !voiceId || previewMutation.isPending}
+            onClick={() => previewMutation.mutate()}
+          >
+            <Volume2 className="h-4 w-4" />
+            Preview
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {adjustments.map(({ key, label, min, max, step, unit }) => {
+            const current = value[key] ?? preset[key];
+            return (
+              <div key={key} className="space-y-2">
+                <Label>
+                  {label}: {unit ? `${current > 0 ? "+" : ""}${current} ${unit}` : `${Math.round(current * 100)}%`}
+                </Label>
+                <Slider
+                  value={[current]}
+                  onValueChange={([next]) => onChange({ ...value, [key]: next })}
+                  min={min}
+                  max={max}
+                  step={step}
+                  disabled={disabled}
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        {adjusted && (
+          <Button variant="ghost" size="sm" className="gap-2" onClick={() => onChange({ preset: value.preset })} disabled={disabled}>
+            <RotateCcw className="h-4 w-4" />
+            Reset to {VOICE_PRESETS[value.preset].label}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,9 @@
+import { useQuery } from "@tanstack/react-query";
+import type { ServerCapabilities } from "@shared/schema";
+
+// What the server can actually render. Undefined while loading or if the request fails, in which case
+// callers leave options enabled and let the render report problems as warnings.
+export function useCapabilities(): ServerCapabilities | undefined {
+  const { data } = useQuery<ServerCapabilities>({ queryKey: ["/api/capabilities"] });
+  return data;
+}
@@ -0,0 +1,79 @@
+import { useEffect, useState } from "react";
+import type { GenerationJob, GenerationJobResult, JobEventData, JobEventType } from "@shared/schema";
+
+export type JobState = Pick<GenerationJob, "id" | "status" | "progress" | "currentStep" | "estimatedTimeRemaining"> & {
+  error?: string | null;
+  result?: GenerationJobResult | null;
+};
+
+const TERMINAL_STATUSES = ["completed", "failed", "cancelled"];
+const MAX_LOG_LINES = 200;
+const MAX_RETRY_DELAY = 30000;
+
+// Follows /api/jobs/:jobId/events, reconnecting with the last seen event id so nothing is missed or repeated
+export function useJobEvents(jobId: string | null) {
+  const [job, setJob] = useState<JobState | null>(null);
+  const [logs, setLogs] = useState<string[]>([]);
+
+  useEffect(() => {
+    setJob(null);
+    setLogs([]);
+    if (!jobId) return;
+
+    let cursor = 0;
+    let attempt = 0;
+    let finished = false;
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const merge = (updates: Partial<JobState>) =>
+      setJob(prev => ({ ...(prev ?? { id: jobId, status: "pending", progress: 0, currentStep: "", estimatedTimeRemaining: 0 }), ...updates }));
+
+    const connect = () => {
+      source = new EventSource(`/api/jobs/${jobId}/events?cursor=${cursor}`);
+
+      const on = <T extends JobEventType>(type: T, handler: (data: JobEventData[T]) => void) => {
+        source!.addEventListener(type, (event) => {
+          const message = event as MessageEvent;
+          cursor = Number(message.lastEventId) || cursor;
+          attempt = 0;
+          handler(JSON.parse(message.data));
+        });
+      };
+
+      on("snapshot", (data) => {
+        setJob(data);
+        if (TERMINAL_STATUSES.includes(data.status)) {
+          finished = true;
+          source?.close();
+        }
+      });
+      on("status", (data) => merge({ status: data.status }));
+      on("progress", (data) => merge({ progress: data.progress, estimatedTimeRemaining: data.estimatedTimeRemaining }));
+      on("step", (data) => merge({ currentStep: data.currentStep }));
+      on("log", (data) => setLogs(prev => [...prev, data.message].slice(-MAX_LOG_LINES)));
+      on("result", (data) => {
+        merge({ status: data.status, result: data.result, error: data.error });
+        finished = true;
+        source?.close();
+      });
+
+      // Take over reconnection so the resume cursor and backoff are ours rather than the browser's
+      source.onerror = () => {
+        source?.close();
+        if (finished) return;
+        retryTimer = setTimeout(connect, Math.min(MAX_RETRY_DELAY, 1000 * 2 ** attempt++));
+      };
+    };
+
+    connect();
+
+    return () => {
+      finished = true;
+      source?.close();
+      clearTimeout(retryTimer);
+    };
+  }, [jobId]);
+
+  return { job, logs };
+}
@@ -17,8 +17,11 @@ import {
   Clock,
   CheckCircle,
   AlertCircle,
-  Loader2
+  Loader2,
+  Coins
 } from "lucide-react"
+import type { CreditTransaction } from "@shared/schema"
+import { useAuth } from "@/hooks/use-auth"
 
 interface VideoProject {
   id: string
@@ -34,6 +37,13 @@ interface VideoProject {
 export default function Dashboard() {
   const [searchQuery, setSearchQuery] = useState("")
   const [statusFilter, setStatusFilter] = useState<string>("all")
+  const { user } = useAuth()
+
+  const { data: creditHistory } = useQuery<{ balance: number; transactions: CreditTransaction[] }>({
+    queryKey: [`/api/users/${user?.id}/credits/history`],
+    enabled: !!user,
+    staleTime: 0, // balances change with every render, so refetch whenever the dashboard opens
+  })
 
   // Mock data for now - this would come from the API
   const projects: VideoProject[] = [
@@ -199,6 +209,41 @@ export default function Dashboard() {
         </motion.div>
       </div>
 
+      {/* Credits */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Coins className="h-5 w-5 text-yellow-500" />
+            Credits
+          </CardTitle>
+          <Badge variant="secondary">{creditHistory?.balance ?? user?.credits ?? 0} available</Badge>
+        </CardHeader>
+        <CardContent>
+          {creditHistory && creditHistory.transactions.length > 0 ? (
+            <div className="divide-y">
+              {creditHistory.transactions.slice(0, 10).map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between py-2 text-sm">
+                  <div>
+                    <p className="font-medium">{entry.description}</p>
+                    <p className="text-muted-foreground">
+                      {entry.createdAt ? new Date(entry.createdAt).toLocaleString() : ""}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className={entry.amount < 0 ? "text-red-600 font-medium" : "text-green-600 font-medium"}>
+                      {entry.amount > 0 ? `+${entry.amount}` : entry.amount}
+                    </p>
+                    <p className="text-muted-foreground">Balance {entry.balanceAfter}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No credit activity yet.</p>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Filters */}
       <Card>
         <CardContent className="p-6">
@@ -14,6 +14,7 @@ import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useJobEvents } from "@/hooks/use-job-events";
 
 import { Link } from "wouter";
 import { TemplateSelector } from "@/components/template-selector";
@@ -74,6 +75,7 @@ interface Voice {
   gender: string;
   style: string;
   language: string;
+  available: boolean; // false when the server lacks the voice's engine
 }
 
 interface Avatar {
@@ -150,7 +152,7 @@ export default function Home() {
   const { data: voices = [] } = useQuery({
     queryKey: ["/api/voices", voiceProvider],
     queryFn: async () => {
-      const response = await fetch(`/api/voices?provider=${voiceProvider}`);
+      const response = await fetch(`/api/voices?language=${voiceProvider === "english" ? "en" : "hi"}`);
       if (!response.ok) {
         throw new Error("Failed to fetch voices");
       }
@@ -173,13 +175,8 @@ export default function Home() {
     queryFn: () => fetch("/api/sound-effects").then(res => res.json()),
   });
 
-  // Generation job status
-  const { data: jobStatus, refetch: refetchJobStatus } = useQuery({
-    queryKey: ["/api/generation-status", currentJob],
-    queryFn: () => currentJob ? fetch(`/api/generation-status/${currentJob}`).then(res => res.json()) : null,
-    enabled: !!currentJob,
-    refetchInterval: currentJob ? 2000 : false,
-  });
+  // Generation job status, pushed over Server-Sent Events
+  const { job: jobStatus } = useJobEvents(currentJob);
 
   // Mutations
   const enhancePromptMutation = useMutation({
@@ -213,7 +210,7 @@ export default function Home() {
     mutationFn: async () => {
       // First create the project
       const projectResponse = await apiRequest("POST", "/api/projects", {
-        userId: "demo-user", // In a real app, this would come from auth
+        // No userId: the server assigns the project to the signed-in user
         title: `Generated Video ${Date.now()}`,
         prompt,
         negativePrompt,
@@ -277,6 +274,20 @@ export default function Home() {
     },
   });
 
+  const cancelGenerationMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      const response = await apiRequest("POST", `/api/cancel-generation/${jobId}`);
+      return response.json();
+    },
+    onError: (error) => {
+      toast({
+        title: "Cancel Failed",
+        description: error instanceof Error ? error.message : "Failed to cancel video generation",
+        variant: "destructive",
+      });
+    },
+  });
+
   const previewVoiceMutation = useMutation({
     mutationFn: async ({ voiceId, provider }: { voiceId: string; provider: string }) => {
       const response = await apiRequest("POST", "/api/preview-voice", {
@@ -301,10 +312,10 @@ export default function Home() {
     },
   });
 
-  // Auto-select first voice when provider changes
+  // Auto-select first voice when provider changes, preferring one the server can synthesize
   useEffect(() => {
     if (voices && voices.length > 0 && !selectedVoice) {
-      setSelectedVoice(voices[0].id);
+      setSelectedVoice((voices.find((voice: Voice) => voice.available) ?? voices[0]).id);
     }
   }, [voices, selectedVoice]);
 
@@ -317,7 +328,7 @@ export default function Home() {
 
   // Stop polling when job is complete
   useEffect(() => {
-    if (jobStatus && (jobStatus.status === "completed" || jobStatus.status === "failed")) {
+    if (jobStatus && (jobStatus.status === "completed" || jobStatus.status === "failed" || jobStatus.status === "cancelled")) {
       if (jobStatus.status === "completed") {
         toast({
           title: "Video Generated Successfully",
@@ -329,6 +340,11 @@ export default function Home() {
           description: jobStatus.error || "Video generation failed",
           variant: "destructive",
         });
+      } else if (jobStatus.status === "cancelled") {
+        toast({
+          title: "Generation Cancelled",
+          description: "The render was stopped and its partial files were removed.",
+        });
       }
     }
   }, [jobStatus, toast]);
@@ -549,8 +565,21 @@ export default function Home() {
                       value={jobStatus.progress || 0} 
                       className="h-2 mb-2" 
                     />
-                    <div className="text-xs text-slate-400">
-                      {jobStatus.currentStep || "Processing your video generation request..."}
+                    <div className="flex items-center justify-between">
+                      <div className="text-xs text-slate-400">
+                        {jobStatus.currentStep || "Processing your video generation request..."}
+                      </div>
+                      {(jobStatus.status === "pending" || jobStatus.status === "processing") && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                          onClick={() => cancelGenerationMutation.mutate(currentJob)}
+                          disabled={cancelGenerationMutation.isPending}
+                        >
+                          {cancelGenerationMutation.isPending ? "Cancelling..." : "Cancel"}
+                        </Button>
+                      )}
                     </div>
                   </div>
                 )}
@@ -657,8 +686,8 @@ export default function Home() {
                       </Label>
                       <div className="space-y-2 max-h-48 overflow-y-auto">
                         {voices
-                          ?.filter((voice: any) => voice.language === (voiceProvider === "english" ? "en" : "hi"))
                           ?.sort((a: any, b: any) => {
+                            if (a.available !== b.available) return a.available ? -1 : 1;
                             if (a.quality === "premium" && b.quality !== "premium") return -1;
                             if (b.quality === "premium" && a.quality !== "premium") return 1;
                             return 0;
@@ -666,10 +695,12 @@ export default function Home() {
                           ?.map((voice: any) => (
                           <div
                             key={voice.id}
-                            className={`bg-gray-900 border rounded-lg p-3 cursor-pointer transition-colors ${
-                              selectedVoice === voice.id ? "border-purple-500 bg-purple-500/10" : "border-gray-600 hover:border-purple-500"
+                            className={`bg-gray-900 border rounded-lg p-3 transition-colors ${
+                              !voice.available ? "border-gray-700 opacity-50 cursor-not-allowed"
+                                : selectedVoice === voice.id ? "border-purple-500 bg-purple-500/10 cursor-pointer" : "border-gray-600 hover:border-purple-500 cursor-pointer"
                             }`}
-                            onClick={() => setSelectedVoice(voice.id)}
+                            onClick={() => voice.available && setSelectedVoice(voice.id)}
+                            title={voice.available ? undefined : `${voice.provider} is not installed on the server`}
                           >
                             <div className="flex items-center justify-between">
                               <div className="flex-1">
@@ -684,6 +715,9 @@ export default function Home() {
                                 <div className="text-xs text-gray-400 mt-1">
                                   {voice.gender === "female" ? "👩" : "👨"} {voice.description}
                                 </div>
+                                {!voice.available && (
+                                  <div className="text-xs text-amber-400 mt-1">Engine not installed on the server</div>
+                                )}
                               </div>
                               <Button
                                 variant="ghost"
@@ -692,7 +726,7 @@ export default function Home() {
                                   e.stopPropagation();
                                   previewVoiceMutation.mutate({ voiceId: voice.id, provider: voice.provider });
                                 }}
-                                disabled={previewVoiceMutation.isPending}
+                                disabled={previewVoiceMutation.isPending || !voice.available}
                                 className="hover:bg-purple-500/20"
                               >
                                 <Play size={14} />
@@ -1,6 +1,6 @@
 import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -8,8 +8,22 @@ import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { FreeNotice } from "@/components/free-notice";
+import { useCapabilities } from "@/hooks/use-capabilities";
+import type { RecommendedSettings, ReferenceBenchmark, TimeRange, VideoAnalysis, VideoProject } from "@shared/schema";
+import {
+  BENCHMARK_METRICS,
+  benchmarkHtml,
+  benchmarkMarkdown,
+  describeOutlier,
+  formatMetric,
+  MIN_REFERENCES_FOR_OUTLIERS
+} from "@shared/reference-benchmark";
+import { diffProject, matchReference } from "@shared/reference-match";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { 
   Upload, 
   Video, 
@@ -17,58 +31,30 @@ import {
   Settings, 
   Download, 
   CheckCircle,
-  XCircle,
   AlertCircle,
   Zap,
   Sparkles,
-  Target
+  Target,
+  Palette,
+  Copy
 } from "lucide-react";
 
-interface VideoAnalysis {
-  analysis: {
-    duration: number;
-    resolution: { width: number; height: number };
-    frameRate: number;
-    bitrate: number;
-    codecInfo: { video: string; audio: string };
-    audioChannels: number;
-    audioSampleRate: number;
-    quality: {
-      estimatedCRF: number;
-      colorSpace: string;
-      dynamicRange: string;
-    };
-    visualElements: {
-      hasMotionBlur: boolean;
-      hasCameraMovement: boolean;
-      lightingQuality: "low" | "medium" | "high";
-      colorGrading: string;
-      visualEffects: string[];
-    };
-    audioFeatures: {
-      hasVoiceover: boolean;
-      hasBackgroundMusic: boolean;
-      hasSoundEffects: boolean;
-      audioQuality: "low" | "medium" | "high";
-    };
-  };
+interface AnalysisResponse {
+  analysis: VideoAnalysis;
   qualityReport: string;
-  recommendedSettings: any;
+  recommendedSettings: RecommendedSettings;
 }
 
-interface ReferenceAnalysis {
-  commonSpecs: any;
-  qualityBenchmark: any;
-  recommendedPipeline: any;
-  freeAlternatives: string[];
-}
+// The server takes at most this many references in one go
+const MAX_REFERENCES = 5;
 
 export default function VideoAnalyzer() {
   const { toast } = useToast();
+  const features = useCapabilities()?.features;
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [singleFile, setSingleFile] = useState<File | null>(null);
-  const [analysisResult, setAnalysisResult] = useState<VideoAnalysis | null>(null);
-  const [referenceAnalysis, setReferenceAnalysis] = useState<ReferenceAnalysis | null>(null);
+  const [analysisResult, setAnalysisResult] = useState<AnalysisResponse | null>(null);
+  const [referenceAnalysis, setReferenceAnalysis] = useState<ReferenceBenchmark | null>(null);
   const [implementationGuide, setImplementationGuide] = useState<string>("");
 
   // Single video analysis mutation
@@ -83,7 +69,8 @@ export default function VideoAnalyzer() {
       });
 
       if (!response.ok) {
-        throw new Error("Failed to analyze video");
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || "Failed to analyze video");
       }
 
       return response.json();
@@ -116,7 +103,8 @@ export default function VideoAnalyzer() {
       });
 
       if (!response.ok) {
-        throw new Error("Failed to analyze reference videos");
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || "Failed to analyze reference videos");
       }
 
       return response.json();
@@ -125,7 +113,7 @@ export default function VideoAnalyzer() {
       setReferenceAnalysis(data);
       toast({
         title: "Reference Videos Analyzed",
-        description: "Analysis complete. You can now see the quality benchmarks and free alternatives.",
+        description: "Analysis complete. The benchmark and any outliers are below.",
       });
     },
     onError: (error) => {
@@ -163,7 +151,13 @@ export default function VideoAnalyzer() {
     if (!files || files.length === 0) return;
 
     if (multiple) {
-      setSelectedFiles(Array.from(files));
+      if (files.length > MAX_REFERENCES) {
+        toast({
+          title: "Too Many Videos",
+          description: `Only the first ${MAX_REFERENCES} will be analyzed.`,
+        });
+      }
+      setSelectedFiles(Array.from(files).slice(0, MAX_REFERENCES));
     } else {
       setSingleFile(files[0]);
     }
@@ -178,6 +172,21 @@ export default function VideoAnalyzer() {
     return colors[quality as keyof typeof colors] || "bg-gray-500";
   };
 
+  const downloadReport = (format: "md" | "html") => {
+    if (!referenceAnalysis) return;
+    const blob = format === "md"
+      ? new Blob([benchmarkMarkdown(referenceAnalysis)], { type: "text/markdown" })
+      : new Blob([benchmarkHtml(referenceAnalysis)], { type: "text/html" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `reference-benchmark.${format}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   const formatFileSize = (bytes: number) => {
     const sizes = ['Bytes', 'KB', 'MB', 'GB'];
     if (bytes === 0) return '0 Bytes';
@@ -248,9 +257,15 @@ export default function VideoAnalyzer() {
                   )}
                 </div>
 
+                {features?.videoAnalysis === false && (
+                  <p className="text-sm text-yellow-400">
+                    This server's ffmpeg or ffprobe lacks what video analysis needs.
+                  </p>
+                )}
+
                 <Button
                   onClick={() => singleFile && analyzeSingleVideoMutation.mutate(singleFile)}
-                  disabled={!singleFile || analyzeSingleVideoMutation.isPending}
+                  disabled={!singleFile || analyzeSingleVideoMutation.isPending || features?.videoAnalysis === false}
                   className="w-full bg-accent hover:bg-purple-700"
                 >
                   {analyzeSingleVideoMutation.isPending ? (
@@ -311,57 +326,116 @@ export default function VideoAnalyzer() {
 
                 <Card className="bg-secondary border-slate-700">
                   <CardHeader>
-                    <CardTitle>Features Detected</CardTitle>
+                    <CardTitle className="flex items-center space-x-2">
+                      <Video className="w-5 h-5 text-accent" />
+                      <span>Picture</span>
+                    </CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-4">
                     <div className="grid grid-cols-2 gap-4">
-                      <div className="flex items-center space-x-2">
-                        {analysisResult.analysis.audioFeatures.hasVoiceover ? (
-                          <CheckCircle className="w-4 h-4 text-green-500" />
-                        ) : (
-                          <XCircle className="w-4 h-4 text-red-500" />
-                        )}
-                        <span className="text-sm">Voiceover</span>
+                      <div>
+                        <Label className="text-slate-400">Shots</Label>
+                        <p className="font-mono">
+                          {analysisResult.analysis.visualElements.sceneCuts.length + 1} (avg {analysisResult.analysis.visualElements.averageShotLength.toFixed(1)}s)
+                        </p>
                       </div>
-                      <div className="flex items-center space-x-2">
-                        {analysisResult.analysis.audioFeatures.hasBackgroundMusic ? (
-                          <CheckCircle className="w-4 h-4 text-green-500" />
-                        ) : (
-                          <XCircle className="w-4 h-4 text-red-500" />
-                        )}
-                        <span className="text-sm">Background Music</span>
+                      <div>
+                        <Label className="text-slate-400">Motion</Label>
+                        <p className="font-mono">
+                          {analysisResult.analysis.visualElements.motion.toFixed(1)} ({analysisResult.analysis.visualElements.hasCameraMovement ? "moving" : "mostly still"})
+                        </p>
                       </div>
-                      <div className="flex items-center space-x-2">
-                        {analysisResult.analysis.visualElements.hasMotionBlur ? (
-                          <CheckCircle className="w-4 h-4 text-green-500" />
-                        ) : (
-                          <XCircle className="w-4 h-4 text-red-500" />
-                        )}
-                        <span className="text-sm">Motion Blur</span>
+                      <div>
+                        <Label className="text-slate-400">Brightness</Label>
+                        <p className="font-mono">{analysisResult.analysis.visualElements.brightness.toFixed(0)}/255</p>
                       </div>
-                      <div className="flex items-center space-x-2">
-                        {analysisResult.analysis.visualElements.hasCameraMovement ? (
-                          <CheckCircle className="w-4 h-4 text-green-500" />
-                        ) : (
-                          <XCircle className="w-4 h-4 text-red-500" />
-                        )}
-                        <span className="text-sm">Camera Movement</span>
+                      <div>
+                        <Label className="text-slate-400">Color Grading</Label>
+                        <p className="font-mono">{analysisResult.analysis.visualElements.colorGrading}</p>
                       </div>
                     </div>
 
                     <div>
-                      <Label className="text-slate-400">Visual Effects</Label>
-                      <div className="flex flex-wrap gap-2 mt-2">
-                        {analysisResult.analysis.visualElements.visualEffects.map((effect, index) => (
-                          <Badge key={index} variant="outline" className="text-xs">
-                            {effect.replace(/_/g, ' ')}
-                          </Badge>
+                      <Label className="text-slate-400 flex items-center gap-1">
+                        <Palette className="w-4 h-4" />
+                        Palette
+                      </Label>
+                      <div className="flex h-8 mt-2 rounded overflow-hidden border border-slate-600">
+                        {analysisResult.analysis.visualElements.palette.map(({ color, share }) => (
+                          <div key={color} style={{ backgroundColor: color, flexGrow: share }} title={`${color} (${Math.round(share * 100)}%)`} />
                         ))}
                       </div>
                     </div>
+
+                    <div className="space-y-2">
+                      <Label className="text-slate-400">Timeline</Label>
+                      <Timeline duration={analysisResult.analysis.duration} cuts={analysisResult.analysis.visualElements.sceneCuts} ranges={analysisResult.analysis.visualElements.blackFrames} className="bg-slate-950" />
+                      <Timeline duration={analysisResult.analysis.duration} ranges={analysisResult.analysis.visualElements.frozenFrames} className="bg-sky-500" />
+                      <div className="flex flex-wrap gap-3 text-xs text-slate-400">
+                        <span>White ticks: cuts</span>
+                        <span>Black: black frames ({analysisResult.analysis.visualElements.blackFrames.length})</span>
+                        <span>Blue: frozen frames ({analysisResult.analysis.visualElements.frozenFrames.length})</span>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card className="bg-secondary border-slate-700">
+                  <CardHeader>
+                    <CardTitle className="flex items-center space-x-2">
+                      <AudioLines className="w-5 h-5 text-accent" />
+                      <span>Sound</span>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {analysisResult.analysis.hasAudio ? (
+                      <>
+                        <div className="grid grid-cols-3 gap-4">
+                          <div>
+                            <Label className="text-slate-400">Loudness</Label>
+                            <p className="font-mono">
+                              {analysisResult.analysis.audioFeatures.loudness ? `${analysisResult.analysis.audioFeatures.loudness.integrated.toFixed(1)} LUFS` : "n/a"}
+                            </p>
+                          </div>
+                          <div>
+                            <Label className="text-slate-400">True Peak</Label>
+                            <p className="font-mono">
+                              {analysisResult.analysis.audioFeatures.loudness ? `${analysisResult.analysis.audioFeatures.loudness.truePeak.toFixed(1)} dBTP` : "n/a"}
+                            </p>
+                          </div>
+                          <div>
+                            <Label className="text-slate-400">Range</Label>
+                            <p className="font-mono">
+                              {analysisResult.analysis.audioFeatures.loudness ? `${analysisResult.analysis.audioFeatures.loudness.lra.toFixed(1)} LU` : "n/a"}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="space-y-2">
+                          <Label className="text-slate-400">
+                            Silence ({Math.round(analysisResult.analysis.audioFeatures.silenceRatio * 100)}% of the duration)
+                          </Label>
+                          <Timeline duration={analysisResult.analysis.duration} ranges={analysisResult.analysis.audioFeatures.silences} className="bg-slate-500" />
+                        </div>
+                      </>
+                    ) : (
+                      <p className="text-sm text-slate-400">The video has no audio track.</p>
+                    )}
                   </CardContent>
                 </Card>
 
+                {analysisResult.analysis.warnings.length > 0 && (
+                  <Card className="bg-secondary border-slate-700">
+                    <CardContent className="pt-6 space-y-2">
+                      {analysisResult.analysis.warnings.map((warning) => (
+                        <div key={warning} className="flex items-start space-x-2 text-sm text-yellow-400">
+                          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                          <span>{warning}</span>
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                )}
+
                 <Card className="bg-secondary border-slate-700 lg:col-span-2">
                   <CardHeader>
                     <CardTitle>Quality Report & Recommendations</CardTitle>
@@ -372,6 +446,12 @@ export default function VideoAnalyzer() {
                     </pre>
                   </CardContent>
                 </Card>
+
+                <MatchReference
+                  recommended={analysisResult.recommendedSettings}
+                  reference={singleFile?.name ?? "Reference video"}
+                  referenceDuration={analysisResult.analysis.duration}
+                />
               </div>
             )}
           </TabsContent>
@@ -385,7 +465,7 @@ export default function VideoAnalyzer() {
                   <span>Upload Reference Videos</span>
                 </CardTitle>
                 <p className="text-sm text-slate-400">
-                  Upload multiple videos to analyze quality patterns and get customized free alternatives
+                  Upload up to five videos to benchmark their encoding, pacing, loudness and colour against each other
                 </p>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -414,7 +494,7 @@ export default function VideoAnalyzer() {
 
                 <Button
                   onClick={() => selectedFiles.length > 0 && analyzeReferenceVideosMutation.mutate(selectedFiles)}
-                  disabled={selectedFiles.length === 0 || analyzeReferenceVideosMutation.isPending}
+                  disabled={selectedFiles.length === 0 || analyzeReferenceVideosMutation.isPending || features?.videoAnalysis === false}
                   className="w-full bg-accent hover:bg-purple-700"
                 >
                   {analyzeReferenceVideosMutation.isPending ? (
@@ -437,32 +517,52 @@ export default function VideoAnalyzer() {
               <div className="space-y-6">
                 <Card className="bg-secondary border-slate-700">
                   <CardHeader>
-                    <CardTitle>Quality Benchmark</CardTitle>
+                    <div className="flex items-center justify-between">
+                      <CardTitle>Quality Benchmark</CardTitle>
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={() => downloadReport("md")}>
+                          <Download className="w-4 h-4 mr-2" />
+                          Markdown
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => downloadReport("html")}>
+                          <Download className="w-4 h-4 mr-2" />
+                          HTML
+                        </Button>
+                      </div>
+                    </div>
+                    <p className="text-sm text-slate-400">
+                      Medians of {referenceAnalysis.references.filter(({ analysis }) => analysis).length} analyzed references
+                    </p>
                   </CardHeader>
                   <CardContent className="space-y-4">
                     <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                       <div>
-                        <Label className="text-slate-400">Target Resolution</Label>
-                        <p className="font-mono">
-                          {referenceAnalysis.commonSpecs.resolution?.width || 1920}x
-                          {referenceAnalysis.commonSpecs.resolution?.height || 1080}
-                        </p>
-                      </div>
-                      <div>
-                        <Label className="text-slate-400">Target Bitrate</Label>
-                        <p className="font-mono">
-                          {((referenceAnalysis.commonSpecs.bitrate || 8000000) / 1000000).toFixed(1)} Mbps
-                        </p>
+                        <Label className="text-slate-400">Resolution</Label>
+                        <p className="font-mono">{referenceAnalysis.resolution.width}x{referenceAnalysis.resolution.height}</p>
                       </div>
+                      {(Object.keys(BENCHMARK_METRICS) as (keyof typeof BENCHMARK_METRICS)[]).map((metric) => (
+                        <div key={metric}>
+                          <Label className="text-slate-400">{BENCHMARK_METRICS[metric].label}</Label>
+                          <p className="font-mono">
+                            {referenceAnalysis.medians[metric] === null ? "-" : BENCHMARK_METRICS[metric].format(referenceAnalysis.medians[metric]!)}
+                          </p>
+                        </div>
+                      ))}
                       <div>
-                        <Label className="text-slate-400">Frame Rate</Label>
-                        <p className="font-mono">{referenceAnalysis.commonSpecs.frameRate || 30} fps</p>
+                        <Label className="text-slate-400">Color Grading</Label>
+                        <p className="font-mono">{referenceAnalysis.colorGrading}</p>
                       </div>
-                      <div>
-                        <Label className="text-slate-400">Audio Quality</Label>
-                        <Badge className={getQualityBadge(referenceAnalysis.commonSpecs.audioQuality || "high")}>
-                          {(referenceAnalysis.commonSpecs.audioQuality || "high").toUpperCase()}
-                        </Badge>
+                    </div>
+
+                    <div>
+                      <Label className="text-slate-400 flex items-center gap-1">
+                        <Palette className="w-4 h-4" />
+                        Pooled Palette
+                      </Label>
+                      <div className="flex h-8 mt-2 rounded overflow-hidden border border-slate-600">
+                        {referenceAnalysis.palette.map(({ color, share }) => (
+                          <div key={color} style={{ backgroundColor: color, flexGrow: share }} title={`${color} (${Math.round(share * 100)}%)`} />
+                        ))}
                       </div>
                     </div>
                   </CardContent>
@@ -470,43 +570,71 @@ export default function VideoAnalyzer() {
 
                 <Card className="bg-secondary border-slate-700">
                   <CardHeader>
-                    <CardTitle>Recommended Free Pipeline</CardTitle>
+                    <CardTitle>References</CardTitle>
                   </CardHeader>
-                  <CardContent className="space-y-4">
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div>
-                        <Label className="text-slate-400">Text-to-Video</Label>
-                        <p className="font-mono text-accent">{referenceAnalysis.recommendedPipeline.textToVideo}</p>
-                      </div>
-                      <div>
-                        <Label className="text-slate-400">Voice Synthesis</Label>
-                        <p className="font-mono text-accent">{referenceAnalysis.recommendedPipeline.voiceSynthesis}</p>
-                      </div>
-                      <div>
-                        <Label className="text-slate-400">Avatar Generation</Label>
-                        <p className="font-mono text-accent">{referenceAnalysis.recommendedPipeline.avatarGeneration}</p>
-                      </div>
-                      <div>
-                        <Label className="text-slate-400">Video Enhancement</Label>
-                        <p className="font-mono text-accent">{referenceAnalysis.recommendedPipeline.videoEnhancement}</p>
-                      </div>
-                    </div>
+                  <CardContent className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>File</TableHead>
+                          <TableHead>Resolution</TableHead>
+                          {Object.values(BENCHMARK_METRICS).map(({ label }) => (
+                            <TableHead key={label}>{label}</TableHead>
+                          ))}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {referenceAnalysis.references.map(({ name, analysis, error }, index) => (
+                          <TableRow key={index}>
+                            <TableCell className="font-medium">{name}</TableCell>
+                            {analysis ? (
+                              <>
+                                <TableCell className="font-mono">{analysis.resolution.width}x{analysis.resolution.height}</TableCell>
+                                {(Object.keys(BENCHMARK_METRICS) as (keyof typeof BENCHMARK_METRICS)[]).map((metric) => (
+                                  <TableCell
+                                    key={metric}
+                                    className={`font-mono ${referenceAnalysis.outliers.some((outlier) => outlier.name === name && outlier.metric === metric) ? "text-yellow-400" : ""}`}
+                                  >
+                                    {formatMetric(metric, analysis)}
+                                  </TableCell>
+                                ))}
+                              </>
+                            ) : (
+                              <TableCell colSpan={Object.keys(BENCHMARK_METRICS).length + 1} className="text-red-400">
+                                {error}
+                              </TableCell>
+                            )}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
                   </CardContent>
                 </Card>
 
                 <Card className="bg-secondary border-slate-700">
                   <CardHeader>
-                    <CardTitle>Free Alternatives (100% Cost-Free)</CardTitle>
+                    <CardTitle>Outliers</CardTitle>
                   </CardHeader>
-                  <CardContent>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      {referenceAnalysis.freeAlternatives.map((alternative, index) => (
+                  <CardContent className="space-y-2">
+                    {referenceAnalysis.outliers.length > 0 ? (
+                      referenceAnalysis.outliers.map((outlier, index) => (
                         <div key={index} className="flex items-start space-x-3 p-3 bg-primary rounded border border-slate-600">
-                          <CheckCircle className="w-5 h-5 text-green-500 mt-0.5 flex-shrink-0" />
-                          <span className="text-sm">{alternative}</span>
+                          <AlertCircle className="w-5 h-5 text-yellow-400 mt-0.5 flex-shrink-0" />
+                          <span className="text-sm">
+                            <span className="font-medium">{outlier.name}</span>: {describeOutlier(outlier)}
+                          </span>
                         </div>
-                      ))}
-                    </div>
+                      ))
+                    ) : (
+                      <div className="flex items-center space-x-2 text-sm text-slate-400">
+                        <CheckCircle className="w-4 h-4 text-green-500" />
+                        <span>
+                          {referenceAnalysis.references.filter(({ analysis }) => analysis).length >= MIN_REFERENCES_FOR_OUTLIERS
+                            ? "The references are consistent with each other."
+                            : `Outliers need at least ${MIN_REFERENCES_FOR_OUTLIERS} analyzed references.`}
+                        </span>
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               </div>
@@ -562,4 +690,159 @@ export default function VideoAnalyzer() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// Where cuts and measured stretches fall across the video, as ticks and blocks on a bar
+function Timeline({ duration, cuts = [], ranges, className }: { duration: number; cuts?: number[]; ranges: TimeRange[]; className: string }) {
+  const percent = (time: number) => `${duration > 0 ? Math.min(100, (time / duration) * 100) : 0}%`;
+  return (
+    <div className="relative h-4 rounded bg-primary border border-slate-600 overflow-hidden">
+      {ranges.map(({ start, end }) => (
+        <div key={`${start}-${end}`} className={`absolute inset-y-0 ${className}`} style={{ left: percent(start), width: percent(end - start) }} />
+      ))}
+      {cuts.map((time) => (
+        <div key={time} className="absolute inset-y-0 w-px bg-white" style={{ left: percent(time) }} />
+      ))}
+    </div>
+  );
+}
+
+// Turns the analysis into project settings and shows what applying them would change, for a new project or an
+// existing one
+function MatchReference({ recommended, reference, referenceDuration }: {
+  recommended: RecommendedSettings;
+  reference: string;
+  referenceDuration: number;
+}) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [target, setTarget] = useState("new");
+  const [title, setTitle] = useState(`Matched to ${reference}`);
+  const [prompt, setPrompt] = useState("");
+  // Projects run up to a minute
+  const [newDuration, setNewDuration] = useState(Math.min(60, Math.max(1, Math.round(referenceDuration))));
+
+  const { data: projects = [] } = useQuery<VideoProject[]>({
+    queryKey: [`/api/projects/${user?.id}`],
+    enabled: !!user,
+  });
+
+  const project = projects.find(({ id }) => id === target) ?? null;
+  const duration = project ? project.duration ?? 8 : newDuration;
+  const match = matchReference(recommended, reference);
+  const changes = diffProject(project, match, duration);
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const response = project
+        ? await apiRequest("PATCH", `/api/projects/${project.id}`, match)
+        : await apiRequest("POST", "/api/projects", { title, prompt, duration, ...match });
+      return response.json() as Promise<VideoProject>;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${user?.id}`] });
+      setTarget(saved.id);
+      toast({
+        title: project ? "Project Updated" : "Project Created",
+        description: `"${saved.title}" now renders with the reference's settings.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Apply Settings",
+        description: error instanceof Error ? error.message : "Failed to save the project",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="bg-secondary border-slate-700 lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Copy className="w-5 h-5 text-accent" />
+          <span>Match Reference</span>
+        </CardTitle>
+        <p className="text-sm text-slate-400">
+          Render a project at this video's resolution, frame rate, encoding, pacing and loudness
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Apply To</Label>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger className="bg-primary border-slate-600">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="new">New project</SelectItem>
+                {projects.map(({ id, title }) => (
+                  <SelectItem key={id} value={id}>{title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {!project && (
+            <>
+              <div className="space-y-2">
+                <Label>Title</Label>
+                <Input value={title} onChange={(e) => setTitle(e.target.value)} className="bg-primary border-slate-600" />
+              </div>
+              <div className="space-y-2">
+                <Label>Duration (seconds)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={60}
+                  value={newDuration}
+                  onChange={(e) => setNewDuration(Math.min(60, Math.max(1, parseInt(e.target.value) || 1)))}
+                  className="bg-primary border-slate-600"
+                />
+              </div>
+              <div className="space-y-2 md:col-span-3">
+                <Label>Prompt</Label>
+                <Input
+                  value={prompt}
+                  onChange={(e) => setPrompt(e.target.value)}
+                  placeholder="What the new video should show"
+                  className="bg-primary border-slate-600"
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Setting</TableHead>
+              {project && <TableHead>Current</TableHead>}
+              <TableHead>From Reference</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {changes.map(({ label, current, proposed }) => (
+              <TableRow key={label}>
+                <TableCell>{label}</TableCell>
+                {project && <TableCell className="font-mono">{current}</TableCell>}
+                <TableCell className={`font-mono ${project && current !== proposed ? "text-yellow-400" : ""}`}>{proposed}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <Button
+          onClick={() => applyMutation.mutate()}
+          disabled={applyMutation.isPending || (!project && (!title.trim() || !prompt.trim()))}
+          className="w-full bg-accent hover:bg-purple-700"
+        >
+          <CheckCircle className="w-4 h-4 mr-2" />
+          {project
+            ? `Apply ${changes.filter(({ current, proposed }) => current !== proposed).length} Changes`
+            : "Create Project"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
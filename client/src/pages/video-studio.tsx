@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
@@ -14,12 +14,16 @@ import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useJobEvents } from "@/hooks/use-job-events";
+import { useCapabilities } from "@/hooks/use-capabilities";
+import type { LoudnessTarget, ScenePadding, SubtitleStyle, TTSVoice, VoiceProcessing } from "@shared/schema";
+import { defaultSpeakerName, parseDialogueScript, scriptSpeakers, type CastMember } from "@shared/dialogue";
 
 import { TemplateSelector } from "@/components/template-selector";
 import { SceneEditor } from "@/components/scene-editor";
+import { LexiconEditor } from "@/components/lexicon-editor";
+import { VoiceProcessingEditor } from "@/components/voice-processing-editor";
 import { VideoPreview } from "@/components/video-preview";
-import { ttsEngine } from "@/lib/tts-engine";
-import { ffmpegProcessor } from "@/lib/ffmpeg-processor";
 import { 
   Play, 
   Pause, 
@@ -43,9 +47,13 @@ import {
   Volume2,
   Film,
   Palette,
+  Users,
   Zap
 } from "lucide-react";
 
+// Common fonts on the render host; the ones the server reports as missing are disabled
+const subtitleFonts = ['DejaVu Sans', 'DejaVu Serif', 'Liberation Sans', 'Noto Sans'];
+
 interface Scene {
   id: string;
   title: string;
@@ -53,8 +61,11 @@ interface Scene {
   background: string;
   voiceId: string;
   duration: number;
+  durationMode: 'auto' | 'fixed';
   textStyle: string;
   audioEnabled: boolean;
+  speaker?: string; // the cast member's name, for dialogue scenes
+  voiceProcessing?: VoiceProcessing; // replaces the project's chain for this scene
   backgroundImage?: string;
   audioFile?: string;
 }
@@ -66,7 +77,12 @@ interface ProjectSettings {
   backgroundMusic?: string;
   backgroundMusicVolume: number;
   subtitlesEnabled: boolean;
+  subtitleStyle: SubtitleStyle;
+  loudnessTarget: LoudnessTarget;
+  scenePadding: ScenePadding;
   outputFormat: 'mp4' | 'webm';
+  lowerThirds: boolean;
+  voiceProcessing: VoiceProcessing;
 }
 
 export default function VideoStudio() {
@@ -79,55 +95,100 @@ export default function VideoStudio() {
     frameRate: 30,
     backgroundMusicVolume: 30,
     subtitlesEnabled: true,
-    outputFormat: 'mp4'
+    subtitleStyle: {
+      burnIn: false,
+      font: 'DejaVu Sans',
+      fontSize: 18,
+      outline: 1.5,
+      position: 'bottom',
+      maxCharsPerLine: 42
+    },
+    loudnessTarget: 'youtube',
+    scenePadding: { head: 0.3, tail: 0.7 },
+    outputFormat: 'mp4',
+    lowerThirds: true,
+    voiceProcessing: { preset: 'none' }
   });
 
   // Template and scenes
   const [selectedTemplate, setSelectedTemplate] = useState<string | null>(null);
   const [scenes, setScenes] = useState<Scene[]>([]);
   const [fullScript, setFullScript] = useState("");
+  const [cast, setCast] = useState<CastMember[]>([]); // voices and names chosen for the script's speaker labels
+
+  // Generation state; the render runs on the server and reports back over Server-Sent Events
+  const [currentJob, setCurrentJob] = useState<string | null>(null);
+  const { job: renderJob } = useJobEvents(currentJob);
+  const capabilities = useCapabilities();
 
-  // Generation state
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [generationProgress, setGenerationProgress] = useState(0);
-  const [currentStep, setCurrentStep] = useState("");
+  // Options the server can't render are disabled; everything stays enabled until its capabilities are known
+  const features = capabilities?.features;
+  const canRender = features?.rendering ?? true;
+  const canEncode = (format: 'mp4' | 'webm') => features?.outputFormats.includes(format) ?? true;
+  const fontInstalled = (font: string) => !capabilities?.fonts.length || capabilities.fonts.includes(font);
+  const isGenerating = !!currentJob && (!renderJob || renderJob.status === "pending" || renderJob.status === "processing");
+  const generationProgress = renderJob?.progress ?? 0;
+  const currentStep = renderJob?.currentStep ?? "Queued";
   const [generatedVideoUrl, setGeneratedVideoUrl] = useState<string | null>(null);
   const [generatedThumbnailUrl, setGeneratedThumbnailUrl] = useState<string | null>(null);
+  const [generatedSubtitles, setGeneratedSubtitles] = useState<{ srtUrl?: string; vttUrl?: string }>({});
 
   // UI state
   const [activeTab, setActiveTab] = useState("template");
   const [previewMode, setPreviewMode] = useState<'scenes' | 'timeline'>('scenes');
 
   // Queries
-  const { data: voices = [] } = useQuery({
+  const { data: voices = [] } = useQuery<TTSVoice[]>({
     queryKey: ["/api/voices"],
     queryFn: () => fetch("/api/voices").then(res => res.json()),
   });
 
+  // New scenes start with a voice the server can synthesize, when there is one
+  const defaultVoiceId = (voices.find((voice) => voice.available) ?? voices[0])?.id || '';
+
   const { data: backgroundMusicTracks = [] } = useQuery({
     queryKey: ["/api/background-music"],
     queryFn: () => fetch("/api/background-music").then(res => res.json()),
   });
 
-  // Parse script into scenes
-  const parseScriptIntoScenes = (script: string) => {
-    const lines = script.split('\n').filter(line => line.trim());
-    const newScenes: Scene[] = [];
-    
-    lines.forEach((line, index) => {
-      if (line.trim()) {
-        const scene: Scene = {
-          id: `scene-${Date.now()}-${index}`,
-          title: `Scene ${index + 1}`,
-          text: line.trim(),
-          background: 'gradient',
-          voiceId: voices[0]?.id || '',
-          duration: Math.max(3, Math.min(10, line.length * 0.1)),
-          textStyle: 'fade-in',
-          audioEnabled: true
-        };
-        newScenes.push(scene);
-      }
+  const scriptLines = useMemo(() => parseDialogueScript(fullScript), [fullScript]);
+  const speakers = useMemo(() => scriptSpeakers(scriptLines), [scriptLines]);
+
+  // Speakers without a chosen voice alternate genders, so a two-person script gets two distinguishable voices
+  const castMember = (label: string, index = speakers.indexOf(label)): CastMember => {
+    const chosen = cast.find(member => member.label === label);
+    if (chosen) return chosen;
+
+    const baseVoice = voices.find((voice) => voice.id === defaultVoiceId);
+    const candidates = voices.filter((voice) =>
+      voice.available && voice.language === baseVoice?.language && (voice.gender === baseVoice?.gender) === (index % 2 === 0))
+      .sort((a, b) => Number(b.id === defaultVoiceId) - Number(a.id === defaultVoiceId));
+    const voice = candidates[Math.floor(Math.max(index, 0) / 2) % Math.max(candidates.length, 1)];
+    return { label, name: defaultSpeakerName(label), voiceId: voice?.id || defaultVoiceId };
+  };
+
+  const updateCastMember = (label: string, changes: Partial<CastMember>) => {
+    const member = { ...castMember(label), ...changes };
+    setCast(prev => [...prev.filter(existing => existing.label !== label), member]);
+  };
+
+  // Parse script into scenes; dialogue lines are spoken by their cast member's voice
+  const parseScriptIntoScenes = () => {
+    const newScenes: Scene[] = scriptLines.map((line, index) => {
+      const member = line.speaker ? castMember(line.speaker) : null;
+      return {
+        id: `scene-${Date.now()}-${index}`,
+        title: `Scene ${index + 1}`,
+        text: line.text,
+        background: 'gradient',
+        voiceId: member?.voiceId ?? defaultVoiceId,
+        // Only a placeholder; the server fits auto scenes to the synthesized narration
+        duration: Math.max(3, Math.min(10, line.text.length * 0.1)),
+        durationMode: 'auto',
+        textStyle: 'fade-in',
+        audioEnabled: true,
+        speaker: member?.name
+      };
     });
     
     setScenes(newScenes);
@@ -136,6 +197,10 @@ export default function VideoStudio() {
     }
   };
 
+  const updateSubtitleStyle = (changes: Partial<SubtitleStyle>) => {
+    setProjectSettings(prev => ({ ...prev, subtitleStyle: { ...prev.subtitleStyle, ...changes } }));
+  };
+
   // Template selection handler
   const handleTemplateSelect = (templateId: string) => {
     setSelectedTemplate(templateId);
@@ -154,9 +219,11 @@ export default function VideoStudio() {
   const getTemplateScenes = (templateId: string): Scene[] => {
     const templates = {
       "interview": [
-        { text: "Welcome to our interview today", duration: 3 },
-        { text: "Let me ask you about your experience", duration: 4 },
-        { text: "That's a fascinating perspective", duration: 3 }
+        { speaker: "HOST", text: "Welcome to our interview today", duration: 3 },
+        { speaker: "GUEST", text: "Thanks for having me, it's great to be here", duration: 3 },
+        { speaker: "HOST", text: "Let me ask you about your experience", duration: 4 },
+        { speaker: "GUEST", text: "It all started with a simple idea", duration: 4 },
+        { speaker: "HOST", text: "That's a fascinating perspective", duration: 3 }
       ],
       "story": [
         { text: "Once upon a time, in a world not so different from ours", duration: 5 },
@@ -173,97 +240,103 @@ export default function VideoStudio() {
       ]
     };
 
-    const template = templates[templateId as keyof typeof templates] || [];
-    return template.map((scene, index) => ({
-      id: `scene-${Date.now()}-${index}`,
-      title: `Scene ${index + 1}`,
-      text: scene.text,
-      background: 'gradient',
-      voiceId: voices[0]?.id || '',
-      duration: scene.duration,
-      textStyle: 'fade-in',
-      audioEnabled: true
-    }));
+    const template: { speaker?: string; text: string; duration: number }[] = templates[templateId as keyof typeof templates] || [];
+    const templateSpeakers = Array.from(new Set(template.map(scene => scene.speaker).filter(Boolean))) as string[];
+    return template.map((scene, index) => {
+      const member = scene.speaker ? castMember(scene.speaker, templateSpeakers.indexOf(scene.speaker)) : null;
+      return {
+        id: `scene-${Date.now()}-${index}`,
+        title: `Scene ${index + 1}`,
+        text: scene.text,
+        background: 'gradient',
+        voiceId: member?.voiceId ?? defaultVoiceId,
+        duration: scene.duration,
+        durationMode: 'auto' as const,
+        textStyle: 'fade-in',
+        audioEnabled: true,
+        speaker: member?.name
+      };
+    });
   };
 
   // Generate video mutation
   const generateVideoMutation = useMutation({
     mutationFn: async () => {
-      setIsGenerating(true);
-      setGenerationProgress(0);
-      setCurrentStep("Initializing video generation...");
-
-      try {
-        // Step 1: Generate audio for all scenes
-        setCurrentStep("Generating voice audio...");
-        const audioMap = await ttsEngine.generateSceneAudio(
-          scenes.map(scene => ({
-            text: scene.text,
-            voiceId: scene.voiceId,
-            duration: scene.duration
-          }))
-        );
-
-        // Step 2: Prepare scenes with audio files
-        const scenesWithAudio = scenes.map(scene => ({
-          ...scene,
-          audioFile: audioMap.get(scene.text) ? URL.createObjectURL(audioMap.get(scene.text)!) : undefined
-        }));
-
-        setGenerationProgress(30);
-        setCurrentStep("Processing video scenes...");
-
-        // Step 3: Generate video using FFmpeg
-        const videoBlob = await ffmpegProcessor.generateVideo({
-          scenes: scenesWithAudio,
-          resolution: projectSettings.resolution,
-          frameRate: projectSettings.frameRate,
-          backgroundMusic: projectSettings.backgroundMusic,
-          backgroundMusicVolume: projectSettings.backgroundMusicVolume,
-          outputFormat: projectSettings.outputFormat
-        }, (progress) => {
-          setGenerationProgress(30 + (progress * 0.6));
-        });
-
-        setCurrentStep("Generating thumbnail...");
-        setGenerationProgress(90);
-
-        // Step 4: Generate thumbnail
-        const thumbnailBlob = await ffmpegProcessor.generateThumbnail(videoBlob);
-
-        setCurrentStep("Finalizing...");
-        setGenerationProgress(100);
+      const response = await apiRequest("POST", "/api/render-scenes", {
+        scenes,
+        settings: projectSettings,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setGeneratedVideoUrl(null);
+      setGeneratedThumbnailUrl(null);
+      setGeneratedSubtitles({});
+      setCurrentJob(data.jobId);
+      // The render was charged up front
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Generation Failed",
+        description: error instanceof Error ? error.message : "Failed to generate video",
+        variant: "destructive",
+      });
+    },
+  });
 
-        // Create URLs for the generated content
-        const videoUrl = URL.createObjectURL(videoBlob);
-        const thumbnailUrl = URL.createObjectURL(thumbnailBlob);
+  const cancelGenerationMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      const response = await apiRequest("POST", `/api/cancel-generation/${jobId}`);
+      return response.json();
+    },
+    onError: (error) => {
+      toast({
+        title: "Cancel Failed",
+        description: error instanceof Error ? error.message : "Failed to cancel video generation",
+        variant: "destructive",
+      });
+    },
+  });
 
-        setGeneratedVideoUrl(videoUrl);
-        setGeneratedThumbnailUrl(thumbnailUrl);
-        setActiveTab("preview");
+  // React once the server-side render finishes
+  useEffect(() => {
+    if (!renderJob) return;
 
-        return { videoUrl, thumbnailUrl };
+    if (renderJob.status === "failed" || renderJob.status === "cancelled") {
+      // Failed and cancelled renders are refunded
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    }
 
-      } catch (error) {
-        throw error;
-      } finally {
-        setIsGenerating(false);
-      }
-    },
-    onSuccess: () => {
+    if (renderJob.status === "completed" && renderJob.result) {
+      setGeneratedVideoUrl(renderJob.result.videoUrl ?? null);
+      setGeneratedThumbnailUrl(renderJob.result.thumbnailUrl ?? null);
+      setGeneratedSubtitles({ srtUrl: renderJob.result.srtUrl, vttUrl: renderJob.result.vttUrl });
+      setActiveTab("preview");
       toast({
         title: "Video Generated Successfully!",
         description: "Your video is ready for preview and download.",
       });
-    },
-    onError: (error) => {
+      if (renderJob.result.warnings?.length) {
+        toast({
+          title: "Rendered with warnings",
+          description: renderJob.result.warnings.join(" "),
+          variant: "destructive",
+        });
+      }
+    } else if (renderJob.status === "failed") {
       toast({
         title: "Generation Failed",
-        description: error instanceof Error ? error.message : "Failed to generate video",
+        description: renderJob.error || "Failed to generate video",
         variant: "destructive",
       });
-    },
-  });
+    } else if (renderJob.status === "cancelled") {
+      toast({
+        title: "Generation Cancelled",
+        description: "The render was stopped and its partial files removed.",
+      });
+    }
+  }, [renderJob?.status]);
 
   // Save project
   const saveProject = () => {
@@ -272,6 +345,7 @@ export default function VideoStudio() {
       title: projectSettings.title,
       settings: projectSettings,
       scenes,
+      cast,
       template: selectedTemplate,
       createdAt: new Date().toISOString()
     };
@@ -334,7 +408,8 @@ export default function VideoStudio() {
           </Button>
           <Button
             onClick={() => generateVideoMutation.mutate()}
-            disabled={isGenerating || scenes.length === 0}
+            disabled={isGenerating || generateVideoMutation.isPending || scenes.length === 0 || !canRender}
+            title={canRender ? undefined : "ffmpeg is not installed on the server, so videos can't be rendered"}
             className="gap-2 bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600"
           >
             {isGenerating ? (
@@ -398,12 +473,50 @@ export default function VideoStudio() {
                       rows={10}
                       className="min-h-[250px] text-lg leading-relaxed resize-none border-2 focus:border-primary/50 transition-colors"
                     />
+                    <p className="text-xs text-muted-foreground">
+                      Each line becomes a scene. Start lines with a speaker label like "HOST:" or "GUEST:" to give each speaker their own voice.
+                    </p>
                     <div className="flex items-center justify-between text-sm text-muted-foreground bg-muted/30 rounded-lg px-4 py-2">
                       <span>{fullScript.length} characters</span>
                       <span>Estimated duration: {Math.max(5, Math.min(60, fullScript.length * 0.05)).toFixed(0)}s</span>
                     </div>
                   </div>
                   
+                  {/* Cast: one voice per speaker label in the script */}
+                  {speakers.length > 0 && (
+                    <div className="space-y-3 rounded-lg border p-4">
+                      <Label className="flex items-center gap-2 text-base font-semibold">
+                        <Users className="h-4 w-4" />
+                        Cast
+                      </Label>
+                      {speakers.map((label) => {
+                        const member = castMember(label);
+                        return (
+                          <div key={label} className="grid grid-cols-[auto_1fr_1fr] gap-3 items-center">
+                            <Badge variant="outline" className="font-mono">{label}</Badge>
+                            <Input
+                              value={member.name}
+                              onChange={(e) => updateCastMember(label, { name: e.target.value })}
+                              placeholder="Name shown on screen"
+                            />
+                            <Select value={member.voiceId} onValueChange={(value) => updateCastMember(label, { voiceId: value })}>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Voice" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {voices.map((voice) => (
+                                  <SelectItem key={voice.id} value={voice.id} disabled={!voice.available}>
+                                    {voice.name} ({voice.language})
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+
                   {/* Quick Voice Selection */}
                   <div className="grid grid-cols-2 gap-4">
                     <div className="space-y-2">
@@ -438,7 +551,7 @@ export default function VideoStudio() {
 
                   <div className="flex gap-3">
                     <Button 
-                      onClick={() => parseScriptIntoScenes(fullScript)}
+                      onClick={parseScriptIntoScenes}
                       disabled={!fullScript.trim()}
                       size="lg"
                       className="flex-1 gap-2 bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 text-white font-semibold py-4 text-lg shadow-lg hover:shadow-xl transition-all"
@@ -517,8 +630,8 @@ export default function VideoStudio() {
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="mp4">MP4 (Recommended)</SelectItem>
-                            <SelectItem value="webm">WebM</SelectItem>
+                            <SelectItem value="mp4" disabled={!canEncode('mp4')}>MP4 (Recommended)</SelectItem>
+                            <SelectItem value="webm" disabled={!canEncode('webm')}>WebM</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
@@ -580,6 +693,7 @@ export default function VideoStudio() {
                         onValueChange={(value) => 
                           setProjectSettings(prev => ({ ...prev, backgroundMusic: value === "none" ? undefined : value }))
                         }
+                        disabled={features?.musicMixing === false}
                       >
                         <SelectTrigger>
                           <SelectValue placeholder="Select background music" />
@@ -587,12 +701,15 @@ export default function VideoStudio() {
                         <SelectContent>
                           <SelectItem value="none">No Background Music</SelectItem>
                           {backgroundMusicTracks.map((track: any) => (
-                            <SelectItem key={track.id} value={track.url}>
+                            <SelectItem key={track.id} value={track.id}>
                               {track.name}
                             </SelectItem>
                           ))}
                         </SelectContent>
                       </Select>
+                      {features?.musicMixing === false && (
+                        <p className="text-xs text-muted-foreground">The server's ffmpeg can't mix music under narration.</p>
+                      )}
                     </div>
 
                     <div className="space-y-2">
@@ -611,6 +728,67 @@ export default function VideoStudio() {
                       </div>
                     </div>
 
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label>Pause Before Narration: {projectSettings.scenePadding.head}s</Label>
+                        <Slider
+                          value={[projectSettings.scenePadding.head]}
+                          onValueChange={(value) =>
+                            setProjectSettings(prev => ({ ...prev, scenePadding: { ...prev.scenePadding, head: value[0] } }))
+                          }
+                          max={3}
+                          step={0.1}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Pause After Narration: {projectSettings.scenePadding.tail}s</Label>
+                        <Slider
+                          value={[projectSettings.scenePadding.tail]}
+                          onValueChange={(value) =>
+                            setProjectSettings(prev => ({ ...prev, scenePadding: { ...prev.scenePadding, tail: value[0] } }))
+                          }
+                          max={3}
+                          step={0.1}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>Loudness Target</Label>
+                      <Select
+                        value={projectSettings.loudnessTarget}
+                        onValueChange={(value: LoudnessTarget) =>
+                          setProjectSettings(prev => ({ ...prev, loudnessTarget: value }))
+                        }
+                        disabled={features?.loudnessMastering === false}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="youtube">YouTube / Streaming (-14 LUFS)</SelectItem>
+                          <SelectItem value="podcast">Podcast (-16 LUFS)</SelectItem>
+                          <SelectItem value="broadcast">Broadcast, EBU R128 (-23 LUFS)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {features?.loudnessMastering === false && (
+                        <p className="text-xs text-muted-foreground">The server's ffmpeg has no loudnorm filter, so audio is left unmastered.</p>
+                      )}
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <Label>Speaker Names</Label>
+                        <p className="text-xs text-muted-foreground">Show who is talking in a lower third on dialogue scenes</p>
+                      </div>
+                      <Switch
+                        checked={projectSettings.lowerThirds}
+                        onCheckedChange={(checked) =>
+                          setProjectSettings(prev => ({ ...prev, lowerThirds: checked }))
+                        }
+                      />
+                    </div>
+
                     <div className="flex items-center justify-between">
                       <Label>Enable Subtitles</Label>
                       <Switch
@@ -620,8 +798,103 @@ export default function VideoStudio() {
                         }
                       />
                     </div>
+
+                    {projectSettings.subtitlesEnabled && (
+                      <div className="space-y-4 rounded-lg border p-4">
+                        <div className="flex items-center justify-between">
+                          <Label>Burn Into Video</Label>
+                          <Switch
+                            checked={projectSettings.subtitleStyle.burnIn && features?.subtitleBurnIn !== false}
+                            onCheckedChange={(checked) => updateSubtitleStyle({ burnIn: checked })}
+                            disabled={features?.subtitleBurnIn === false}
+                          />
+                        </div>
+                        {features?.subtitleBurnIn === false && (
+                          <p className="text-xs text-muted-foreground">The server's ffmpeg can't draw subtitles; they are delivered as SRT/VTT files.</p>
+                        )}
+
+                        <div className="grid grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                            <Label>Font</Label>
+                            <Select
+                              value={projectSettings.subtitleStyle.font}
+                              onValueChange={(value) => updateSubtitleStyle({ font: value })}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {subtitleFonts.map(font => (
+                                  <SelectItem key={font} value={font} disabled={!fontInstalled(font)}>
+                                    {fontInstalled(font) ? font : `${font} (not installed)`}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="space-y-2">
+                            <Label>Position</Label>
+                            <Select
+                              value={projectSettings.subtitleStyle.position}
+                              onValueChange={(value: SubtitleStyle['position']) => updateSubtitleStyle({ position: value })}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="bottom">Bottom</SelectItem>
+                                <SelectItem value="middle">Middle</SelectItem>
+                                <SelectItem value="top">Top</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        </div>
+
+                        <div className="space-y-2">
+                          <Label>Font Size: {projectSettings.subtitleStyle.fontSize}</Label>
+                          <Slider
+                            value={[projectSettings.subtitleStyle.fontSize]}
+                            onValueChange={(value) => updateSubtitleStyle({ fontSize: value[0] })}
+                            min={8}
+                            max={72}
+                            step={1}
+                          />
+                        </div>
+
+                        <div className="space-y-2">
+                          <Label>Outline: {projectSettings.subtitleStyle.outline}</Label>
+                          <Slider
+                            value={[projectSettings.subtitleStyle.outline]}
+                            onValueChange={(value) => updateSubtitleStyle({ outline: value[0] })}
+                            min={0}
+                            max={6}
+                            step={0.5}
+                          />
+                        </div>
+
+                        <div className="space-y-2">
+                          <Label>Max Characters per Line: {projectSettings.subtitleStyle.maxCharsPerLine}</Label>
+                          <Slider
+                            value={[projectSettings.subtitleStyle.maxCharsPerLine]}
+                            onValueChange={(value) => updateSubtitleStyle({ maxCharsPerLine: value[0] })}
+                            min={16}
+                            max={80}
+                            step={2}
+                          />
+                        </div>
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
+
+                <VoiceProcessingEditor
+                  value={projectSettings.voiceProcessing}
+                  onChange={(voiceProcessing) => setProjectSettings(prev => ({ ...prev, voiceProcessing }))}
+                  voiceId={defaultVoiceId}
+                  disabled={features?.voiceProcessing === false}
+                />
+
+                <LexiconEditor voiceId={defaultVoiceId} />
               </div>
             </TabsContent>
 
@@ -641,6 +914,8 @@ export default function VideoStudio() {
                     isGenerating={isGenerating}
                     progress={generationProgress}
                     currentStep={currentStep}
+                    captionsUrl={generatedSubtitles.vttUrl}
+                    srtUrl={generatedSubtitles.srtUrl}
                     onDownload={handleDownload}
                     onShare={handleShare}
                   />
@@ -676,6 +951,14 @@ export default function VideoStudio() {
                 <span className="text-sm text-muted-foreground">Output</span>
                 <Badge variant="outline">{projectSettings.outputFormat.toUpperCase()}</Badge>
               </div>
+              {renderJob?.result?.loudness && (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Loudness</span>
+                  <Badge variant="outline">
+                    {renderJob.result.loudness.output.integrated.toFixed(1)} LUFS / {renderJob.result.loudness.output.truePeak.toFixed(1)} dBTP
+                  </Badge>
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -714,11 +997,28 @@ export default function VideoStudio() {
                 <p className="text-sm text-muted-foreground text-center">
                   {currentStep}
                 </p>
-                <div className="text-center">
+                <div className="flex items-center justify-center gap-2">
                   <Badge variant="outline">
                     {Math.round(generationProgress)}% Complete
                   </Badge>
+                  {renderJob && renderJob.estimatedTimeRemaining > 0 && (
+                    <Badge variant="secondary" className="gap-1">
+                      <Clock className="h-3 w-3" />
+                      ~{renderJob.estimatedTimeRemaining}s left
+                    </Badge>
+                  )}
                 </div>
+                {currentJob && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => cancelGenerationMutation.mutate(currentJob)}
+                    disabled={cancelGenerationMutation.isPending}
+                  >
+                    {cancelGenerationMutation.isPending ? "Cancelling..." : "Cancel"}
+                  </Button>
+                )}
               </CardContent>
             </Card>
           )}
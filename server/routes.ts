@@ -1,11 +1,32 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertVideoProjectSchema, insertUserSchema } from "@shared/schema";
+import { setupAuth, requireAuth, requireAdmin } from "./auth";
+import {
+  audioOutputSchema,
+  directGenerationSchema,
+  insertVideoProjectSchema,
+  lexiconEntryInputSchema,
+  lexiconEntryUpdateSchema,
+  lexiconPreviewSchema,
+  renderScenesSchema,
+  ttsRequestSchema,
+  videoProjectUpdateSchema,
+  voiceProcessingSchema,
+  voiceQuerySchema,
+  type AudioFormat,
+  type ReferenceVideo
+} from "@shared/schema";
+import { buildBenchmark } from "@shared/reference-benchmark";
 import { VideoGeneratorService } from "./services/video-generator";
+import { creditService, InsufficientCreditsError } from "./services/credits";
 import { FreeTTSService } from "./services/free-tts";
 import { FreePromptEnhancerService } from "./services/free-prompt-enhancer";
+import { capabilitiesService } from "./services/capabilities";
+import { videoAnalyzerService, VideoAnalysisError } from "./services/video-analyzer";
+import { ttsCache } from "./services/tts-cache";
+import { AUDIO_FORMATS, encodeAudio } from "./services/audio-encoder";
 import { z } from "zod";
 import multer from "multer";
 import path from "path";
@@ -25,52 +46,109 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const freeTTSService = new FreeTTSService();
   const freePromptEnhancerService = new FreePromptEnhancerService();
 
+  // Start the generation worker; it re-queues anything a previous process left half done
+  await videoGeneratorService.start();
+
+  // Probe ffmpeg, fonts and the TTS engines in the background so the first request doesn't wait on them
+  capabilitiesService.logSummary().catch(error => console.error("Capability probe failed:", error));
+
+  // Sessions, passport and /api/register, /api/login, /api/logout, /api/user
+  setupAuth(app);
+
+  // Looks up a job the signed-in user owns; anyone else's job is reported as missing
+  const getOwnedJob = async (req: Request, jobId: string) => {
+    const job = await videoGeneratorService.getJobStatus(jobId);
+    return job && job.userId === req.user!.id ? job : undefined;
+  };
+
+  // Lexicon entries and projects are only visible to their owner; anyone else's are reported as missing
+  const getOwnedLexiconEntry = async (req: Request, id: string) => {
+    const entry = await storage.getLexiconEntry(id);
+    return entry && entry.userId === req.user!.id ? entry : undefined;
+  };
+  const ownsProject = async (req: Request, projectId: string) => {
+    const project = await storage.getVideoProject(projectId);
+    return project?.userId === req.user!.id;
+  };
+
+  // Encoders are optional in ffmpeg builds, so a format this server can't produce is refused up front
+  const audioFormatError = async (format: AudioFormat) => {
+    const { features } = await capabilitiesService.get();
+    return features.audioFormats.includes(format) ? null : `ffmpeg on this server has no ${AUDIO_FORMATS[format].label} encoder`;
+  };
+
+  // Rendered files are named after their job; only its owner may fetch them. Demo assets stay public.
+  app.use("/uploads", async (req, res, next) => {
+    try {
+      const match = req.path.match(/^\/(?:video|narration|tts)_([0-9a-f-]{36})[._]/);
+      if (!match) return next();
+
+      const job = await videoGeneratorService.getJobStatus(match[1]);
+      if (job?.userId && job.userId !== req.user?.id) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Serve uploaded files
   app.use("/uploads", express.static(path.join(process.cwd(), "uploads")));
 
-  // Get user info
-  app.get("/api/user/:id", async (req, res) => {
+  // Get video projects for user
+  app.get("/api/projects/:userId", requireAuth, async (req, res) => {
     try {
-      const user = await storage.getUser(req.params.id);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      if (req.params.userId !== req.user!.id) {
+        return res.status(403).json({ message: "You can only list your own projects" });
       }
-      res.json(user);
+
+      const projects = await storage.getVideoProjectsByUser(req.params.userId);
+      res.json(projects);
     } catch (error) {
       res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
     }
   });
 
-  // Create user
-  app.post("/api/users", async (req, res) => {
+  // Credit balance and ledger, newest first
+  app.get("/api/users/:id/credits/history", requireAuth, async (req, res) => {
     try {
-      const userData = insertUserSchema.parse(req.body);
-      const user = await storage.createUser(userData);
-      res.status(201).json(user);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      if (req.params.id !== req.user!.id) {
+        return res.status(403).json({ message: "You can only view your own credit history" });
       }
+
+      const transactions = await creditService.getHistory(req.user!.id);
+      const user = await storage.getUser(req.user!.id);
+      res.json({ balance: user?.credits ?? 0, transactions });
+    } catch (error) {
       res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
     }
   });
 
-  // Get video projects for user
-  app.get("/api/projects/:userId", async (req, res) => {
+  // Create video project
+  app.post("/api/projects", requireAuth, async (req, res) => {
     try {
-      const projects = await storage.getVideoProjectsByUser(req.params.userId);
-      res.json(projects);
+      const projectData = insertVideoProjectSchema.parse({ ...req.body, userId: req.user!.id });
+      const project = await storage.createVideoProject(projectData);
+      res.status(201).json(project);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
       res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
     }
   });
 
-  // Create video project
-  app.post("/api/projects", async (req, res) => {
+  // Update a video project, e.g. to apply settings matched to a reference video
+  app.patch("/api/projects/:id", requireAuth, async (req, res) => {
     try {
-      const projectData = insertVideoProjectSchema.parse(req.body);
-      const project = await storage.createVideoProject(projectData);
-      res.status(201).json(project);
+      if (!(await ownsProject(req, req.params.id))) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const updates = videoProjectUpdateSchema.parse(req.body);
+      const project = await storage.updateVideoProject(req.params.id, updates);
+      res.json(project);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
@@ -80,7 +158,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Generate video
-  app.post("/api/generate-video", async (req, res) => {
+  app.post("/api/generate-video", requireAuth, async (req, res) => {
     try {
       const projectId = req.body.projectId;
       if (!projectId) {
@@ -88,39 +166,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const project = await storage.getVideoProject(projectId);
-      if (!project) {
+      if (!project || project.userId !== req.user!.id) {
         return res.status(404).json({ message: "Project not found" });
       }
 
       const jobId = await videoGeneratorService.generateVideo(project);
       res.json({ jobId, status: "started" });
     } catch (error) {
+      if (error instanceof InsufficientCreditsError) {
+        return res.status(402).json({ message: error.message, required: error.required, balance: error.balance });
+      }
       res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
     }
   });
 
   // Get generation status
-  app.get("/api/generation-status/:jobId", async (req, res) => {
+  app.get("/api/generation-status/:jobId", requireAuth, async (req, res) => {
     try {
-      const job = videoGeneratorService.getJobStatus(req.params.jobId);
+      const job = await getOwnedJob(req, req.params.jobId);
       if (!job) {
         return res.status(404).json({ message: "Job not found" });
       }
 
-      const result = job.status === "completed" ? videoGeneratorService.getJobResult(req.params.jobId) : undefined;
-      
       res.json({
         ...job,
-        result,
+        result: job.status === "completed" ? job.result : undefined,
+      });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Stream generation progress as Server-Sent Events; resumes after Last-Event-ID or ?cursor=
+  app.get("/api/jobs/:jobId/events", requireAuth, async (req, res) => {
+    try {
+      const job = await getOwnedJob(req, req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const cursor = parseInt(req.get("Last-Event-ID") || (req.query.cursor as string) || "0", 10) || 0;
+
+      res.set({
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+      res.flushHeaders();
+
+      const unsubscribe = await videoGeneratorService.subscribe(job.id, cursor, (event) => {
+        res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+      });
+
+      // Comment lines keep proxies from closing an idle stream during long renders
+      const heartbeat = setInterval(() => res.write(": ping\n\n"), 15000);
+
+      req.on("close", () => {
+        clearInterval(heartbeat);
+        unsubscribe();
       });
     } catch (error) {
+      if (res.headersSent) {
+        return res.end();
+      }
       res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
     }
   });
 
   // Cancel generation
-  app.post("/api/cancel-generation/:jobId", async (req, res) => {
+  app.post("/api/cancel-generation/:jobId", requireAuth, async (req, res) => {
     try {
+      if (!(await getOwnedJob(req, req.params.jobId))) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
       const cancelled = await videoGeneratorService.cancelJob(req.params.jobId);
       res.json({ cancelled });
     } catch (error) {
@@ -128,28 +248,152 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get available voices (free TTS)
+  // Installed tools, TTS engines and fonts, and which render features they allow; signed-in users may force a re-probe
+  app.get("/api/capabilities", async (req, res) => {
+    try {
+      const refresh = req.query.refresh === "true" && req.isAuthenticated();
+      res.json(await capabilitiesService.get(refresh));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Synthesized speech cache: size, hit rate and evictions, and a way to empty it after changing an engine's models
+  app.get("/api/admin/tts-cache", requireAdmin, async (req, res) => {
+    try {
+      res.json(await ttsCache.stats());
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  app.delete("/api/admin/tts-cache", requireAdmin, async (req, res) => {
+    try {
+      await ttsCache.clear();
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Voices from every registered TTS provider, optionally filtered by language, gender, provider, quality or availability
   app.get("/api/voices", async (req, res) => {
     try {
-      const voices = await freeTTSService.getVoices();
+      const voices = await freeTTSService.getVoices(voiceQuerySchema.parse(req.query));
       res.json(voices);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid voice filter", errors: error.errors });
+      }
       res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
     }
   });
 
   // Preview voice (free TTS)
+  // Speaks a sample with the voice, run through a voice-processing preset when one is given, in the format asked for
   app.post("/api/preview-voice", async (req, res) => {
     try {
       const { voiceId, text = "Hello, this is a voice preview." } = req.body;
-      const audioBuffer = await freeTTSService.previewVoice(voiceId, text);
+      const voiceProcessing = voiceProcessingSchema.optional().parse(req.body.voiceProcessing);
+      const output = audioOutputSchema.parse(req.body);
+      const formatError = await audioFormatError(output.format);
+      if (formatError) {
+        return res.status(400).json({ message: formatError });
+      }
 
-      res.set({
-        "Content-Type": "audio/wav",
-        "Content-Length": audioBuffer.length.toString(),
+      const audioBuffer = await freeTTSService.previewVoice(voiceId, text, voiceProcessing);
+      sendAudio(req, res, await encodeAudio(audioBuffer, output), output.format);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Pronunciation lexicon: the entries that apply everywhere, plus the given project's own
+  app.get("/api/lexicon", requireAuth, async (req, res) => {
+    try {
+      const projectId = typeof req.query.projectId === "string" ? req.query.projectId : undefined;
+      if (projectId && !(await ownsProject(req, projectId))) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      res.json(await storage.getLexiconEntries(req.user!.id, projectId));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  app.post("/api/lexicon", requireAuth, async (req, res) => {
+    try {
+      const input = lexiconEntryInputSchema.parse(req.body);
+      if (input.projectId && !(await ownsProject(req, input.projectId))) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const entry = await storage.createLexiconEntry({ ...input, userId: req.user!.id });
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  app.patch("/api/lexicon/:id", requireAuth, async (req, res) => {
+    try {
+      const updates = lexiconEntryUpdateSchema.parse(req.body);
+      if (!(await getOwnedLexiconEntry(req, req.params.id))) {
+        return res.status(404).json({ message: "Lexicon entry not found" });
+      }
+
+      res.json(await storage.updateLexiconEntry(req.params.id, updates));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  app.delete("/api/lexicon/:id", requireAuth, async (req, res) => {
+    try {
+      if (!(await getOwnedLexiconEntry(req, req.params.id))) {
+        return res.status(404).json({ message: "Lexicon entry not found" });
+      }
+
+      await storage.deleteLexiconEntry(req.params.id);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Says a term with a pronunciation that hasn't necessarily been saved yet, so it can be tried before committing
+  app.post("/api/lexicon/preview", requireAuth, async (req, res) => {
+    try {
+      const { term, pronunciation, format, voiceId, text } = lexiconPreviewSchema.parse(req.body);
+      // The entry's own format field is taken, so the audio's is named audioFormat here
+      const output = audioOutputSchema.parse({ format: req.body.audioFormat, sampleRate: req.body.sampleRate });
+      const formatError = await audioFormatError(output.format);
+      if (formatError) {
+        return res.status(400).json({ message: formatError });
+      }
+
+      const audioBuffer = await freeTTSService.generateSpeech(text ?? term, {
+        voice: voiceId,
+        speed: 1.0,
+        pitch: 0,
+        volume: 1.0,
+        lexicon: [{ term, pronunciation, format, language: null }],
       });
-      res.send(audioBuffer);
+      sendAudio(req, res, await encodeAudio(audioBuffer, output), output.format);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
       res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
     }
   });
@@ -229,73 +473,105 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Analyze reference videos (placeholder for free platform)
-  app.post("/api/analyze-reference-videos", upload.array("videos", 5), async (req, res) => {
+  // Analyze up to five reference videos and benchmark them against each other. One that can't be analyzed is
+  // reported in the results rather than failing the rest.
+  app.post("/api/analyze-reference-videos", requireAuth, upload.array("videos", 5), async (req, res) => {
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    if (files.length === 0) {
+      return res.status(400).json({ message: "No video files provided" });
+    }
+
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
     try {
-      const files = req.files as Express.Multer.File[];
-      if (!files || files.length === 0) {
-        return res.status(400).json({ message: "No video files provided" });
+      const { features } = await capabilitiesService.get();
+      if (!features.videoAnalysis) {
+        return res.status(503).json({ message: "ffmpeg or ffprobe on this server lacks what video analysis needs" });
       }
 
-      // Clean up uploaded files
+      // One at a time; each analysis already keeps ffmpeg busy
+      const references: ReferenceVideo[] = [];
       for (const file of files) {
         try {
-          await fs.unlink(file.path);
+          references.push({ name: file.originalname, analysis: await videoAnalyzerService.analyzeVideo(file.path, controller.signal) });
         } catch (error) {
-          console.warn("Could not delete temp file:", file.path);
+          if (controller.signal.aborted) throw error;
+          references.push({ name: file.originalname, error: error instanceof Error ? error.message : "Analysis failed" });
         }
       }
 
-      // Return mock analysis for now
-      const analysis = {
-        quality: "high",
-        resolution: "1080p",
-        frameRate: 30,
-        codec: "h264",
-        recommendations: [
-          "Use cinematic style for best results",
-          "Consider 16:9 aspect ratio",
-          "8-16 second duration recommended"
-        ]
-      };
-
-      res.json(analysis);
+      if (references.every(({ analysis }) => !analysis)) {
+        return res.status(400).json({
+          message: "None of the videos could be analyzed",
+          errors: references.map(({ name, error }) => ({ name, error })),
+        });
+      }
+      res.json(buildBenchmark(references));
     } catch (error) {
+      if (controller.signal.aborted) return;
       res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    } finally {
+      await Promise.all(files.map(file =>
+        fs.unlink(file.path).catch(() => console.warn("Could not delete temp file:", file.path))));
     }
   });
 
   // Direct video generation with text
-  app.post("/api/generate-video-direct", async (req, res) => {
+  app.post("/api/generate-video-direct", requireAuth, async (req, res) => {
     try {
-      const { prompt, style = "cinematic", duration = 8, resolution = "720p", aspectRatio = "16:9" } = req.body;
-      
-      if (!prompt) {
-        return res.status(400).json({ message: "Prompt is required" });
+      const request = directGenerationSchema.parse(req.body);
+      const jobId = await videoGeneratorService.generateVideoDirect(request, req.user!.id);
+      res.json({ jobId, status: "started" });
+    } catch (error) {
+      if (error instanceof InsufficientCreditsError) {
+        return res.status(402).json({ message: error.message, required: error.required, balance: error.balance });
       }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
 
-      // Generate a simple project for this request
-      const project = {
-        id: Date.now().toString(),
-        userId: "demo-user",
-        title: `Generated Video ${Date.now()}`,
-        prompt,
-        negativePrompt: null,
-        style,
-        duration,
-        resolution,
-        aspectRatio,
-        videoUrl: null,
-        thumbnailUrl: null,
-        settings: null,
-        status: "pending" as const,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
-
-      const jobId = await videoGeneratorService.generateVideo(project);
+  // Render the studio's scenes server-side; progress streams from /api/jobs/:jobId/events
+  app.post("/api/render-scenes", requireAuth, async (req, res) => {
+    try {
+      const request = renderScenesSchema.parse(req.body);
+      const jobId = await videoGeneratorService.renderScenes(request, req.user!.id);
       res.json({ jobId, status: "started" });
     } catch (error) {
+      if (error instanceof InsufficientCreditsError) {
+        return res.status(402).json({ message: error.message, required: error.required, balance: error.balance });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    }
+  });
+
+  // Synthesize a script of any length to an audio file in the background. Progress streams from
+  // /api/jobs/:jobId/events like a render's; the finished job's audioUrl is the file, served with Range support.
+  app.post("/api/tts", requireAuth, async (req, res) => {
+    try {
+      const request = ttsRequestSchema.parse(req.body);
+      const formatError = await audioFormatError(request.format);
+      if (formatError) {
+        return res.status(400).json({ message: formatError });
+      }
+
+      const jobId = await videoGeneratorService.synthesizeSpeech(request, req.user!.id);
+      res.status(202).json({ jobId, status: "started" });
+    } catch (error) {
+      if (error instanceof InsufficientCreditsError) {
+        return res.status(402).json({ message: error.message, required: error.required, balance: error.balance });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
       res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
     }
   });
@@ -310,36 +586,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Analyze single video file
-  app.post("/api/analyze-video", upload.single("video"), async (req, res) => {
-    try {
-      const file = req.file;
-      if (!file) {
-        return res.status(400).json({ message: "No video file provided" });
-      }
+  // Analyze single video file: cuts, blacks, freezes, motion, colour, silence and loudness, measured with ffmpeg
+  app.post("/api/analyze-video", requireAuth, upload.single("video"), async (req, res) => {
+    const file = req.file;
+    if (!file) {
+      return res.status(400).json({ message: "No video file provided" });
+    }
 
-      // Video analysis functionality available in free implementation
-      const analysis = { message: "Video analysis completed" };
-      const qualityReport = "Quality analysis report generated";
-      const recommendedSettings = { message: "Recommended settings available" };
+    // Measuring a long video takes a while; stop ffmpeg if the client gives up waiting
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) controller.abort();
+    });
 
-      // Clean up uploaded file
-      try {
-        await fs.unlink(file.path);
-      } catch (error) {
-        console.warn("Could not delete temp file:", file.path);
+    try {
+      const { features } = await capabilitiesService.get();
+      if (!features.videoAnalysis) {
+        return res.status(503).json({ message: "ffmpeg or ffprobe on this server lacks what video analysis needs" });
       }
 
+      const analysis = await videoAnalyzerService.analyzeVideo(file.path, controller.signal);
+      const [qualityReport, recommendedSettings] = await Promise.all([
+        videoAnalyzerService.generateQualityReport(analysis),
+        videoAnalyzerService.getRecommendedSettings(analysis),
+      ]);
+
       res.json({
         analysis,
         qualityReport,
         recommendedSettings,
       });
     } catch (error) {
+      if (controller.signal.aborted) return;
+      if (error instanceof VideoAnalysisError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" });
+    } finally {
+      await fs.unlink(file.path).catch(() => console.warn("Could not delete temp file:", file.path));
     }
   });
 
   const httpServer = createServer(app);
   return httpServer;
 }
+
+// Sends synthesized audio with its format's type. A single byte range is honoured so players can seek and stream;
+// a malformed one is ignored and the whole file sent, as static files do.
+function sendAudio(req: Request, res: Response, audio: Buffer, format: AudioFormat): void {
+  res.set({
+    "Content-Type": AUDIO_FORMATS[format].contentType,
+    "Accept-Ranges": "bytes",
+  });
+
+  const ranges = req.headers.range ? req.range(audio.length, { combine: true }) : undefined;
+  if (ranges === -1) {
+    res.status(416).set("Content-Range", `bytes */${audio.length}`).end();
+    return;
+  }
+  if (Array.isArray(ranges) && ranges.type === "bytes" && ranges.length === 1) {
+    const { start, end } = ranges[0];
+    res.status(206).set({
+      "Content-Range": `bytes ${start}-${end}/${audio.length}`,
+      "Content-Length": (end - start + 1).toString(),
+    });
+    res.end(audio.subarray(start, end + 1));
+    return;
+  }
+
+  res.set("Content-Length", audio.length.toString());
+  res.end(audio);
+}
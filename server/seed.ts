@@ -0,0 +1,158 @@
+import {
+  voiceModels,
+  avatarModels,
+  backgroundMusic,
+  soundEffects,
+  type VoiceModel,
+  type AvatarModel,
+  type BackgroundMusic,
+  type SoundEffect
+} from "@shared/schema";
+import type { Database } from "./db";
+
+// Sample voice models
+export const sampleVoiceModels: VoiceModel[] = [
+  {
+    id: "sarah-professional",
+    provider: "elevenlabs",
+    name: "Sarah - Professional",
+    description: "Female conversational voice",
+    gender: "female",
+    style: "professional",
+    language: "en",
+    previewUrl: null,
+    isActive: true,
+  },
+  {
+    id: "marcus-narrator",
+    provider: "elevenlabs",
+    name: "Marcus - Narrator",
+    description: "Male documentary voice",
+    gender: "male",
+    style: "documentary",
+    language: "en",
+    previewUrl: null,
+    isActive: true,
+  },
+  {
+    id: "emma-casual",
+    provider: "elevenlabs",
+    name: "Emma - Casual",
+    description: "Female friendly voice",
+    gender: "female",
+    style: "friendly",
+    language: "en",
+    previewUrl: null,
+    isActive: true,
+  },
+];
+
+// Sample avatar models
+export const sampleAvatarModels: AvatarModel[] = [
+  {
+    id: "sarah-pro",
+    name: "Sarah Pro",
+    description: "Professional businesswoman avatar",
+    imageUrl: "https://images.unsplash.com/photo-1494790108755-2616b612b5bc?w=512&h=512&fit=crop&crop=face",
+    style: "Business",
+    gender: "female",
+    isActive: true,
+  },
+  {
+    id: "alex-casual",
+    name: "Alex Casual",
+    description: "Young professional male avatar",
+    imageUrl: "https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=512&h=512&fit=crop&crop=face",
+    style: "Friendly",
+    gender: "male",
+    isActive: true,
+  },
+  {
+    id: "dr-lisa",
+    name: "Dr. Lisa",
+    description: "Mature professional woman with glasses",
+    imageUrl: "https://images.unsplash.com/photo-1580489944761-15a19d654956?w=512&h=512&fit=crop&crop=face",
+    style: "Expert",
+    gender: "female",
+    isActive: true,
+  },
+  {
+    id: "mike-creative",
+    name: "Mike Creative",
+    description: "Creative young man with stylish look",
+    imageUrl: "https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=512&h=512&fit=crop&crop=face",
+    style: "Modern",
+    gender: "male",
+    isActive: true,
+  },
+];
+
+// Sample background music
+export const sampleBackgroundMusic: BackgroundMusic[] = [
+  {
+    id: "uplifting-corporate",
+    name: "Uplifting Corporate",
+    description: "Inspirational background music",
+    genre: "corporate",
+    duration: 154,
+    audioUrl: "/assets/audio/uplifting-corporate.mp3",
+    isActive: true,
+  },
+  {
+    id: "calm-ambient",
+    name: "Calm Ambient",
+    description: "Peaceful background music",
+    genre: "ambient",
+    duration: 192,
+    audioUrl: "/assets/audio/calm-ambient.mp3",
+    isActive: true,
+  },
+];
+
+// Sample sound effects
+export const sampleSoundEffects: SoundEffect[] = [
+  {
+    id: "applause",
+    name: "Applause",
+    description: "Audience applause",
+    category: "audience",
+    duration: 2,
+    audioUrl: "/assets/audio/applause.mp3",
+    isActive: true,
+  },
+  {
+    id: "whoosh",
+    name: "Whoosh",
+    description: "Transition whoosh sound",
+    category: "transition",
+    duration: 1,
+    audioUrl: "/assets/audio/whoosh.mp3",
+    isActive: true,
+  },
+  {
+    id: "nature-birds",
+    name: "Nature",
+    description: "Birds chirping in nature",
+    category: "nature",
+    duration: 5,
+    audioUrl: "/assets/audio/nature-birds.mp3",
+    isActive: true,
+  },
+  {
+    id: "notification-beep",
+    name: "Beep",
+    description: "Notification beep sound",
+    category: "notification",
+    duration: 1,
+    audioUrl: "/assets/audio/beep.mp3",
+    isActive: true,
+  },
+];
+
+// Inserts the sample catalogs, skipping rows that already exist so it is safe to run on every boot
+export async function seedDatabase(db: Database): Promise<void> {
+  await db.insert(voiceModels).values(sampleVoiceModels).onConflictDoNothing();
+  await db.insert(avatarModels).values(sampleAvatarModels).onConflictDoNothing();
+  await db.insert(backgroundMusic).values(sampleBackgroundMusic).onConflictDoNothing();
+  await db.insert(soundEffects).values(sampleSoundEffects).onConflictDoNothing();
+}
@@ -0,0 +1,81 @@
+import { randomUUID } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import type { AudioFormat, AudioOutput } from "@shared/schema";
+import { runFFmpeg, type FFmpegRunOptions } from "./ffmpeg-runner";
+
+const TEMP_DIR = path.join(process.cwd(), "temp");
+
+// Opus only runs at these rates; anything else is raised to the next one up
+const OPUS_SAMPLE_RATES = [8000, 12000, 16000, 24000, 48000];
+
+export const AUDIO_FORMATS: Record<AudioFormat, { label: string; extension: string; contentType: string; codec: string[] }> = {
+  wav: { label: "WAV", extension: "wav", contentType: "audio/wav", codec: ["-c:a", "pcm_s16le"] },
+  mp3: { label: "MP3", extension: "mp3", contentType: "audio/mpeg", codec: ["-c:a", "libmp3lame", "-b:a", "128k"] },
+  opus: { label: "Ogg Opus", extension: "ogg", contentType: "audio/ogg; codecs=opus", codec: ["-c:a", "libopus", "-b:a", "64k"] },
+  flac: { label: "FLAC", extension: "flac", contentType: "audio/flac", codec: ["-c:a", "flac"] },
+};
+
+// Joins the WAV files in order and encodes them as one mono file. Inputs may come from different engines, so each is
+// resampled to the output rate, or the first input's when none is asked for, before they are joined.
+export async function encodeAudioFiles(
+  inputFiles: string[],
+  outputFile: string,
+  output: AudioOutput,
+  options: FFmpegRunOptions = {}
+): Promise<void> {
+  const sampleRate = outputSampleRate(output, await wavSampleRate(inputFiles[0]));
+  const filters = inputFiles.map((_, i) => `[${i}:a]aresample=${sampleRate},aformat=sample_fmts=s16:channel_layouts=mono[a${i}]`);
+  filters.push(`${inputFiles.map((_, i) => `[a${i}]`).join("")}concat=n=${inputFiles.length}:v=0:a=1[out]`);
+
+  await runFFmpeg([
+    ...inputFiles.flatMap(file => ["-i", file]),
+    "-filter_complex", filters.join(";"),
+    "-map", "[out]",
+    ...AUDIO_FORMATS[output.format].codec,
+    "-ar", sampleRate.toString(),
+    "-y", outputFile
+  ], options);
+}
+
+// Encodes a synthesized WAV for a response; WAV at the engine's own rate comes back as it is
+export async function encodeAudio(audio: Buffer, output: AudioOutput, signal?: AbortSignal): Promise<Buffer> {
+  if (output.format === "wav" && !output.sampleRate) return audio;
+
+  await fs.mkdir(TEMP_DIR, { recursive: true });
+  const id = randomUUID();
+  const inputFile = path.join(TEMP_DIR, `encode_${id}.wav`);
+  const outputFile = path.join(TEMP_DIR, `encode_${id}.${AUDIO_FORMATS[output.format].extension}`);
+
+  try {
+    await fs.writeFile(inputFile, audio);
+    await encodeAudioFiles([inputFile], outputFile, output, { signal });
+    return await fs.readFile(outputFile);
+  } finally {
+    await Promise.all([inputFile, outputFile].map(file => fs.unlink(file).catch(() => {})));
+  }
+}
+
+function outputSampleRate(output: AudioOutput, sourceRate: number): number {
+  const rate = output.sampleRate ?? sourceRate;
+  if (output.format !== "opus") return rate;
+  return OPUS_SAMPLE_RATES.find(supported => supported >= rate) ?? 48000;
+}
+
+// The fmt chunk's sample rate, or 44.1 kHz when the header can't be read
+async function wavSampleRate(file: string): Promise<number> {
+  const handle = await fs.open(file, "r");
+  try {
+    const header = Buffer.alloc(4096);
+    const { bytesRead } = await handle.read(header, 0, header.length, 0);
+    let offset = 12;
+    while (offset + 16 <= bytesRead) {
+      const chunkSize = header.readUInt32LE(offset + 4);
+      if (header.toString("ascii", offset, offset + 4) === "fmt ") return header.readUInt32LE(offset + 12);
+      offset += 8 + chunkSize + (chunkSize % 2);
+    }
+    return 44100;
+  } finally {
+    await handle.close();
+  }
+}
@@ -0,0 +1,192 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import { storage } from "../storage";
+import { runFFmpeg, type FFmpegRunOptions } from "./ffmpeg-runner";
+
+export interface MusicMixSettings {
+  volume: number; // 0-100, music level before ducking
+  duration: number; // seconds of output; the music is looped or trimmed to it
+}
+
+const MAX_FADE_SECONDS = 2;
+const MIX_SAMPLE_RATE = 48000;
+
+// Catalogue audio URLs point at the client's static assets, which live in one of these depending on the build
+const ASSET_ROOTS = [
+  path.join(process.cwd(), "client", "public"),
+  path.join(process.cwd(), "dist", "public"),
+];
+
+const SYNTHESIZED_DIR = path.join(process.cwd(), "cache", "music");
+
+// The sample catalogue ships without audio files, so its tracks are synthesized as short loops on first use.
+// musicInput repeats a loop for as long as the mix needs it.
+const SYNTHESIZED_TRACKS: Record<string, string> = {
+  // A slow drone on A with a fifth that swells every ten seconds
+  "calm-ambient":
+    "aevalsrc='0.12*sin(2*PI*110*t)+0.08*sin(2*PI*164.81*t)*(0.6+0.4*sin(2*PI*0.1*t))+0.05*sin(2*PI*220*t+sin(2*PI*0.25*t))':s=48000:d=20",
+  // C, G, A and F chords pulsing at 120 bpm; each pulse starts from silence so chord changes don't click
+  "uplifting-corporate":
+    "aevalsrc='(1-exp(-80*mod(t,0.5)))*exp(-5*mod(t,0.5))*(0.12*sin(2*PI*st(0,if(lt(mod(t,8),2),261.63,if(lt(mod(t,8),4),196,if(lt(mod(t,8),6),220,174.61))))*t)" +
+    "+0.08*sin(2*PI*1.5*ld(0)*t)+0.06*sin(2*PI*2*ld(0)*t))':s=48000:d=8",
+};
+
+export class AudioMixerService {
+  // One synthesis per track, shared by renders that ask for it at the same time
+  private synthesized = new Map<string, Promise<string | null>>();
+
+  // Accepts a catalogue track id or its audio URL; anything else is ignored rather than read from disk
+  async resolveTrack(trackRef: string | undefined): Promise<string | null> {
+    if (!trackRef) return null;
+
+    const tracks = await storage.getBackgroundMusic();
+    const track = tracks.find(candidate => candidate.id === trackRef || candidate.audioUrl === trackRef);
+    if (!track) {
+      console.warn(`Unknown background music track "${trackRef}", rendering without music`);
+      return null;
+    }
+
+    for (const root of ASSET_ROOTS) {
+      const file = path.join(root, path.normalize(track.audioUrl).replace(/^([/\\])+/, ""));
+      if (!file.startsWith(root + path.sep)) continue;
+      try {
+        await fs.access(file);
+        return file;
+      } catch {
+        // try the next root
+      }
+    }
+
+    if (SYNTHESIZED_TRACKS[track.id]) {
+      return this.synthesizeTrack(track.id);
+    }
+
+    console.warn(`Audio file for background music "${track.name}" is missing, rendering without music`);
+    return null;
+  }
+
+  // Renders a catalogue loop into the cache once; null when ffmpeg can't, so the render goes on without music
+  private synthesizeTrack(trackId: string): Promise<string | null> {
+    let pending = this.synthesized.get(trackId);
+    if (!pending) {
+      pending = this.renderLoop(trackId).catch((error) => {
+        console.warn(`Could not synthesize background music "${trackId}", rendering without music:`, error);
+        this.synthesized.delete(trackId);
+        return null;
+      });
+      this.synthesized.set(trackId, pending);
+    }
+    return pending;
+  }
+
+  private async renderLoop(trackId: string): Promise<string> {
+    const file = path.join(SYNTHESIZED_DIR, `${trackId}.wav`);
+    try {
+      await fs.access(file);
+      return file;
+    } catch {
+      // not rendered yet
+    }
+
+    await fs.mkdir(SYNTHESIZED_DIR, { recursive: true });
+    // Written under a temporary name so a concurrent process never reads half a file
+    const partial = path.join(SYNTHESIZED_DIR, `${trackId}_${randomUUID()}.wav`);
+    try {
+      await runFFmpeg([
+        "-f", "lavfi",
+        "-i", SYNTHESIZED_TRACKS[trackId],
+        "-ac", "2",
+        "-c:a", "pcm_s16le",
+        "-y", partial
+      ]);
+      await fs.rename(partial, file);
+    } finally {
+      await fs.unlink(partial).catch(() => {});
+    }
+    return file;
+  }
+
+  // Arguments that add a music input which repeats for as long as the filter graph reads from it
+  musicInput(musicFile: string): string[] {
+    return ["-stream_loop", "-1", "-i", musicFile];
+  }
+
+  // Filter graph that lays music under a voice track: the music is looped or trimmed to length, faded at both ends
+  // and ducked by a sidechain keyed from the voice. The sum is only limited against clipping; loudness is left to the
+  // mastering pass. The result is labelled [mix].
+  mixFilter(voiceInput: string, musicInput: string, settings: MusicMixSettings): string {
+    const duration = Math.max(0.1, settings.duration);
+    const fade = Math.min(MAX_FADE_SECONDS, duration / 4);
+    const format = `aformat=sample_rates=${MIX_SAMPLE_RATE}:channel_layouts=stereo`;
+
+    return [
+      // Pad the voice to the full length so the mix never ends early
+      `[${voiceInput}]${format},apad,atrim=0:${duration},asplit=2[voice][key]`,
+      `[${musicInput}]${format},atrim=0:${duration},asetpts=PTS-STARTPTS,volume=${(settings.volume / 100).toFixed(2)},` +
+        `afade=t=in:st=0:d=${fade},afade=t=out:st=${(duration - fade).toFixed(3)}:d=${fade}[bgm]`,
+      `[bgm][key]sidechaincompress=threshold=0.03:ratio=8:attack=20:release=350[ducked]`,
+      `[voice][ducked]amix=inputs=2:duration=first:dropout_transition=0:normalize=0,alimiter=limit=0.95[mix]`,
+    ].join(";");
+  }
+
+  // Gives a silent video its soundtrack: the narration, the music, or the two mixed with ducking. The video stream is
+  // copied untouched and the soundtrack is padded or trimmed to the given duration.
+  async addSoundtrack(
+    videoFile: string,
+    voiceFile: string | null,
+    musicFile: string | null,
+    outputFile: string,
+    settings: MusicMixSettings,
+    audioCodec: string[],
+    run: FFmpegRunOptions = {}
+  ): Promise<void> {
+    // Without narration the music is keyed from silence, which leaves it unducked
+    const voiceInput = voiceFile
+      ? ["-i", voiceFile]
+      : ["-f", "lavfi", "-t", settings.duration.toString(), "-i", `anullsrc=r=${MIX_SAMPLE_RATE}:cl=stereo`];
+    const audio = musicFile
+      ? ["-filter_complex", this.mixFilter("1:a", "2:a", settings), "-map", "[mix]"]
+      : ["-map", "1:a", "-af", `apad,atrim=0:${settings.duration}`];
+
+    await runFFmpeg([
+      "-i", videoFile,
+      ...voiceInput,
+      ...(musicFile ? this.musicInput(musicFile) : []),
+      "-map", "0:v",
+      ...audio,
+      "-c:v", "copy",
+      ...audioCodec,
+      "-ar", MIX_SAMPLE_RATE.toString(),
+      "-ac", "2",
+      "-t", settings.duration.toString(),
+      "-y", outputFile
+    ], { expectedDuration: settings.duration, ...run });
+  }
+
+  // Replaces a video's audio with the voice/music mix, copying the video stream untouched
+  async mixIntoVideo(
+    videoFile: string,
+    musicFile: string,
+    outputFile: string,
+    settings: MusicMixSettings,
+    audioCodec: string[],
+    run: FFmpegRunOptions = {}
+  ): Promise<void> {
+    await runFFmpeg([
+      "-i", videoFile,
+      ...this.musicInput(musicFile),
+      "-filter_complex", this.mixFilter("0:a", "1:a", settings),
+      "-map", "0:v",
+      "-map", "[mix]",
+      "-c:v", "copy",
+      ...audioCodec,
+      "-ar", MIX_SAMPLE_RATE.toString(),
+      "-ac", "2",
+      "-t", settings.duration.toString(),
+      "-y", outputFile
+    ], { expectedDuration: settings.duration, ...run });
+  }
+}
+
+export const audioMixerService = new AudioMixerService();
@@ -0,0 +1,105 @@
+import type { AudioFormat, ServerCapabilities } from "@shared/schema";
+import { captureCommand, probeCommand } from "./command-probe";
+import { ttsRegistry } from "./tts-registry";
+
+// ffmpeg filters and encoders each optional feature depends on; builds without them fail only when the feature is used
+const FEATURE_FILTERS = {
+  rendering: ["drawtext"],
+  subtitleBurnIn: ["subtitles"],
+  musicMixing: ["sidechaincompress", "amix", "afade"],
+  loudnessMastering: ["loudnorm"],
+  voiceProcessing: ["highpass", "lowpass", "bass", "equalizer", "deesser", "acompressor", "alimiter", "anoisesrc", "amerge", "pan"],
+  videoAnalysis: ["select", "metadata", "blackdetect", "freezedetect", "signalstats", "silencedetect"],
+};
+const FORMAT_ENCODERS = {
+  mp4: ["libx264", "aac"],
+  webm: ["libvpx-vp9", "libopus"],
+};
+// WAV is what the engines write, so it needs no encoder
+const AUDIO_ENCODERS: Record<Exclude<AudioFormat, "wav">, string[]> = {
+  mp3: ["libmp3lame"],
+  opus: ["libopus"],
+  flac: ["flac"],
+};
+
+export class CapabilitiesService {
+  private current?: Promise<ServerCapabilities>;
+
+  // Probes once and then serves the cached result; refresh re-probes everything, e.g. after installing an engine
+  get(refresh = false): Promise<ServerCapabilities> {
+    if (!this.current || refresh) {
+      if (refresh) ttsRegistry.refresh();
+      this.current = this.probe();
+    }
+    return this.current;
+  }
+
+  private async probe(): Promise<ServerCapabilities> {
+    const [ffmpeg, ffprobe, fontconfig, filters, encoders, fontList, ttsProviders] = await Promise.all([
+      probeCommand("ffmpeg", ["-hide_banner", "-version"]),
+      probeCommand("ffprobe", ["-hide_banner", "-version"]),
+      probeCommand("fc-list", ["--version"]),
+      captureCommand("ffmpeg", ["-hide_banner", "-filters"]),
+      captureCommand("ffmpeg", ["-hide_banner", "-encoders"]),
+      captureCommand("fc-list", [":", "family"]),
+      Promise.all(ttsRegistry.listProviders().map(async (provider) => ({
+        id: provider.id,
+        name: provider.name,
+        kind: provider.kind,
+        ...(await ttsRegistry.probe(provider.id)),
+      }))),
+    ]);
+
+    // Both listings print one entry per line with the name in the second column
+    const listed = (output: string) => new Set(output.split("\n").map(line => line.trim().split(/\s+/)[1]).filter(Boolean));
+    const filterNames = listed(filters.output);
+    const encoderNames = listed(encoders.output);
+    const hasFilters = (names: string[]) => ffmpeg.available && names.every(name => filterNames.has(name));
+
+    return {
+      probedAt: new Date().toISOString(),
+      tools: { ffmpeg, ffprobe, fontconfig },
+      ttsProviders,
+      fonts: fontList.code === 0 ? parseFontFamilies(fontList.output) : [],
+      features: {
+        rendering: hasFilters(FEATURE_FILTERS.rendering),
+        subtitleBurnIn: hasFilters(FEATURE_FILTERS.subtitleBurnIn),
+        musicMixing: hasFilters(FEATURE_FILTERS.musicMixing),
+        loudnessMastering: hasFilters(FEATURE_FILTERS.loudnessMastering),
+        voiceProcessing: hasFilters(FEATURE_FILTERS.voiceProcessing),
+        videoAnalysis: ffprobe.available && hasFilters(FEATURE_FILTERS.videoAnalysis),
+        outputFormats: (Object.keys(FORMAT_ENCODERS) as (keyof typeof FORMAT_ENCODERS)[])
+          .filter(format => FORMAT_ENCODERS[format].every(name => encoderNames.has(name))),
+        audioFormats: ["wav", ...(Object.keys(AUDIO_ENCODERS) as (keyof typeof AUDIO_ENCODERS)[])
+          .filter(format => ffmpeg.available && AUDIO_ENCODERS[format].every(name => encoderNames.has(name)))],
+      },
+    };
+  }
+
+  // One line per startup probe so a missing engine shows up in the server log rather than as a sine tone
+  async logSummary(): Promise<void> {
+    const capabilities = await this.get();
+    const describe = (name: string, status: { available: boolean; version?: string; error?: string }) =>
+      status.available ? `${name} ${status.version ?? "(version unknown)"}` : `${name} unavailable (${status.error})`;
+
+    console.log(`Capabilities: ${[
+      ...Object.entries(capabilities.tools).map(([name, status]) => describe(name, status)),
+      ...capabilities.ttsProviders.map(provider => describe(provider.id, provider)),
+      `${capabilities.fonts.length} font families`,
+    ].join(", ")}`);
+  }
+}
+
+// fc-list prints each font's family names comma-separated, one font per line
+function parseFontFamilies(output: string): string[] {
+  const families = new Set<string>();
+  for (const line of output.split("\n")) {
+    for (const family of line.split(",")) {
+      const name = family.replace(/\\-/g, "-").trim();
+      if (name) families.add(name);
+    }
+  }
+  return Array.from(families).sort();
+}
+
+export const capabilitiesService = new CapabilitiesService();
@@ -0,0 +1,68 @@
+import { spawn } from "child_process";
+import type { EngineStatus } from "@shared/schema";
+
+const PROBE_TIMEOUT_MS = 15000;
+const PYTHON_PROBE_TIMEOUT_MS = 60000; // importing torch-backed engines is slow on a cold cache
+
+export interface CommandOutput {
+  code: number | null; // null when the command could not start or was killed
+  output: string; // stdout followed by stderr
+  error?: string;
+}
+
+// Runs a short-lived command and collects everything it prints; never rejects
+export function captureCommand(command: string, args: string[], timeoutMs = PROBE_TIMEOUT_MS): Promise<CommandOutput> {
+  return new Promise((resolve) => {
+    let stdout = "";
+    let stderr = "";
+    const child = spawn(command, args, { stdio: ["ignore", "pipe", "pipe"], timeout: timeoutMs });
+
+    child.stdout?.on("data", (data) => {
+      stdout += data.toString();
+    });
+    child.stderr?.on("data", (data) => {
+      stderr += data.toString();
+    });
+
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      resolve({
+        code: null,
+        output: "",
+        error: error.code === "ENOENT" ? `${command} is not installed` : error.message,
+      });
+    });
+
+    child.on("close", (code, signal) => {
+      // The last thing a failing command prints is usually the reason, e.g. Python's ModuleNotFoundError
+      const lastLine = stderr.trim().split("\n").pop();
+      resolve({
+        code,
+        output: stdout + stderr,
+        error: code === 0 ? undefined
+          : signal ? `${command} did not respond within ${timeoutMs / 1000}s`
+          : `${command} exited with code ${code}${lastLine ? `: ${lastLine}` : ""}`,
+      });
+    });
+  });
+}
+
+// Available when the command exits cleanly; the version is the first dotted number it prints
+export async function probeCommand(command: string, args: string[], timeoutMs = PROBE_TIMEOUT_MS): Promise<EngineStatus> {
+  const result = await captureCommand(command, args, timeoutMs);
+  return result.code === 0
+    ? { available: true, version: parseVersion(result.output) }
+    : { available: false, error: result.error };
+}
+
+// Available when python3 can import the module; reports its __version__ if it has one
+export function probePythonModule(module: string): Promise<EngineStatus> {
+  return probeCommand("python3", [
+    "-c",
+    "import importlib, sys; print(getattr(importlib.import_module(sys.argv[1]), '__version__', ''))",
+    module
+  ], PYTHON_PROBE_TIMEOUT_MS);
+}
+
+function parseVersion(output: string): string | undefined {
+  return output.match(/\d+(?:\.\d+)+(?:[-+~][\w.+~-]*)?/)?.[0];
+}
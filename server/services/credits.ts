@@ -0,0 +1,86 @@
+import { storage } from "../storage";
+import type { CreditTransaction, GenerationJobInput } from "@shared/schema";
+
+// Credits per second of output by resolution
+const RESOLUTION_RATES: Record<string, number> = {
+  "720p": 5,
+  "1080p": 10,
+  "4k": 25,
+};
+const VOICE_RATE = 2; // per narrated second
+
+export interface CreditQuote {
+  total: number;
+  breakdown: { label: string; amount: number }[];
+}
+
+export class InsufficientCreditsError extends Error {
+  constructor(public required: number, public balance: number) {
+    super(`This generation costs ${required} credits but only ${balance} are available`);
+    this.name = "InsufficientCreditsError";
+  }
+}
+
+export class CreditService {
+  quote(input: GenerationJobInput): CreditQuote {
+    const duration = Math.max(1, Math.ceil(input.duration));
+    const breakdown: CreditQuote["breakdown"] = [];
+
+    // Speech-only jobs pay for the narration alone
+    if (input.tts) {
+      const amount = Math.ceil(VOICE_RATE * duration);
+      return { total: amount, breakdown: [{ label: `Speech synthesis, ~${duration}s`, amount }] };
+    }
+
+    const resolutionRate = RESOLUTION_RATES[input.resolution.toLowerCase()] ?? RESOLUTION_RATES["720p"];
+    breakdown.push({ label: `${input.resolution} video, ${duration}s`, amount: resolutionRate * duration });
+
+    const narratedSeconds = input.scenes
+      ? input.scenes.filter(scene => scene.audioEnabled).reduce((sum, scene) => sum + scene.duration, 0)
+      : input.settings?.voice?.script?.trim() ? duration : 0;
+    if (narratedSeconds > 0) {
+      breakdown.push({ label: "Voice narration", amount: Math.ceil(VOICE_RATE * narratedSeconds) });
+    }
+
+    // Only what the pipeline renders is priced; avatars aren't rendered yet, so choosing one costs nothing
+    const total = breakdown.reduce((sum, item) => sum + item.amount, 0);
+    return { total, breakdown };
+  }
+
+  // Debits the quoted cost against the job, or throws InsufficientCreditsError without charging anything
+  async charge(userId: string, jobId: string, input: GenerationJobInput): Promise<CreditTransaction> {
+    const { total } = this.quote(input);
+    const description = input.tts ? `Speech synthesis (~${input.duration}s)` : `Video generation (${input.resolution}, ${input.duration}s)`;
+    const entry = await storage.chargeCredits(userId, total, jobId, description);
+    if (!entry) {
+      const user = await storage.getUser(userId);
+      throw new InsufficientCreditsError(total, user?.credits ?? 0);
+    }
+    return entry;
+  }
+
+  // Re-prices a job once its auto-fit scenes have their real lengths, charging or paying back the difference
+  async settle(userId: string, jobId: string, input: GenerationJobInput): Promise<void> {
+    const { total } = this.quote(input);
+    const settled = await storage.settleJobCredits(jobId, total, `Scenes fitted to their narration (${Math.ceil(input.duration)}s)`);
+    if (!settled) {
+      const user = await storage.getUser(userId);
+      throw new InsufficientCreditsError(total, user?.credits ?? 0);
+    }
+  }
+
+  // Safe to call from every path that ends a job unsuccessfully; only the first call pays out
+  async refund(jobId: string, reason: string): Promise<void> {
+    try {
+      await storage.refundJobCredits(jobId, `Refund: ${reason}`);
+    } catch (error) {
+      console.error(`Failed to refund credits for job ${jobId}:`, error);
+    }
+  }
+
+  async getHistory(userId: string): Promise<CreditTransaction[]> {
+    return storage.getCreditTransactionsByUser(userId);
+  }
+}
+
+export const creditService = new CreditService();
@@ -44,11 +44,14 @@ export class ElevenLabsService {
   async generateSpeech(
     text: string,
     voiceId: string,
-    settings: ElevenLabsSettings = { stability: 0.5, similarity_boost: 0.5 }
+    settings: ElevenLabsSettings = { stability: 0.5, similarity_boost: 0.5 },
+    outputFormat = "mp3_44100_128", // pcm_<rate> returns headerless 16-bit mono samples
+    signal?: AbortSignal
   ): Promise<Buffer> {
     try {
-      const response = await fetch(`${this.baseUrl}/text-to-speech/${voiceId}`, {
+      const response = await fetch(`${this.baseUrl}/text-to-speech/${voiceId}?output_format=${outputFormat}`, {
         method: "POST",
+        signal,
         headers: {
           "Accept": "audio/mpeg",
           "Content-Type": "application/json",
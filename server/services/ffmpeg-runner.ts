@@ -0,0 +1,134 @@
+import { spawn } from "child_process";
+
+export interface FFmpegProgress {
+  percent: number; // 0-100 of the expected output duration
+  outTime: number; // seconds of output written so far
+  speed: number | null; // ffmpeg's realtime multiplier, e.g. 2.5 for "2.5x"
+  etaSeconds: number | null;
+}
+
+export interface FFmpegRunOptions {
+  signal?: AbortSignal; // aborting sends SIGTERM to ffmpeg
+  onLog?: (line: string) => void; // stderr, line by line
+  expectedDuration?: number; // seconds of output; without it no percentage can be worked out
+  onProgress?: (progress: FFmpegProgress) => void;
+}
+
+// Runs ffmpeg with machine-readable progress on stdout and rejects with the tail of stderr on failure
+export function runFFmpeg(args: string[], options: FFmpegRunOptions = {}): Promise<void> {
+  const { signal, onLog, expectedDuration, onProgress } = options;
+
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn("ffmpeg", ["-progress", "pipe:1", ...args], { signal });
+
+    let stderr = "";
+    let pending = "";
+    let pendingLog = "";
+    let block: Record<string, string> = {};
+
+    ffmpeg.stdout.on("data", (data) => {
+      pending += data.toString();
+      const lines = pending.split("\n");
+      pending = lines.pop() || "";
+
+      for (const line of lines) {
+        const separator = line.indexOf("=");
+        if (separator === -1) continue;
+        const key = line.slice(0, separator).trim();
+        const value = line.slice(separator + 1).trim();
+        block[key] = value;
+
+        // Every progress block ends with progress=continue or progress=end
+        if (key === "progress") {
+          if (onProgress) {
+            onProgress(parseProgressBlock(block, expectedDuration, value === "end"));
+          }
+          block = {};
+        }
+      }
+    });
+
+    ffmpeg.stderr.on("data", (data) => {
+      const text = data.toString();
+      stderr = (stderr + text).slice(-4000);
+      if (onLog) {
+        // A chunk can end mid-line; the rest of it arrives with the next one
+        const lines = (pendingLog + text).split(/[\r\n]+/);
+        pendingLog = lines.pop() || "";
+        lines.filter(Boolean).forEach((line: string) => onLog(line));
+      }
+    });
+
+    ffmpeg.on("close", (code) => {
+      if (onLog && pendingLog) onLog(pendingLog);
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`FFmpeg failed with code ${code}: ${stderr}`));
+      }
+    });
+
+    ffmpeg.on("error", (error) => {
+      reject(error);
+    });
+  });
+}
+
+function parseProgressBlock(block: Record<string, string>, expectedDuration: number | undefined, ended: boolean): FFmpegProgress {
+  // Despite the name, out_time_ms is in microseconds; newer builds also print out_time_us
+  const outTimeMicros = parseInt(block.out_time_us || block.out_time_ms || "0", 10);
+  const outTime = Number.isFinite(outTimeMicros) && outTimeMicros > 0 ? outTimeMicros / 1_000_000 : 0;
+  const speed = parseFloat((block.speed || "").replace("x", ""));
+  const knownSpeed = Number.isFinite(speed) && speed > 0 ? speed : null;
+
+  if (ended) {
+    return { percent: 100, outTime, speed: knownSpeed, etaSeconds: 0 };
+  }
+  if (!expectedDuration || expectedDuration <= 0) {
+    return { percent: 0, outTime, speed: knownSpeed, etaSeconds: null };
+  }
+
+  const percent = Math.min(99, (outTime / expectedDuration) * 100);
+  const remaining = Math.max(0, expectedDuration - outTime);
+  return {
+    percent,
+    outTime,
+    speed: knownSpeed,
+    etaSeconds: knownSpeed ? remaining / knownSpeed : null,
+  };
+}
+
+export interface RenderProgressUpdate {
+  percent: number; // 0-100 across all passes
+  etaSeconds: number | null;
+}
+
+// Folds several sequential ffmpeg passes into one 0-100 progress figure with an overall ETA
+export class RenderProgress {
+  private startedAt = Date.now();
+
+  constructor(
+    private totalPasses: number,
+    private onProgress?: (update: RenderProgressUpdate) => void,
+  ) {}
+
+  pass(index: number): (progress: FFmpegProgress) => void {
+    return (progress) => {
+      if (!this.onProgress) return;
+
+      const passFraction = progress.percent / 100;
+      const done = index + passFraction;
+      const elapsed = (Date.now() - this.startedAt) / 1000;
+      const secondsPerPass = done > 0 ? elapsed / done : null;
+
+      // ffmpeg's own estimate is best for the current pass; later passes are assumed to take as long as earlier ones
+      const currentPassEta = progress.etaSeconds ?? (secondsPerPass !== null ? secondsPerPass * (1 - passFraction) : null);
+      const laterPassesEta = secondsPerPass !== null ? secondsPerPass * (this.totalPasses - index - 1) : null;
+
+      this.onProgress({
+        percent: Math.min(100, (done / this.totalPasses) * 100),
+        etaSeconds: currentPassEta !== null && laterPassesEta !== null ? currentPassEta + laterPassesEta : null,
+      });
+    };
+  }
+}
@@ -1,42 +1,62 @@
 import { spawn } from "child_process";
 import fs from "fs/promises";
 import path from "path";
+import type { LexiconRule, VoiceProcessing, VoiceQuery } from "@shared/schema";
+import { NEUTRAL_PROSODY, parseSsml, SsmlError, ssmlToPlainText, type SsmlSegment } from "@shared/ssml";
+import { VOICE_PRESETS } from "@shared/voice-processing";
+import { lexiconService } from "./lexicon";
+import { planSpeech, spokenText, synthesizeScript } from "./speech-assembler";
+import { normalizeSegments } from "./text-normalizer";
+import { ttsRegistry, type ResolvedVoice } from "./tts-registry";
+import { processVoice } from "./voice-processing";
+import { alignWords, type WordTiming } from "./word-timings";
 
 export interface FreeTTSOptions {
   voice: string;
   speed: number;
   pitch: number;
   volume: number;
+  lexicon?: LexiconRule[]; // the user's pronunciation fixes
+  processing?: VoiceProcessing; // EQ, compression and the like, applied to whichever engine's output is used
+  signal?: AbortSignal; // aborting kills whichever engine process is running
+  onFallback?: (notice: string) => void; // told when the voice's own engine or the script's markup couldn't be used as asked
 }
 
+// Length in seconds of a PCM WAV buffer as the engines write it, or null if the header can't be read
+export function getWavDuration(audio: Buffer): number | null {
+  if (audio.length < 12 || audio.toString("ascii", 0, 4) !== "RIFF" || audio.toString("ascii", 8, 12) !== "WAVE") {
+    return null;
+  }
+
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= audio.length) {
+    const chunkId = audio.toString("ascii", offset, offset + 4);
+    const chunkSize = audio.readUInt32LE(offset + 4);
+    if (chunkId === "fmt " && offset + 20 <= audio.length) {
+      byteRate = audio.readUInt32LE(offset + 16);
+    } else if (chunkId === "data") {
+      // Streaming writers leave the size at 0 or 0xFFFFFFFF, so trust the bytes actually present
+      const available = audio.length - offset - 8;
+      const dataSize = chunkSize > 0 && chunkSize <= available ? chunkSize : available;
+      return byteRate > 0 ? dataSize / byteRate : null;
+    }
+    offset += 8 + chunkSize + (chunkSize % 2); // chunks are word-aligned
+  }
+  return null;
+}
+
+// Stands in for a voice when the requested one can't be resolved, so fallback audio still has a pitch and pace
+const FALLBACK_VOICE = { gender: "female", language: "en" };
+
 export class FreeTTSService {
-  private voices = [
-    // High-Quality English Voices
-    { id: "coqui-female-en", name: "Sarah Professional", description: "High-quality female English voice with natural intonation", provider: "coqui", gender: "female", language: "en", quality: "premium" },
-    { id: "coqui-male-en", name: "David Professional", description: "Deep male English voice with clear articulation", provider: "coqui", gender: "male", language: "en", quality: "premium" },
-    { id: "bark-female-en", name: "Emma Natural", description: "Expressive female voice with emotional range", provider: "bark", gender: "female", language: "en", quality: "premium" },
-    { id: "bark-male-en", name: "Marcus Narrator", description: "Professional male narrator voice", provider: "bark", gender: "male", language: "en", quality: "premium" },
-    
-    // High-Quality Hindi Voices
-    { id: "coqui-female-hi", name: "Priya Hindi", description: "Natural female Hindi voice with proper pronunciation", provider: "coqui", gender: "female", language: "hi", quality: "premium" },
-    { id: "coqui-male-hi", name: "Arjun Hindi", description: "Clear male Hindi voice with authentic accent", provider: "coqui", gender: "male", language: "hi", quality: "premium" },
-    { id: "indic-female-hi", name: "Kavya Professional", description: "Professional female Hindi voice for business content", provider: "indic-tts", gender: "female", language: "hi", quality: "premium" },
-    { id: "indic-male-hi", name: "Vikram Narrator", description: "Authoritative male Hindi voice for narration", provider: "indic-tts", gender: "male", language: "hi", quality: "premium" },
-    
-    // Fallback voices (if premium engines not available)
-    { id: "espeak-female-en", name: "eSpeak Female EN", description: "Standard female English voice", provider: "espeak", gender: "female", language: "en", quality: "standard" },
-    { id: "espeak-male-en", name: "eSpeak Male EN", description: "Standard male English voice", provider: "espeak", gender: "male", language: "en", quality: "standard" },
-    { id: "espeak-female-hi", name: "eSpeak Female HI", description: "Basic female Hindi voice", provider: "espeak", gender: "female", language: "hi", quality: "standard" },
-    { id: "espeak-male-hi", name: "eSpeak Male HI", description: "Basic male Hindi voice", provider: "espeak", gender: "male", language: "hi", quality: "standard" },
-  ];
-
-  async getVoices() {
-    return this.voices;
+  async getVoices(query: VoiceQuery = {}) {
+    return ttsRegistry.getVoices(query);
   }
 
   async previewVoice(voiceId: string, text: string = "Hello, this is a voice preview. I am a professional AI voice generator."): Promise<Buffer> {
     try {
-      const voice = this.voices.find(v => v.id === voiceId);
+      const voice = (await ttsRegistry.resolveVoice(voiceId))?.voice;
       if (!voice) {
         throw new Error("Voice not found");
       }
@@ -54,7 +74,7 @@ export class FreeTTSService {
     } catch (error) {
       console.error("Voice preview failed:", error);
       // Return professional fallback audio
-      const voice = this.voices.find(v => v.id === voiceId) || this.voices[0];
+      const voice = (await ttsRegistry.resolveVoice(voiceId))?.voice ?? FALLBACK_VOICE;
       return await this.createProfessionalWAV(text, voice, { voice: voiceId, speed: 1.0, pitch: 0, volume: 0.8 });
     }
   }
@@ -63,11 +83,11 @@ export class FreeTTSService {
     // Generate proper human-like TTS audio using available engines
     try {
       // Try eSpeak with better settings for natural sound
-      return await this.tryEngine("espeak", text, { voice: "espeak-female-en", speed: 0.9, pitch: 0, volume: 80 }, this.voices[0]);
+      return await this.tryEngine("espeak", text, { voice: "espeak-female-en", speed: 0.9, pitch: 0, volume: 80 }, FALLBACK_VOICE);
     } catch (error) {
       try {
         // Try Festival TTS as second option
-        return await this.tryEngine("festival", text, { voice: "festival-female-en", speed: 1.0, pitch: 0, volume: 80 }, this.voices[0]);
+        return await this.tryEngine("festival", text, { voice: "festival-female-en", speed: 1.0, pitch: 0, volume: 80 }, FALLBACK_VOICE);
       } catch (error2) {
         // Generate a simple beep as absolute fallback
         return this.generateSimpleBeep();
@@ -156,29 +176,65 @@ export class FreeTTSService {
   }
 
   async generateSpeech(text: string, options: FreeTTSOptions): Promise<Buffer> {
+    const audio = await this.synthesizeSpeech(text, options);
+    if (!options.processing) return audio;
+
+    // Unprocessed narration beats none at all
     try {
-      const voice = this.voices.find(v => v.id === options.voice);
-      if (!voice) {
-        throw new Error("Voice not found");
-      }
+      return await processVoice(audio, options.processing, options.signal);
+    } catch (error) {
+      options.signal?.throwIfAborted();
+      console.warn("Voice processing failed:", error);
+      options.onFallback?.(`The ${VOICE_PRESETS[options.processing.preset].label} voice processing failed, so the voice is unprocessed`);
+      return audio;
+    }
+  }
 
-      // Try high-quality engines first based on voice provider
-      if (voice.provider === "coqui") {
-        const audioBuffer = await this.generateCoquiTTS(text, voice, options);
-        if (audioBuffer) return audioBuffer;
-      }
+  // The narration together with when each of the script's written words is said in it, for captions and karaoke.
+  // Timings come from the finished audio, so they hold whichever engine and voice processing produced it.
+  async generateSpeechWithTimings(text: string, options: FreeTTSOptions): Promise<{ audio: Buffer; words: WordTiming[] }> {
+    const audio = await this.generateSpeech(text, options);
+    const duration = getWavDuration(audio);
+    if (!duration) return { audio, words: [] };
 
-      if (voice.provider === "bark") {
-        const audioBuffer = await this.generateBarkTTS(text, voice, options);
-        if (audioBuffer) return audioBuffer;
+    const language = (await ttsRegistry.resolveVoice(options.voice))?.voice.language ?? FALLBACK_VOICE.language;
+    return { audio, words: await alignWords(audio, duration, ssmlToPlainText(text), language, options.signal) };
+  }
+
+  private async synthesizeSpeech(text: string, options: FreeTTSOptions): Promise<Buffer> {
+    try {
+      const resolved = await ttsRegistry.resolveVoice(options.voice);
+      if (!resolved) {
+        throw new Error("Voice not found");
+      }
+      const { voice, provider } = resolved;
+      const segments = this.prepareScript(text, voice.language, options);
+      let reason: string;
+
+      // Try the voice's own engine first, when the registry has found it installed
+      const status = await ttsRegistry.probe(provider.id);
+      if (status.available) {
+        const audio = await this.trySynthesize(resolved, segments, options);
+        if (audio) return audio;
+        reason = `${provider.name} failed to synthesize ${voice.name}`;
+      } else {
+        reason = `${voice.name} needs ${provider.name}, which is unavailable (${status.error})`;
       }
 
-      if (voice.provider === "indic-tts") {
-        const audioBuffer = await this.generateIndicTTS(text, voice, options);
-        if (audioBuffer) return audioBuffer;
+      // Then an installed standard voice in the same language, preferring the same gender
+      const standardVoices = await ttsRegistry.getVoices({ language: voice.language, quality: "standard", available: true });
+      const substitute = standardVoices.find(candidate => candidate.gender === voice.gender) ?? standardVoices[0];
+      const substituteVoice = substitute && substitute.id !== voice.id && await ttsRegistry.resolveVoice(substitute.id);
+      if (substituteVoice) {
+        const audio = await this.trySynthesize(substituteVoice, segments, options);
+        if (audio) {
+          options.onFallback?.(`${reason}; used ${substituteVoice.voice.name} instead`);
+          return audio;
+        }
       }
 
-      // Fallback to basic engines with better quality settings
+      // Fallback to basic engines with better quality settings; they only get the words, without pauses or prosody
+      const plainText = spokenText(planSpeech(segments, voice.language).parts);
       const engines = [
         { name: "pico2wave", priority: 1 },
         { name: "espeak", priority: 2 },
@@ -187,172 +243,52 @@ export class FreeTTSService {
       
       for (const engine of engines) {
         try {
-          const audioBuffer = await this.tryEngine(engine.name, text, options, voice);
+          const audioBuffer = await this.tryEngine(engine.name, plainText, options, voice);
           if (audioBuffer && audioBuffer.length > 100) { // Ensure we have actual audio data
+            options.onFallback?.(`${reason}; used ${engine.name} instead`);
             return this.enhanceAudioQuality(audioBuffer);
           }
         } catch (error) {
           console.warn(`TTS engine ${engine.name} failed:`, error);
           continue;
         }
+        options.signal?.throwIfAborted();
       }
 
       // Final fallback: Generate high-quality professional audio
-      return await this.generateHighQualityAudio(text, voice, options);
+      options.onFallback?.(`${reason} and no other speech engine is installed, so the narration is a placeholder tone`);
+      return await this.generateHighQualityAudio(plainText, voice, options);
     } catch (error) {
+      if (options.signal?.aborted) throw error;
       throw new Error(`Free TTS generation failed: ${error}`);
     }
   }
 
-  private async runCommand(command: string, args: string[]): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const { spawn } = require("child_process");
-      const process = spawn(command, args);
-      
-      process.on("close", (code: number) => {
-        if (code === 0) {
-          resolve();
-        } else {
-          reject(new Error(`Command failed with code ${code}`));
-        }
-      });
-      
-      process.on("error", (error: Error) => {
-        reject(error);
-      });
-    });
-  }
-
-  private async runCommandWithInput(command: string, args: string[], input: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const { spawn } = require("child_process");
-      const process = spawn(command, args);
-      
-      if (process.stdin && input) {
-        process.stdin.write(input);
-        process.stdin.end();
-      }
-      
-      process.on("close", (code: number) => {
-        if (code === 0) {
-          resolve();
-        } else {
-          reject(new Error(`Command failed with code ${code}`));
-        }
-      });
-      
-      process.on("error", (error: Error) => {
-        reject(error);
-      });
-    });
-  }
-
-  private async generateCoquiTTS(text: string, voice: any, options: FreeTTSOptions): Promise<Buffer | null> {
-    try {
-      // Coqui TTS implementation for high quality
-      const tempDir = path.join(process.cwd(), "temp");
-      await fs.mkdir(tempDir, { recursive: true });
-      const outputPath = path.join(tempDir, `coqui_${Date.now()}.wav`);
-
-      // Try running Coqui TTS if available
-      const command = "tts";
-      const args = [
-        "--text", text,
-        "--model_name", voice.language === "hi" ? "tts_models/hi/male/fastpitch" : "tts_models/en/ljspeech/tacotron2-DDC",
-        "--out_path", outputPath,
-        "--vocoder_name", "vocoder_models/universal/libri-tts/fullband-melgan"
-      ];
-
-      await this.runCommand(command, args);
-      
-      try {
-        const audioBuffer = await fs.readFile(outputPath);
-        await fs.unlink(outputPath).catch(() => {});
-        return audioBuffer;
-      } catch (error) {
-        return null;
-      }
-    } catch (error) {
-      console.warn("Coqui TTS not available, falling back to other engines");
-      return null;
-    }
-  }
-
-  private async generateBarkTTS(text: string, voice: any, options: FreeTTSOptions): Promise<Buffer | null> {
+  // Scripts are parsed and normalized once for every engine tried; markup that doesn't parse is read as its plain
+  // text rather than failing the narration
+  private prepareScript(text: string, language: string, options: FreeTTSOptions): SsmlSegment[] {
+    let segments: SsmlSegment[];
     try {
-      // Bark TTS implementation for expressive voices
-      const tempDir = path.join(process.cwd(), "temp");
-      await fs.mkdir(tempDir, { recursive: true });
-      const outputPath = path.join(tempDir, `bark_${Date.now()}.wav`);
-
-      // Create a Python script for Bark TTS
-      const pythonScript = `
-import torch
-from bark import SAMPLE_RATE, generate_audio, preload_models
-from scipy.io.wavfile import write as write_wav
-
-# Download and load all models
-preload_models()
-
-# Generate audio from text
-text_prompt = "${text.replace(/"/g, '\\"')}"
-audio_array = generate_audio(text_prompt, history_prompt="${voice.gender === 'female' ? 'v2/en_speaker_6' : 'v2/en_speaker_9'}")
-
-# Save to file
-write_wav("${outputPath}", SAMPLE_RATE, audio_array)
-`;
-
-      const scriptPath = path.join(tempDir, `bark_script_${Date.now()}.py`);
-      await fs.writeFile(scriptPath, pythonScript);
-
-      await this.runCommand("python", [scriptPath]);
-      
-      try {
-        const audioBuffer = await fs.readFile(outputPath);
-        await fs.unlink(outputPath).catch(() => {});
-        await fs.unlink(scriptPath).catch(() => {});
-        return audioBuffer;
-      } catch (error) {
-        return null;
-      }
+      segments = parseSsml(text);
     } catch (error) {
-      console.warn("Bark TTS not available");
-      return null;
+      if (!(error instanceof SsmlError)) throw error;
+      options.onFallback?.(`The script's markup was ignored (${error.message})`);
+      segments = [{ type: "text", text: ssmlToPlainText(text), prosody: NEUTRAL_PROSODY }];
     }
+    return normalizeSegments(lexiconService.apply(segments, options.lexicon ?? [], language), language);
   }
 
-  private async generateIndicTTS(text: string, voice: any, options: FreeTTSOptions): Promise<Buffer | null> {
+  // Null when the provider fails so the next engine can be tried; a cancellation still throws
+  private async trySynthesize(resolved: ResolvedVoice, segments: SsmlSegment[], options: FreeTTSOptions): Promise<Buffer | null> {
     try {
-      // Indic TTS for high-quality Hindi voices
-      const tempDir = path.join(process.cwd(), "temp");
-      await fs.mkdir(tempDir, { recursive: true });
-      const outputPath = path.join(tempDir, `indic_${Date.now()}.wav`);
-
-      // Use Indic-TTS or similar for Hindi
-      const pythonScript = `
-from indic_tts import IndicTTS
-import soundfile as sf
-
-tts = IndicTTS()
-audio, sr = tts.tts("${text.replace(/"/g, '\\"')}", voice="${voice.gender === 'female' ? 'female' : 'male'}", lang="hi")
-sf.write("${outputPath}", audio, sr)
-`;
-
-      const scriptPath = path.join(tempDir, `indic_script_${Date.now()}.py`);
-      await fs.writeFile(scriptPath, pythonScript);
-
-      await this.runCommand("python", [scriptPath]);
-      
-      try {
-        const audioBuffer = await fs.readFile(outputPath);
-        await fs.unlink(outputPath).catch(() => {});
-        await fs.unlink(scriptPath).catch(() => {});
-        return audioBuffer;
-      } catch (error) {
-        return null;
+      const { audio, ignoredPhonemes } = await synthesizeScript(resolved, segments, options);
+      if (ignoredPhonemes) {
+        options.onFallback?.(`${resolved.provider.name} can't take phoneme hints, so ${resolved.voice.name} read those words as written`);
       }
+      return audio;
     } catch (error) {
-      console.warn("Indic TTS not available");
+      options.signal?.throwIfAborted();
+      console.warn(`TTS provider ${resolved.provider.id} failed:`, error);
       return null;
     }
   }
@@ -383,34 +319,30 @@ sf.write("${outputPath}", audio, sr)
           return null;
       }
 
-      if (engine === "festival") {
-        // Festival needs text input via stdin
-        await this.runCommandWithInput(command, args, text);
-      } else {
-        await this.runCommand(command, args);
-      }
+      // Festival needs text input via stdin
+      await this.runCommand(command, args, engine === "festival" ? text : undefined, options.signal);
       
       // Check if file was created
       try {
         const stats = await fs.stat(outputPath);
         if (stats.size > 0) {
-          const audioBuffer = await fs.readFile(outputPath);
-          await fs.unlink(outputPath).catch(() => {}); // Clean up
-          return audioBuffer;
+          return await fs.readFile(outputPath);
         }
       } catch (error) {
         return null;
       }
     } catch (error) {
       return null;
+    } finally {
+      await fs.unlink(outputPath).catch(() => {}); // Clean up
     }
 
     return null;
   }
 
-  private async runCommand(command: string, args: string[], input?: string): Promise<void> {
+  private async runCommand(command: string, args: string[], input?: string, signal?: AbortSignal): Promise<void> {
     return new Promise((resolve, reject) => {
-      const process = spawn(command, args);
+      const process = spawn(command, args, { signal });
       
       if (input) {
         process.stdin.write(input);
@@ -463,12 +395,14 @@ sf.write("${outputPath}", audio, sr)
         "-sample_fmt", "s16",
         "-y",
         outputPath
-      ]);
+      ], undefined, options.signal);
 
       const audioBuffer = await fs.readFile(outputPath);
       await fs.unlink(outputPath).catch(() => {});
       return audioBuffer;
     } catch (error) {
+      await fs.unlink(outputPath).catch(() => {});
+      options.signal?.throwIfAborted();
       // Ultimate fallback: create professional WAV
       return this.createProfessionalWAV(text, voice, options);
     }
@@ -590,12 +524,13 @@ sf.write("${outputPath}", audio, sr)
     return buffer;
   }
 
-  async previewVoice(voiceId: string, text: string = "Hello, this is a voice preview."): Promise<Buffer> {
+  async previewVoice(voiceId: string, text: string = "Hello, this is a voice preview.", processing?: VoiceProcessing): Promise<Buffer> {
     const options: FreeTTSOptions = {
       voice: voiceId,
       speed: 1.0,
       pitch: 0,
       volume: 1.0,
+      processing,
     };
 
     return this.generateSpeech(text, options);
@@ -1,7 +1,10 @@
-import { spawn } from "child_process";
 import fs from "fs/promises";
 import path from "path";
 import { randomUUID } from "crypto";
+import type { LoudnessReport, LoudnessTarget, RenderProfile } from "@shared/schema";
+import { sceneDurations } from "@shared/reference-match";
+import { runFFmpeg, RenderProgress, type FFmpegProgress, type RenderProgressUpdate } from "./ffmpeg-runner";
+import { masterLoudness } from "./loudness";
 
 export interface VideoGenerationOptions {
   prompt: string;
@@ -9,9 +12,16 @@ export interface VideoGenerationOptions {
   duration: number;
   resolution: string;
   aspectRatio: string;
+  profile?: RenderProfile; // frame rate, encode settings and shot length matched to a reference video
   outputPath?: string;
+  signal?: AbortSignal; // aborting kills the running ffmpeg process and removes partial output
+  onLog?: (line: string) => void; // receives ffmpeg's stderr line by line
+  onProgress?: (update: RenderProgressUpdate) => void; // render progress across all ffmpeg passes
 }
 
+// How far the animation skips ahead at each cut; far enough that the picture visibly changes
+const SHOT_JUMP_SECONDS = 40;
+
 export class FreeVideoGeneratorService {
   private tempDir = path.join(process.cwd(), "temp");
   private outputDir = path.join(process.cwd(), "uploads");
@@ -31,21 +41,52 @@ export class FreeVideoGeneratorService {
     
     // Analyze prompt to determine video content and style
     const scene = this.analyzePrompt(options.prompt);
+    // The prompt overlay is a second pass. Text videos draw their text in the first, and nature scenes only get an
+    // overlay when the prompt has words long enough to show.
+    const overlaid = scene.type === 'nature' ? this.hasOverlayText(scene) : scene.type !== 'text';
+    const progress = new RenderProgress(overlaid ? 2 : 1, options.onProgress);
     
-    // Generate video based on scene analysis
-    if (scene.type === 'nature') {
-      await this.generateNatureVideo(options, outputPath, scene);
-    } else if (scene.type === 'abstract') {
-      await this.generateAbstractVideo(options, outputPath, scene);
-    } else if (scene.type === 'text') {
-      await this.generateTextVideo(options, outputPath, scene);
-    } else {
-      await this.generateGenericVideo(options, outputPath, scene);
+    try {
+      // Generate video based on scene analysis
+      if (scene.type === 'nature') {
+        await this.generateNatureVideo(options, outputPath, scene, progress);
+      } else if (scene.type === 'abstract') {
+        await this.generateAbstractVideo(options, outputPath, scene, progress);
+      } else if (scene.type === 'text') {
+        await this.generateTextVideo(options, outputPath, scene, progress);
+      } else {
+        await this.generateGenericVideo(options, outputPath, scene, progress);
+      }
+    } catch (error) {
+      // Don't leave a half-written file in uploads/
+      await fs.unlink(outputPath).catch(() => {});
+      throw error;
     }
 
     return outputPath;
   }
 
+  // Normalises narration to the platform's loudness target before it is published next to the video
+  async masterNarration(
+    audio: Buffer,
+    outputPath: string,
+    target: LoudnessTarget,
+    signal?: AbortSignal,
+    onLog?: (line: string) => void
+  ): Promise<LoudnessReport | null> {
+    const rawPath = path.join(this.tempDir, `narration_raw_${randomUUID()}.wav`);
+    await fs.writeFile(rawPath, audio);
+
+    try {
+      return await masterLoudness(rawPath, outputPath, target, ['-c:a', 'pcm_s16le'], { signal, onLog });
+    } catch (error) {
+      await fs.unlink(outputPath).catch(() => {});
+      throw error;
+    } finally {
+      await fs.unlink(rawPath).catch(() => {});
+    }
+  }
+
   private analyzePrompt(prompt: string): any {
     const lowerPrompt = prompt.toLowerCase();
     
@@ -96,54 +137,51 @@ export class FreeVideoGeneratorService {
     return 'gentle';
   }
 
-  private async generateNatureVideo(options: VideoGenerationOptions, outputPath: string, scene: any): Promise<void> {
+  private async generateNatureVideo(options: VideoGenerationOptions, outputPath: string, scene: any, progress: RenderProgress): Promise<void> {
     // Create nature-inspired video with moving elements
     const tempVideoPath = path.join(this.tempDir, `nature_${randomUUID()}.mp4`);
     
-    await this.runFFmpegCommand([
-      '-f', 'lavfi',
-      '-i', this.createNatureFilter(options, scene),
-      '-t', options.duration.toString(),
-      '-r', '30',
-      '-c:v', 'libx264',
-      '-preset', 'medium',
-      '-crf', '23',
-      '-pix_fmt', 'yuv420p',
-      '-y',
-      tempVideoPath
-    ]);
+    try {
+      await this.runFFmpegCommand([
+        '-f', 'lavfi',
+        '-i', this.createNatureFilter(options, scene),
+        '-t', options.duration.toString(),
+        ...this.encodeArgs(options, 23),
+        '-y',
+        tempVideoPath
+      ], options.signal, options.onLog, { expectedDuration: options.duration, onProgress: progress.pass(0) });
 
-    // Add text overlay if prompt contains text elements
-    if (scene.keywords.some((k: string) => k.length > 4)) {
-      await this.addTextOverlay(tempVideoPath, outputPath, scene.originalPrompt, options);
-    } else {
-      await fs.copyFile(tempVideoPath, outputPath);
+      // Add text overlay if prompt contains text elements
+      if (this.hasOverlayText(scene)) {
+        await this.addTextOverlay(tempVideoPath, outputPath, scene.originalPrompt, options, progress);
+      } else {
+        await fs.copyFile(tempVideoPath, outputPath);
+      }
+    } finally {
+      await fs.unlink(tempVideoPath).catch(() => {});
     }
-
-    await fs.unlink(tempVideoPath).catch(() => {});
   }
 
-  private async generateAbstractVideo(options: VideoGenerationOptions, outputPath: string, scene: any): Promise<void> {
+  private async generateAbstractVideo(options: VideoGenerationOptions, outputPath: string, scene: any, progress: RenderProgress): Promise<void> {
     const tempVideoPath = path.join(this.tempDir, `abstract_${randomUUID()}.mp4`);
     
-    await this.runFFmpegCommand([
-      '-f', 'lavfi',
-      '-i', this.createAbstractFilter(options, scene),
-      '-t', options.duration.toString(),
-      '-r', '30',
-      '-c:v', 'libx264',
-      '-preset', 'medium',
-      '-crf', '20',
-      '-pix_fmt', 'yuv420p',
-      '-y',
-      tempVideoPath
-    ]);
+    try {
+      await this.runFFmpegCommand([
+        '-f', 'lavfi',
+        '-i', this.createAbstractFilter(options, scene),
+        '-t', options.duration.toString(),
+        ...this.encodeArgs(options, 20),
+        '-y',
+        tempVideoPath
+      ], options.signal, options.onLog, { expectedDuration: options.duration, onProgress: progress.pass(0) });
 
-    await this.addTextOverlay(tempVideoPath, outputPath, scene.originalPrompt, options);
-    await fs.unlink(tempVideoPath).catch(() => {});
+      await this.addTextOverlay(tempVideoPath, outputPath, scene.originalPrompt, options, progress);
+    } finally {
+      await fs.unlink(tempVideoPath).catch(() => {});
+    }
   }
 
-  private async generateTextVideo(options: VideoGenerationOptions, outputPath: string, scene: any): Promise<void> {
+  private async generateTextVideo(options: VideoGenerationOptions, outputPath: string, scene: any, progress: RenderProgress): Promise<void> {
     // Create text-focused video with animated typography
     const { width, height } = this.getResolutionDimensions(options.resolution);
     
@@ -151,73 +189,75 @@ export class FreeVideoGeneratorService {
       '-f', 'lavfi',
       '-i', `color=c=${scene.colors[0]}:s=${width}x${height}:d=${options.duration}`,
       '-vf', this.createTextAnimationFilter(scene.originalPrompt, scene.colors, width, height),
-      '-r', '30',
-      '-c:v', 'libx264',
-      '-preset', 'medium',
-      '-crf', '20',
-      '-pix_fmt', 'yuv420p',
+      ...this.encodeArgs(options, 20),
       '-y',
       outputPath
-    ]);
+    ], options.signal, options.onLog, { expectedDuration: options.duration, onProgress: progress.pass(0) });
   }
 
-  private async generateGenericVideo(options: VideoGenerationOptions, outputPath: string, scene: any): Promise<void> {
+  private async generateGenericVideo(options: VideoGenerationOptions, outputPath: string, scene: any, progress: RenderProgress): Promise<void> {
     // Create a dynamic generic video with particle effects
     const tempVideoPath = path.join(this.tempDir, `generic_${randomUUID()}.mp4`);
     
-    await this.runFFmpegCommand([
-      '-f', 'lavfi',
-      '-i', this.createGenericFilter(options, scene),
-      '-t', options.duration.toString(),
-      '-r', '30',
-      '-c:v', 'libx264',
-      '-preset', 'medium',
-      '-crf', '23',
-      '-pix_fmt', 'yuv420p',
-      '-y',
-      tempVideoPath
-    ]);
+    try {
+      await this.runFFmpegCommand([
+        '-f', 'lavfi',
+        '-i', this.createGenericFilter(options, scene),
+        '-t', options.duration.toString(),
+        ...this.encodeArgs(options, 23),
+        '-y',
+        tempVideoPath
+      ], options.signal, options.onLog, { expectedDuration: options.duration, onProgress: progress.pass(0) });
+
+      await this.addTextOverlay(tempVideoPath, outputPath, scene.originalPrompt, options, progress);
+    } finally {
+      await fs.unlink(tempVideoPath).catch(() => {});
+    }
+  }
 
-    await this.addTextOverlay(tempVideoPath, outputPath, scene.originalPrompt, options);
-    await fs.unlink(tempVideoPath).catch(() => {});
+  private hasOverlayText(scene: any): boolean {
+    return scene.keywords.some((k: string) => k.length > 4);
   }
 
   private createNatureFilter(options: VideoGenerationOptions, scene: any): string {
     const { width, height } = this.getResolutionDimensions(options.resolution);
+    const t = this.animationClock(options);
     const speed = scene.motion === 'fast' ? 0.1 : scene.motion === 'slow' ? 0.02 : 0.05;
     
     // Create moving gradient that resembles natural phenomena
     return `color=c=${scene.colors[0]}:s=${width}x${height}[base];` +
            `[base]geq=` +
-           `r='sin(X/20+T*${speed})*127+128':` +
-           `g='sin(Y/30+T*${speed*0.8})*127+128':` +
-           `b='sin((X+Y)/40+T*${speed*1.2})*127+128'[nature];` +
+           `r='sin(X/20+${t}*${speed})*127+128':` +
+           `g='sin(Y/30+${t}*${speed*0.8})*127+128':` +
+           `b='sin((X+Y)/40+${t}*${speed*1.2})*127+128'[nature];` +
            `[nature]noise=alls=10:allf=t+u`;
   }
 
   private createAbstractFilter(options: VideoGenerationOptions, scene: any): string {
     const { width, height } = this.getResolutionDimensions(options.resolution);
+    const t = this.animationClock(options);
     const speed = scene.motion === 'fast' ? 0.2 : scene.motion === 'slow' ? 0.03 : 0.08;
     
     // Create abstract geometric patterns
     return `color=c=black:s=${width}x${height}[base];` +
            `[base]geq=` +
-           `r='if(lt(mod(X+Y+T*${speed*100},60),30),255,0)':` +
-           `g='if(lt(mod(X-Y+T*${speed*80},80),40),255,0)':` +
-           `b='if(lt(mod(X*Y/100+T*${speed*120},100),50),255,0)'[pattern];` +
+           `r='if(lt(mod(X+Y+${t}*${speed*100},60),30),255,0)':` +
+           `g='if(lt(mod(X-Y+${t}*${speed*80},80),40),255,0)':` +
+           `b='if(lt(mod(X*Y/100+${t}*${speed*120},100),50),255,0)'[pattern];` +
            `[pattern]boxblur=2:1`;
   }
 
   private createGenericFilter(options: VideoGenerationOptions, scene: any): string {
     const { width, height } = this.getResolutionDimensions(options.resolution);
+    const t = this.animationClock(options);
     const speed = scene.motion === 'fast' ? 0.15 : scene.motion === 'slow' ? 0.04 : 0.07;
     
     // Create dynamic particle-like effect
     return `color=c=${scene.colors[0]}:s=${width}x${height}[bg];` +
            `[bg]geq=` +
-           `r='sin(sqrt((X-${width/2})*(X-${width/2})+(Y-${height/2})*(Y-${height/2}))/10+T*${speed})*127+128':` +
-           `g='cos(sqrt((X-${width/3})*(X-${width/3})+(Y-${height/3})*(Y-${height/3}))/15+T*${speed*0.7})*127+128':` +
-           `b='sin(sqrt((X-${width*2/3})*(X-${width*2/3})+(Y-${height*2/3})*(Y-${height*2/3}))/12+T*${speed*1.3})*127+128'`;
+           `r='sin(sqrt((X-${width/2})*(X-${width/2})+(Y-${height/2})*(Y-${height/2}))/10+${t}*${speed})*127+128':` +
+           `g='cos(sqrt((X-${width/3})*(X-${width/3})+(Y-${height/3})*(Y-${height/3}))/15+${t}*${speed*0.7})*127+128':` +
+           `b='sin(sqrt((X-${width*2/3})*(X-${width*2/3})+(Y-${height*2/3})*(Y-${height*2/3}))/12+${t}*${speed*1.3})*127+128'`;
   }
 
   private createTextAnimationFilter(text: string, colors: string[], width: number, height: number): string {
@@ -230,7 +270,7 @@ export class FreeVideoGeneratorService {
            `alpha='if(lt(t,1),t,if(gt(t,7),8-t,1))'`;
   }
 
-  private async addTextOverlay(inputPath: string, outputPath: string, text: string, options: VideoGenerationOptions): Promise<void> {
+  private async addTextOverlay(inputPath: string, outputPath: string, text: string, options: VideoGenerationOptions, progress: RenderProgress): Promise<void> {
     const { width } = this.getResolutionDimensions(options.resolution);
     const fontSize = Math.max(16, Math.min(width / 30, 48));
     
@@ -242,10 +282,31 @@ export class FreeVideoGeneratorService {
       '-vf', `drawtext=text='${displayText.replace(/'/g, "\\'")}':` +
              `fontsize=${fontSize}:fontcolor=white:shadowcolor=black:shadowx=2:shadowy=2:` +
              `x=(w-tw)/2:y=h-th-20:alpha=0.9`,
+      ...this.encodeArgs(options, 23),
       '-c:a', 'copy',
       '-y',
       outputPath
-    ]);
+    ], options.signal, options.onLog, { expectedDuration: options.duration, onProgress: progress.pass(1) });
+  }
+
+  // Frame rate and x264 settings; a reference-matched profile replaces the defaults and caps the bitrate
+  private encodeArgs(options: VideoGenerationOptions, defaultCrf: number): string[] {
+    const { profile } = options;
+    return [
+      '-r', (profile?.frameRate ?? 30).toString(),
+      '-c:v', 'libx264',
+      '-preset', 'medium',
+      '-crf', (profile?.crf ?? defaultCrf).toString(),
+      ...(profile ? ['-maxrate', profile.maxBitrate.toString(), '-bufsize', (profile.maxBitrate * 2).toString()] : []),
+      '-pix_fmt', 'yuv420p',
+    ];
+  }
+
+  // The generated patterns' time; with a profile it jumps at every scene boundary, so the picture cuts at the
+  // reference's pace instead of flowing as one shot
+  private animationClock(options: VideoGenerationOptions): string {
+    const scenes = options.profile ? sceneDurations(options.duration, options.profile.shotLength) : [];
+    return scenes.length > 1 ? `(T+${SHOT_JUMP_SECONDS}*floor(T/${scenes[0].toFixed(3)}))` : 'T';
   }
 
   private getResolutionDimensions(resolution: string): { width: number; height: number } {
@@ -257,39 +318,39 @@ export class FreeVideoGeneratorService {
     }
   }
 
-  private async runFFmpegCommand(args: string[]): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const ffmpeg = spawn('ffmpeg', args);
-      
-      ffmpeg.stderr.on('data', (data) => {
+  private async runFFmpegCommand(
+    args: string[],
+    signal?: AbortSignal,
+    onLog?: (line: string) => void,
+    progress?: { expectedDuration: number; onProgress: (progress: FFmpegProgress) => void }
+  ): Promise<void> {
+    await runFFmpeg(args, {
+      signal,
+      expectedDuration: progress?.expectedDuration,
+      onProgress: progress?.onProgress,
+      onLog: (line) => {
         // Log FFmpeg output for debugging
-        console.log(`FFmpeg: ${data}`);
-      });
-      
-      ffmpeg.on('close', (code) => {
-        if (code === 0) {
-          resolve();
-        } else {
-          reject(new Error(`FFmpeg failed with code ${code}`));
-        }
-      });
-      
-      ffmpeg.on('error', (error) => {
-        reject(error);
-      });
+        console.log(`FFmpeg: ${line}`);
+        onLog?.(line);
+      },
     });
   }
 
-  async generateThumbnail(videoPath: string): Promise<string> {
+  async generateThumbnail(videoPath: string, signal?: AbortSignal, onLog?: (line: string) => void): Promise<string> {
     const thumbnailPath = videoPath.replace('.mp4', '_thumb.jpg');
     
-    await this.runFFmpegCommand([
-      '-i', videoPath,
-      '-ss', '1',
-      '-vframes', '1',
-      '-y',
-      thumbnailPath
-    ]);
+    try {
+      await this.runFFmpegCommand([
+        '-i', videoPath,
+        '-ss', '1',
+        '-vframes', '1',
+        '-y',
+        thumbnailPath
+      ], signal, onLog);
+    } catch (error) {
+      await fs.unlink(thumbnailPath).catch(() => {});
+      throw error;
+    }
     
     return thumbnailPath;
   }
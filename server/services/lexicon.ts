@@ -0,0 +1,59 @@
+import { storage } from "../storage";
+import type { LexiconRule } from "@shared/schema";
+import type { SsmlSegment } from "@shared/ssml";
+
+// Characters that end a word in either script; a term only matches between these or the ends of the text
+const BOUNDARY = `\\s.,;:!?"'()\\[\\]{}<>/\\-–—…।`;
+
+export class LexiconService {
+  // The rules a job should use, with a project's own entries taking precedence over the user's general ones
+  async rulesFor(userId: string, projectId?: string): Promise<LexiconRule[]> {
+    const entries = await storage.getLexiconEntries(userId, projectId);
+    const ordered = [...entries.filter(entry => entry.projectId), ...entries.filter(entry => !entry.projectId)];
+    return ordered.map(({ term, pronunciation, format, language }) => ({ term, pronunciation, format, language }));
+  }
+
+  // Rewrites the text of a parsed script: respellings replace the term, IPA turns it into a phoneme hint.
+  // Spans the writer already marked up with say-as or phoneme are left alone.
+  apply(segments: SsmlSegment[], rules: LexiconRule[], language: string): SsmlSegment[] {
+    const byTerm = new Map<string, LexiconRule>();
+    for (const rule of rules) {
+      const key = rule.term.toLowerCase();
+      if ((!rule.language || rule.language === language) && !byTerm.has(key)) byTerm.set(key, rule);
+    }
+    if (byTerm.size === 0) return segments;
+
+    // Longest first, so "New York Times" wins over "New York"
+    const terms = Array.from(byTerm.keys()).sort((a, b) => b.length - a.length).map(escapeRegExp);
+    const pattern = new RegExp(`(^|[${BOUNDARY}])(${terms.join("|")})(?=$|[${BOUNDARY}])`, "gi");
+
+    return segments.flatMap((segment): SsmlSegment[] => {
+      if (segment.type !== "text" || segment.sayAs || segment.phoneme) return [segment];
+
+      const pieces: SsmlSegment[] = [];
+      const pushText = (text: string) => {
+        if (text) pieces.push({ ...segment, text });
+      };
+
+      let position = 0;
+      for (const match of Array.from(segment.text.matchAll(pattern))) {
+        const start = match.index! + match[1].length;
+        pushText(segment.text.slice(position, start));
+        position = start + match[2].length;
+
+        const rule = byTerm.get(match[2].toLowerCase())!;
+        pieces.push(rule.format === "ipa"
+          ? { ...segment, text: match[2], phoneme: { alphabet: "ipa", ph: rule.pronunciation } }
+          : { ...segment, text: rule.pronunciation });
+      }
+      pushText(segment.text.slice(position));
+      return pieces;
+    });
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export const lexiconService = new LexiconService();
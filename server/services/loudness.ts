@@ -0,0 +1,108 @@
+import fs from "fs/promises";
+import type { LoudnessReport, LoudnessStats, LoudnessTarget } from "@shared/schema";
+import { runFFmpeg, type FFmpegRunOptions } from "./ffmpeg-runner";
+
+export const LOUDNESS_TARGETS: Record<LoudnessTarget, { integrated: number; truePeak: number; lra: number }> = {
+  youtube: { integrated: -14, truePeak: -1, lra: 11 },
+  broadcast: { integrated: -23, truePeak: -1, lra: 15 }, // EBU R128
+  podcast: { integrated: -16, truePeak: -1.5, lra: 11 },
+};
+
+const OUTPUT_SAMPLE_RATE = 48000;
+
+interface LoudnormMeasurement extends LoudnessStats {
+  threshold: number;
+  offset: number;
+}
+
+// Two-pass EBU R128 normalisation: measure the whole programme first, then apply one linear gain so dynamics survive.
+// Writes outputFile with the given codec arguments; silent input is copied through unchanged and reports null.
+export async function masterLoudness(
+  inputFile: string,
+  outputFile: string,
+  target: LoudnessTarget,
+  outputArgs: string[],
+  run: FFmpegRunOptions = {}
+): Promise<LoudnessReport | null> {
+  const goal = LOUDNESS_TARGETS[target];
+  const base = `loudnorm=I=${goal.integrated}:TP=${goal.truePeak}:LRA=${goal.lra}`;
+  // Each pass covers half of the reported progress
+  const half = (offset: number): FFmpegRunOptions["onProgress"] =>
+    run.onProgress && ((progress) => run.onProgress?.({ ...progress, percent: offset + progress.percent / 2 }));
+
+  const firstPass = await runLoudnorm([
+    "-i", inputFile,
+    "-af", `${base}:print_format=json`,
+    "-vn",
+    "-f", "null",
+    "-"
+  ], { ...run, onProgress: half(0) });
+  const measured = toMeasurement(firstPass);
+
+  // Silence measures as -inf, and there is no gain that fixes that
+  if (!measured) {
+    await fs.copyFile(inputFile, outputFile);
+    return null;
+  }
+
+  const secondPass = await runLoudnorm([
+    "-i", inputFile,
+    "-af", `${base}:measured_I=${measured.integrated}:measured_TP=${measured.truePeak}:measured_LRA=${measured.lra}` +
+      `:measured_thresh=${measured.threshold}:offset=${measured.offset}:linear=true:print_format=json,aresample=${OUTPUT_SAMPLE_RATE}`,
+    ...outputArgs,
+    "-y", outputFile
+  ], { ...run, onProgress: half(50) });
+
+  return {
+    target,
+    input: { integrated: measured.integrated, truePeak: measured.truePeak, lra: measured.lra },
+    output: {
+      integrated: parseFloat(secondPass.output_i),
+      truePeak: parseFloat(secondPass.output_tp),
+      lra: parseFloat(secondPass.output_lra),
+    },
+  };
+}
+
+// The first pass on its own, for files that are only being inspected; null when the audio is silent
+export async function measureLoudness(inputFile: string, run: FFmpegRunOptions = {}): Promise<LoudnessStats | null> {
+  const summary = await runLoudnorm([
+    "-i", inputFile,
+    "-af", "loudnorm=print_format=json",
+    "-vn",
+    "-f", "null",
+    "-"
+  ], run);
+  const measured = toMeasurement(summary);
+  return measured && { integrated: measured.integrated, truePeak: measured.truePeak, lra: measured.lra };
+}
+
+// Runs ffmpeg and returns the JSON summary loudnorm prints to stderr when it finishes
+async function runLoudnorm(args: string[], run: FFmpegRunOptions): Promise<Record<string, string>> {
+  const lines: string[] = [];
+  await runFFmpeg(args, {
+    ...run,
+    onLog: (line) => {
+      lines.push(line.trim());
+      run.onLog?.(line);
+    },
+  });
+
+  const start = lines.lastIndexOf("{");
+  const end = lines.lastIndexOf("}");
+  if (start === -1 || end < start) {
+    throw new Error("ffmpeg did not report loudnorm measurements");
+  }
+  return JSON.parse(lines.slice(start, end + 1).join("\n"));
+}
+
+function toMeasurement(summary: Record<string, string>): LoudnormMeasurement | null {
+  const measurement = {
+    integrated: parseFloat(summary.input_i),
+    truePeak: parseFloat(summary.input_tp),
+    lra: parseFloat(summary.input_lra),
+    threshold: parseFloat(summary.input_thresh),
+    offset: parseFloat(summary.target_offset),
+  };
+  return Object.values(measurement).every(Number.isFinite) ? measurement : null;
+}
@@ -0,0 +1,81 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { cardinalWords, digitWords, ordinalWords, yearWords, type HindiOrdinalForm } from "./number-words";
+
+describe("cardinalWords", () => {
+  const cases: [string, string, string][] = [
+    ["0", "en", "zero"],
+    ["13", "en", "thirteen"],
+    ["42", "en", "forty-two"],
+    ["105", "en", "one hundred five"],
+    ["1,250.75", "en", "one thousand two hundred fifty point seven five"],
+    ["1000000", "en", "one million"],
+    ["123456789", "en", "one hundred twenty-three million four hundred fifty-six thousand seven hundred eighty-nine"],
+    ["-7", "en", "minus seven"],
+    ["1234567890123456", "en", "one two three four five six seven eight nine zero one two three four five six"],
+    ["0", "hi", "शून्य"],
+    ["42", "hi", "बयालीस"],
+    ["500", "hi", "पाँच सौ"],
+    ["12,50,000", "hi", "बारह लाख पचास हज़ार"],
+    ["100000000", "hi", "दस करोड़"],
+    ["-0.5", "hi", "माइनस शून्य दशमलव पाँच"],
+  ];
+  for (const [number, language, expected] of cases) {
+    it(`reads ${number} in ${language}`, () => {
+      assert.equal(cardinalWords(number, language), expected);
+    });
+  }
+});
+
+describe("digitWords", () => {
+  const cases: [string, string, string][] = [
+    ["0451", "en", "zero four five one"],
+    ["0451", "hi", "शून्य चार पाँच एक"],
+  ];
+  for (const [digits, language, expected] of cases) {
+    it(`spells ${digits} in ${language}`, () => {
+      assert.equal(digitWords(digits, language), expected);
+    });
+  }
+});
+
+describe("ordinalWords", () => {
+  const cases: [number, string, HindiOrdinalForm | undefined, string][] = [
+    [1, "en", undefined, "first"],
+    [2, "en", undefined, "second"],
+    [3, "en", undefined, "third"],
+    [12, "en", undefined, "twelfth"],
+    [20, "en", undefined, "twentieth"],
+    [101, "en", undefined, "one hundred first"],
+    [1, "hi", undefined, "पहला"],
+    [1, "hi", "feminine", "पहली"],
+    [4, "hi", "oblique", "चौथे"],
+    [5, "hi", undefined, "पाँचवाँ"],
+    [7, "hi", "feminine", "सातवीं"],
+  ];
+  for (const [value, language, form, expected] of cases) {
+    it(`reads ${value} as an ordinal in ${language}${form ? ` (${form})` : ""}`, () => {
+      assert.equal(ordinalWords(value, language, form), expected);
+    });
+  }
+});
+
+describe("yearWords", () => {
+  const cases: [number, string, string][] = [
+    [1999, "en", "nineteen ninety-nine"],
+    [1905, "en", "nineteen oh five"],
+    [1900, "en", "nineteen hundred"],
+    [2000, "en", "two thousand"],
+    [2005, "en", "two thousand five"],
+    [2010, "en", "twenty ten"],
+    [1066, "en", "one thousand sixty-six"],
+    [1999, "hi", "उन्नीस सौ निन्यानवे"],
+    [1900, "hi", "उन्नीस सौ"],
+    [2024, "hi", "दो हज़ार चौबीस"],
+  ];
+  for (const [year, language, expected] of cases) {
+    it(`reads ${year} in ${language}`, () => {
+      assert.equal(yearWords(year, language), expected);
+    });
+  }
+});
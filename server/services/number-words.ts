@@ -0,0 +1,125 @@
+// Spoken forms of numbers for the languages the voices cover; other languages keep their digits for the engine to read
+export const NUMBER_LANGUAGES = new Set(["en", "hi"]);
+
+const EN_ONES = ["zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten", "eleven", "twelve",
+  "thirteen", "fourteen", "fifteen", "sixteen", "seventeen", "eighteen", "nineteen"];
+const EN_TENS = ["", "", "twenty", "thirty", "forty", "fifty", "sixty", "seventy", "eighty", "ninety"];
+const EN_SCALES = ["", "thousand", "million", "billion", "trillion"];
+const EN_IRREGULAR_ORDINALS: Record<string, string> = {
+  one: "first", two: "second", three: "third", five: "fifth", eight: "eighth", nine: "ninth", twelve: "twelfth",
+};
+
+// Hindi has a distinct word for every number below a hundred
+const HI_BELOW_HUNDRED = [
+  "शून्य", "एक", "दो", "तीन", "चार", "पाँच", "छह", "सात", "आठ", "नौ",
+  "दस", "ग्यारह", "बारह", "तेरह", "चौदह", "पंद्रह", "सोलह", "सत्रह", "अठारह", "उन्नीस",
+  "बीस", "इक्कीस", "बाईस", "तेईस", "चौबीस", "पच्चीस", "छब्बीस", "सत्ताईस", "अट्ठाईस", "उनतीस",
+  "तीस", "इकतीस", "बत्तीस", "तैंतीस", "चौंतीस", "पैंतीस", "छत्तीस", "सैंतीस", "अड़तीस", "उनतालीस",
+  "चालीस", "इकतालीस", "बयालीस", "तैंतालीस", "चवालीस", "पैंतालीस", "छियालीस", "सैंतालीस", "अड़तालीस", "उनचास",
+  "पचास", "इक्यावन", "बावन", "तिरपन", "चौवन", "पचपन", "छप्पन", "सत्तावन", "अट्ठावन", "उनसठ",
+  "साठ", "इकसठ", "बासठ", "तिरसठ", "चौंसठ", "पैंसठ", "छियासठ", "सड़सठ", "अड़सठ", "उनहत्तर",
+  "सत्तर", "इकहत्तर", "बहत्तर", "तिहत्तर", "चौहत्तर", "पचहत्तर", "छिहत्तर", "सतहत्तर", "अठहत्तर", "उन्यासी",
+  "अस्सी", "इक्यासी", "बयासी", "तिरासी", "चौरासी", "पचासी", "छियासी", "सत्तासी", "अट्ठासी", "नवासी",
+  "नब्बे", "इक्यानवे", "बानवे", "तिरानवे", "चौरानवे", "पचानवे", "छियानवे", "सत्तानवे", "अट्ठानवे", "निन्यानवे",
+];
+// Indian grouping: crore (10^7), lakh (10^5), thousand, hundred
+const HI_SCALES: [number, string][] = [[10000000, "करोड़"], [100000, "लाख"], [1000, "हज़ार"], [100, "सौ"]];
+const HI_IRREGULAR_ORDINALS: Record<number, string> = { 1: "पहला", 2: "दूसरा", 3: "तीसरा", 4: "चौथा", 6: "छठा" };
+
+// Grammatical form of a Hindi ordinal: masculine (पहला), feminine (पहली) or oblique/plural (पहले)
+export type HindiOrdinalForm = "masculine" | "feminine" | "oblique";
+
+export const MONTH_NAMES: Record<string, string[]> = {
+  en: ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"],
+  hi: ["जनवरी", "फ़रवरी", "मार्च", "अप्रैल", "मई", "जून", "जुलाई", "अगस्त", "सितंबर", "अक्टूबर", "नवंबर", "दिसंबर"],
+};
+
+const POINT: Record<string, string> = { en: "point", hi: "दशमलव" };
+const MINUS: Record<string, string> = { en: "minus", hi: "माइनस" };
+
+// A written number such as "-1,250.75" or "12,50,000" (Indian grouping) read as a whole
+export function cardinalWords(number: string, language: string): string {
+  const [whole, fraction] = number.replace(/,/g, "").split(".");
+  const negative = whole.startsWith("-");
+  const digits = whole.replace(/^[-+]/, "") || "0";
+  // Beyond what the scales name, reading the digits one by one is clearer
+  const words = digits.length > 15 ? digitWords(digits, language) : integerWords(Number(digits), language);
+  const decimals = fraction ? ` ${POINT[language] ?? POINT.en} ${digitWords(fraction, language)}` : "";
+  return `${negative ? `${MINUS[language] ?? MINUS.en} ` : ""}${words}${decimals}`;
+}
+
+export function integerWords(value: number, language: string): string {
+  return language === "hi" ? hindiWords(value) : englishWords(value);
+}
+
+// Each digit named separately, as for phone numbers and codes
+export function digitWords(digits: string, language: string): string {
+  return Array.from(digits.replace(/\D/g, "")).map(digit => integerWords(Number(digit), language)).join(" ");
+}
+
+export function ordinalWords(value: number, language: string, form: HindiOrdinalForm = "masculine"): string {
+  if (language === "hi") return hindiOrdinal(value, form);
+
+  // Only the last word takes the ordinal ending: "twenty-one" becomes "twenty-first"
+  return englishWords(value).replace(/[a-z]+$/, (last) => {
+    if (EN_IRREGULAR_ORDINALS[last]) return EN_IRREGULAR_ORDINALS[last];
+    if (last.endsWith("y")) return `${last.slice(0, -1)}ieth`;
+    return `${last}th`;
+  });
+}
+
+// Years are read in pairs where people do: "nineteen ninety-nine", "उन्नीस सौ निन्यानवे", but "two thousand five"
+export function yearWords(year: number, language: string): string {
+  const [century, rest] = [Math.floor(year / 100), year % 100];
+  if (language === "hi") {
+    return year >= 1100 && year < 2000 ? `${hindiWords(century)} सौ${rest ? ` ${hindiWords(rest)}` : ""}` : hindiWords(year);
+  }
+  if (year < 1100 || year % 1000 < 10 || (year >= 2000 && year < 2010)) return englishWords(year);
+  if (rest === 0) return `${englishWords(century)} hundred`;
+  return `${englishWords(century)} ${rest < 10 ? `oh ${EN_ONES[rest]}` : englishWords(rest)}`;
+}
+
+function englishWords(value: number): string {
+  if (value < 20) return EN_ONES[value];
+
+  const groups: string[] = [];
+  for (let scale = 0; value > 0; scale++, value = Math.floor(value / 1000)) {
+    const group = value % 1000;
+    if (group === 0) continue;
+    groups.unshift(`${englishHundreds(group)}${EN_SCALES[scale] ? ` ${EN_SCALES[scale]}` : ""}`);
+  }
+  return groups.join(" ");
+}
+
+function englishHundreds(value: number): string {
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  const parts: string[] = [];
+  if (hundreds) parts.push(`${EN_ONES[hundreds]} hundred`);
+  if (rest >= 20) parts.push(`${EN_TENS[Math.floor(rest / 10)]}${rest % 10 ? `-${EN_ONES[rest % 10]}` : ""}`);
+  else if (rest || !hundreds) parts.push(EN_ONES[rest]);
+  return parts.join(" ");
+}
+
+function hindiWords(value: number): string {
+  if (value < 100) return HI_BELOW_HUNDRED[value];
+
+  const parts: string[] = [];
+  for (const [size, name] of HI_SCALES) {
+    const count = Math.floor(value / size);
+    if (count > 0) {
+      // Crores can run past a hundred, and are then counted in words themselves: "सौ करोड़"
+      parts.push(`${hindiWords(count)} ${name}`);
+      value %= size;
+    }
+  }
+  if (value > 0) parts.push(HI_BELOW_HUNDRED[value]);
+  return parts.join(" ");
+}
+
+function hindiOrdinal(value: number, form: HindiOrdinalForm): string {
+  const masculine = HI_IRREGULAR_ORDINALS[value] ?? `${hindiWords(value)}वाँ`;
+  if (form === "masculine") return masculine;
+  if (masculine.endsWith("वाँ")) return `${masculine.slice(0, -"वाँ".length)}${form === "feminine" ? "वीं" : "वें"}`;
+  return `${masculine.slice(0, -1)}${form === "feminine" ? "ी" : "े"}`;
+}
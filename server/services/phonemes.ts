@@ -0,0 +1,47 @@
+import type { Phoneme } from "@shared/ssml";
+
+// X-SAMPA is the ASCII transcription of IPA; longer symbols are listed first so "tS" wins over "t" then "S"
+const XSAMPA_TO_IPA: [string, string][] = [
+  ["r\\`", "ɻ"], ["h\\", "ɦ"], ["r\\", "ɹ"], ["@`", "ɚ"], ["tS", "tʃ"], ["dZ", "dʒ"], ["_h", "ʰ"],
+  ["r`", "ɽ"], ["t`", "ʈ"], ["d`", "ɖ"], ["n`", "ɳ"], ["s`", "ʂ"], ["l`", "ɭ"],
+  ["{", "æ"], ["@", "ə"], ["A", "ɑ"], ["E", "ɛ"], ["I", "ɪ"], ["O", "ɔ"], ["U", "ʊ"], ["V", "ʌ"], ["Q", "ɒ"],
+  ["3", "ɜ"], ["6", "ɐ"], ["1", "ɨ"], ["}", "ʉ"], ["2", "ø"], ["9", "œ"], ["M", "ɯ"],
+  ["S", "ʃ"], ["Z", "ʒ"], ["T", "θ"], ["D", "ð"], ["N", "ŋ"], ["J", "ɲ"], ["G", "ɣ"], ["R", "ʁ"], ["X", "χ"],
+  ["4", "ɾ"], ["?", "ʔ"], ["\"", "ˈ"], ["%", "ˌ"], [":", "ː"], ["~", "̃"], ["g", "ɡ"],
+];
+
+// eSpeak's own phoneme mnemonics, as accepted between [[ and ]] in its input text
+const IPA_TO_ESPEAK: [string, string][] = [
+  ["aɪ", "aI"], ["aʊ", "aU"], ["eɪ", "eI"], ["ɔɪ", "OI"], ["oʊ", "oU"], ["əʊ", "oU"], ["tʃ", "tS"], ["dʒ", "dZ"],
+  ["ɑː", "A:"], ["ɔː", "O:"], ["ɜː", "3:"], ["iː", "i:"], ["uː", "u:"],
+  ["ˈ", "'"], ["ˌ", ","], ["ː", ":"], ["ə", "@"], ["ɚ", "3"], ["æ", "a"], ["ɑ", "A:"], ["ɒ", "0"], ["ɔ", "O"],
+  ["ɛ", "E"], ["ɪ", "I"], ["ʊ", "U"], ["ʌ", "V"], ["ɜ", "3"], ["ɐ", "a#"],
+  ["ʃ", "S"], ["ʒ", "Z"], ["θ", "T"], ["ð", "D"], ["ŋ", "N"], ["ɹ", "r"], ["ɾ", "*"], ["ɡ", "g"], ["ʔ", "?"],
+  ["ɲ", "n^"], ["ʈ", "t."], ["ɖ", "d."], ["ɳ", "n."], ["ɽ", "r."], ["ʂ", "s."], ["ɭ", "l."], ["ɦ", "h"], ["ʰ", "#"],
+  ["̃", "~"],
+];
+
+export function toIpa(phoneme: Phoneme): string {
+  return phoneme.alphabet === "ipa" ? phoneme.ph : replaceSymbols(phoneme.ph, XSAMPA_TO_IPA);
+}
+
+// Symbols eSpeak has no mnemonic for are dropped rather than read out as letters
+export function ipaToEspeak(ipa: string): string {
+  return replaceSymbols(ipa.normalize("NFD"), IPA_TO_ESPEAK).replace(/[^\x20-\x7e]/g, "");
+}
+
+function replaceSymbols(input: string, table: [string, string][]): string {
+  let output = "";
+  let position = 0;
+  while (position < input.length) {
+    const entry = table.find(([from]) => input.startsWith(from, position));
+    if (entry) {
+      output += entry[1];
+      position += entry[0].length;
+    } else {
+      output += input[position];
+      position++;
+    }
+  }
+  return output;
+}
@@ -1,8 +1,10 @@
-import { spawn } from "child_process";
 import fs from "fs/promises";
 import path from "path";
-import { VideoProject } from "@shared/schema";
+import { VideoProject, type LoudnessReport, type LoudnessTarget } from "@shared/schema";
 import { freeTTSService } from "./free-tts";
+import { runFFmpeg, RenderProgress, type FFmpegRunOptions, type RenderProgressUpdate } from "./ffmpeg-runner";
+import { audioMixerService } from "./audio-mixer";
+import { masterLoudness } from "./loudness";
 
 export interface PremiumVideoOptions {
   quality: "ultra" | "professional" | "broadcast";
@@ -10,10 +12,20 @@ export interface PremiumVideoOptions {
   frameRate: 24 | 30 | 60;
   bitrate: string; // e.g., "20M", "50M"
   colorSpace: "rec709" | "rec2020" | "dci-p3";
+  loudnessTarget?: LoudnessTarget; // defaults to broadcast for broadcast quality, youtube otherwise
   hdr: boolean;
   audioQuality: "lossless" | "high" | "standard";
 }
 
+export interface PremiumRenderHooks {
+  signal?: AbortSignal;
+  onLog?: (line: string) => void;
+  onProgress?: (update: RenderProgressUpdate) => void; // progress across the five video passes
+}
+
+// Video passes reported through onProgress: base, grading, motion graphics, compositing and mastering
+const PREMIUM_VIDEO_PASSES = 5;
+
 export class PremiumVideoGeneratorService {
   private qualityPresets = {
     ultra: {
@@ -50,42 +62,54 @@ export class PremiumVideoGeneratorService {
 
   async generatePremiumVideo(
     project: VideoProject,
-    options: PremiumVideoOptions
+    options: PremiumVideoOptions,
+    hooks: PremiumRenderHooks = {}
   ): Promise<{
     videoPath: string;
     audioPath: string;
     processingSteps: string[];
     qualityMetrics: any;
+    loudness: LoudnessReport | null;
   }> {
     const processingSteps: string[] = [];
     const workDir = path.join(process.cwd(), "temp", `premium_${project.id}`);
+    const duration = project.duration || 10;
+    const progress = new RenderProgress(PREMIUM_VIDEO_PASSES, hooks.onProgress);
+    const pass = (index: number): FFmpegRunOptions => ({
+      signal: hooks.signal,
+      onLog: hooks.onLog,
+      expectedDuration: duration,
+      onProgress: progress.pass(index),
+    });
     
     try {
       await fs.mkdir(workDir, { recursive: true });
       processingSteps.push("Created premium processing workspace");
 
       // Step 1: Generate ultra-high-quality voice
-      const audioPath = await this.generatePremiumAudio(project, workDir);
+      const audioPath = await this.generatePremiumAudio(project, workDir, hooks);
       processingSteps.push("Generated premium multi-language audio");
 
       // Step 2: Create video using advanced techniques
-      const videoPath = await this.generateAdvancedVideo(project, workDir, options);
+      const videoPath = await this.generateAdvancedVideo(project, workDir, options, pass(0));
       processingSteps.push("Generated advanced video with professional techniques");
 
       // Step 3: Apply cinema-grade color grading
-      const gradedVideoPath = await this.applyCinemaGrading(videoPath, workDir, options);
+      const gradedVideoPath = await this.applyCinemaGrading(videoPath, workDir, options, pass(1));
       processingSteps.push("Applied cinema-grade color grading");
 
       // Step 4: Add professional motion graphics
-      const motionVideoPath = await this.addMotionGraphics(gradedVideoPath, workDir);
+      const motionVideoPath = await this.addMotionGraphics(gradedVideoPath, workDir, pass(2));
       processingSteps.push("Added professional motion graphics");
 
-      // Step 5: Composite with advanced techniques
-      const compositedPath = await this.advancedCompositing(motionVideoPath, audioPath, workDir, options);
+      // Step 5: Composite with advanced techniques, mixing in the project's background music
+      const musicFile = await audioMixerService.resolveTrack(project.settings?.audio?.bgmTrack);
+      const music = musicFile ? { file: musicFile, volume: project.settings?.audio?.bgmVolume ?? 30 } : null;
+      const compositedPath = await this.advancedCompositing(motionVideoPath, audioPath, music, workDir, duration, options, pass(3));
       processingSteps.push("Applied advanced compositing techniques");
 
       // Step 6: Final professional mastering
-      const masteredPath = await this.masterVideo(compositedPath, workDir, options);
+      const { outputPath: masteredPath, loudness } = await this.masterVideo(compositedPath, workDir, options, pass(4));
       processingSteps.push("Applied professional video mastering");
 
       const qualityMetrics = await this.analyzeVideoQuality(masteredPath);
@@ -95,14 +119,16 @@ export class PremiumVideoGeneratorService {
         audioPath,
         processingSteps,
         qualityMetrics,
+        loudness,
       };
 
     } catch (error) {
+      if (hooks.signal?.aborted) throw error;
       throw new Error(`Premium video generation failed: ${error}`);
     }
   }
 
-  private async generatePremiumAudio(project: VideoProject, workDir: string): Promise<string> {
+  private async generatePremiumAudio(project: VideoProject, workDir: string, hooks: PremiumRenderHooks): Promise<string> {
     const audioPath = path.join(workDir, "premium_audio.wav");
     
     // Generate high-quality multilingual audio
@@ -114,6 +140,7 @@ export class PremiumVideoGeneratorService {
       speed: project.settings?.voice?.speed || 1.0,
       pitch: project.settings?.voice?.pitch || 0,
       volume: 1.0,
+      signal: hooks.signal,
     });
 
     await fs.writeFile(audioPath, audioBuffer);
@@ -127,7 +154,7 @@ export class PremiumVideoGeneratorService {
       "-ac", "2",
       "-sample_fmt", "s24",
       "-y", enhancedPath
-    ]);
+    ], { signal: hooks.signal, onLog: hooks.onLog });
 
     return enhancedPath;
   }
@@ -135,7 +162,8 @@ export class PremiumVideoGeneratorService {
   private async generateAdvancedVideo(
     project: VideoProject,
     workDir: string,
-    options: PremiumVideoOptions
+    options: PremiumVideoOptions,
+    run: FFmpegRunOptions
   ): Promise<string> {
     const videoPath = path.join(workDir, "base_video.mp4");
     
@@ -164,7 +192,7 @@ export class PremiumVideoGeneratorService {
       "-tune", "film",
       "-movflags", "+faststart",
       "-y", videoPath
-    ]);
+    ], run);
 
     return videoPath;
   }
@@ -172,7 +200,8 @@ export class PremiumVideoGeneratorService {
   private async applyCinemaGrading(
     inputPath: string,
     workDir: string,
-    options: PremiumVideoOptions
+    options: PremiumVideoOptions,
+    run: FFmpegRunOptions
   ): Promise<string> {
     const outputPath = path.join(workDir, "graded_video.mp4");
 
@@ -197,12 +226,12 @@ export class PremiumVideoGeneratorService {
       "-crf", "15",
       "-preset", "slow",
       "-y", outputPath
-    ]);
+    ], run);
 
     return outputPath;
   }
 
-  private async addMotionGraphics(inputPath: string, workDir: string): Promise<string> {
+  private async addMotionGraphics(inputPath: string, workDir: string, run: FFmpegRunOptions): Promise<string> {
     const outputPath = path.join(workDir, "motion_video.mp4");
 
     // Add professional motion graphics and effects
@@ -217,7 +246,7 @@ export class PremiumVideoGeneratorService {
       "-crf", "15",
       "-preset", "slow",
       "-y", outputPath
-    ]);
+    ], run);
 
     return outputPath;
   }
@@ -225,21 +254,33 @@ export class PremiumVideoGeneratorService {
   private async advancedCompositing(
     videoPath: string,
     audioPath: string,
+    music: { file: string; volume: number } | null,
     workDir: string,
-    options: PremiumVideoOptions
+    duration: number,
+    options: PremiumVideoOptions,
+    run: FFmpegRunOptions
   ): Promise<string> {
     const outputPath = path.join(workDir, "composited_video.mp4");
+    const audioMix = music
+      ? [
+          ...audioMixerService.musicInput(music.file),
+          "-filter_complex", audioMixerService.mixFilter("1:a", "2:a", { volume: music.volume, duration }),
+          "-map", "0:v",
+          "-map", "[mix]",
+        ]
+      : [];
 
     // Advanced audio-video compositing
     await this.runFFmpeg([
       "-i", videoPath,
       "-i", audioPath,
+      ...audioMix,
       "-c:v", "libx264",
       "-c:a", "aac",
       "-b:a", options.audioQuality === "lossless" ? "320k" : "256k",
       "-shortest",
       "-y", outputPath
-    ]);
+    ], run);
 
     return outputPath;
   }
@@ -247,14 +288,15 @@ export class PremiumVideoGeneratorService {
   private async masterVideo(
     inputPath: string,
     workDir: string,
-    options: PremiumVideoOptions
-  ): Promise<string> {
+    options: PremiumVideoOptions,
+    run: FFmpegRunOptions
+  ): Promise<{ outputPath: string; loudness: LoudnessReport | null }> {
     const outputPath = path.join(workDir, "mastered_video.mp4");
     const preset = this.qualityPresets[options.quality];
+    const target = options.loudnessTarget ?? (options.quality === "broadcast" ? "broadcast" : "youtube");
 
-    // Final professional mastering
-    await this.runFFmpeg([
-      "-i", inputPath,
+    // Final professional mastering; the audio is brought to the loudness target in the same encode
+    const outputArgs = [
       "-c:v", "libx264",
       "-profile:v", "high",
       "-level", "5.1",
@@ -269,10 +311,16 @@ export class PremiumVideoGeneratorService {
       "-ar", "48000",
       "-ac", "2",
       "-movflags", "+faststart",
-      "-y", outputPath
-    ]);
+    ];
 
-    return outputPath;
+    try {
+      const loudness = await masterLoudness(inputPath, outputPath, target, outputArgs, run);
+      return { outputPath, loudness };
+    } catch (error) {
+      if (run.signal?.aborted) throw error;
+      console.warn("FFmpeg warning:", error instanceof Error ? error.message : error);
+      return { outputPath, loudness: null };
+    }
   }
 
   private async analyzeVideoQuality(videoPath: string): Promise<any> {
@@ -301,29 +349,14 @@ export class PremiumVideoGeneratorService {
     }
   }
 
-  private async runFFmpeg(args: string[]): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const ffmpeg = spawn('ffmpeg', args);
-      
-      let errorOutput = "";
-      ffmpeg.stderr.on('data', (data) => {
-        errorOutput += data.toString();
-      });
-
-      ffmpeg.on('close', (code) => {
-        if (code === 0) {
-          resolve();
-        } else {
-          console.warn("FFmpeg warning:", errorOutput);
-          resolve(); // Continue processing even with warnings
-        }
-      });
-
-      ffmpeg.on('error', (error) => {
-        console.warn("FFmpeg not available, using fallback");
-        resolve(); // Graceful fallback
-      });
-    });
+  private async runFFmpeg(args: string[], run: FFmpegRunOptions): Promise<void> {
+    try {
+      await runFFmpeg(args, run);
+    } catch (error) {
+      if (run.signal?.aborted) throw error;
+      // Continue processing even with warnings, or fall back gracefully when ffmpeg is missing
+      console.warn("FFmpeg warning:", error instanceof Error ? error.message : error);
+    }
   }
 
   async getInstallationGuide(): Promise<string> {
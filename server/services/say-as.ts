@@ -0,0 +1,59 @@
+import type { SayAs } from "@shared/ssml";
+import { cardinalWords, digitWords, MONTH_NAMES, NUMBER_LANGUAGES, ordinalWords, yearWords } from "./number-words";
+
+const PLUS: Record<string, string> = { en: "plus", hi: "प्लस" };
+
+// Rewrites a <say-as> span into words the engine will read the intended way
+export function expandSayAs(text: string, sayAs: SayAs, language: string): string {
+  if (sayAs.interpretAs !== "characters" && !NUMBER_LANGUAGES.has(language)) return text;
+
+  switch (sayAs.interpretAs) {
+    case "characters":
+      return Array.from(text.replace(/\s+/g, "")).join(" ");
+    case "digits":
+      return digitWords(text, language);
+    case "telephone":
+      // Commas between groups give the engine the pauses a person reading a number would leave
+      return text.split(/[^\d+]+/).filter(Boolean)
+        .map(group => `${group.startsWith("+") ? `${PLUS[language] ?? PLUS.en} ` : ""}${digitWords(group, language)}`)
+        .join(", ");
+    case "cardinal":
+      return text.replace(/-?\d[\d,]*(?:\.\d+)?/g, number => cardinalWords(number, language));
+    case "ordinal":
+      return text.replace(/(\d[\d,]*)(?:st|nd|rd|th)?/gi, (_, number: string) => ordinalWords(Number(number.replace(/,/g, "")), language));
+    case "date":
+      return expandDate(text, sayAs.format ?? (language === "en" ? "mdy" : "dmy"), language) ?? text;
+  }
+}
+
+// The format names the order of the fields present, e.g. "mdy", "dmy", "ymd", "md" or "y"
+export function expandDate(text: string, format: string, language: string): string | null {
+  const fields = text.trim().split(/[\/.\-\s]+/);
+  if (!/^[dmy]{1,3}$/.test(format) || fields.length !== format.length || fields.some(field => !/^\d+$/.test(field))) {
+    return null;
+  }
+
+  const value = (key: string) => {
+    const index = format.indexOf(key);
+    return index === -1 ? undefined : Number(fields[index]);
+  };
+  const day = value("d");
+  const month = value("m");
+  let year = value("y");
+  if (year !== undefined && fields[format.indexOf("y")].length === 2) year += 2000;
+  if ((month !== undefined && (month < 1 || month > 12)) || (day !== undefined && (day < 1 || day > 31))) return null;
+
+  const monthName = month !== undefined ? (MONTH_NAMES[language] ?? MONTH_NAMES.en)[month - 1] : undefined;
+  const yearPart = year !== undefined ? yearWords(year, language) : undefined;
+
+  // Hindi reads dates day first with a plain number: "पंद्रह अगस्त उन्नीस सौ सैंतालीस"
+  if (language === "hi") {
+    return [day !== undefined ? cardinalWords(String(day), language) : undefined, monthName, yearPart].filter(Boolean).join(" ");
+  }
+  const dayWords = day !== undefined ? ordinalWords(day, language) : undefined;
+  if (monthName && dayWords) {
+    const dayMonth = format.indexOf("d") < format.indexOf("m") ? `the ${dayWords} of ${monthName}` : `${monthName} ${dayWords}`;
+    return `${dayMonth}${yearPart ? `, ${yearPart}` : ""}`;
+  }
+  return [dayWords && `the ${dayWords}`, monthName, yearPart].filter(Boolean).join(" ");
+}
@@ -0,0 +1,207 @@
+import { randomUUID } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { NEUTRAL_PROSODY, type Prosody, type SsmlSegment } from "@shared/ssml";
+import { runFFmpeg } from "./ffmpeg-runner";
+import { toIpa } from "./phonemes";
+import { expandSayAs } from "./say-as";
+import { ttsCache } from "./tts-cache";
+import { ttsRegistry, type ResolvedVoice } from "./tts-registry";
+
+const TEMP_DIR = path.join(process.cwd(), "temp");
+const SAMPLE_RATE = 44100;
+
+export type SpeechPart =
+  | { type: "speech"; text: string; prosody: Prosody }
+  | { type: "break"; seconds: number };
+
+export interface SpeechPlan {
+  parts: SpeechPart[];
+  ignoredPhonemes: boolean; // a <phoneme> was spoken as its written text because the engine can't take phonemes
+}
+
+export interface ScriptSettings {
+  speed: number;
+  pitch: number; // semitones
+  volume: number; // 0-1
+  signal?: AbortSignal;
+}
+
+// What each engine applies itself; the rest of a part's prosody is approximated with ffmpeg afterwards
+export interface NativeProsody {
+  rate: boolean;
+  pitch: boolean;
+}
+
+// Turns parsed markup into the runs of text one engine call can say: say-as spans are expanded, phonemes become
+// the engine's own markup where it has one, and neighbouring text with the same prosody is merged into one call
+export function planSpeech(segments: SsmlSegment[], language: string, phonemeMarkup?: (ipa: string) => string): SpeechPlan {
+  const parts: SpeechPart[] = [];
+  let ignoredPhonemes = false;
+
+  for (const segment of segments) {
+    if (segment.type === "break") {
+      const previous = parts[parts.length - 1];
+      if (previous?.type === "break") previous.seconds += segment.seconds;
+      else if (segment.seconds > 0) parts.push({ ...segment });
+      continue;
+    }
+
+    let text = segment.text;
+    if (segment.phoneme) {
+      if (phonemeMarkup) text = phonemeMarkup(toIpa(segment.phoneme));
+      else ignoredPhonemes = true;
+    } else if (segment.sayAs) {
+      text = expandSayAs(text, segment.sayAs, language);
+    }
+
+    // Punctuation between two marked-up spans isn't worth an engine call of its own, whatever its prosody
+    const previous = parts[parts.length - 1];
+    const wordless = /^[\s.,;:!?'"()\-–—…।]*$/.test(text);
+    if (wordless && previous?.type !== "speech") continue;
+    if (previous?.type === "speech" && (wordless || sameProsody(previous.prosody, segment.prosody))) {
+      previous.text += text; // markup keeps the script's own whitespace, so neighbours join as written
+    } else {
+      parts.push({ type: "speech", text, prosody: segment.prosody });
+    }
+  }
+
+  return {
+    parts: parts.filter(part => part.type === "break" || part.text.trim()),
+    ignoredPhonemes,
+  };
+}
+
+// The whole plan as one string, for engines that can only be handed plain text; a break becomes a space at most
+export function spokenText(parts: SpeechPart[]): string {
+  return parts.reduce((text, part) => {
+    if (part.type === "break") return text;
+    return !text || /\s$/.test(text) || /^\s/.test(part.text) ? text + part.text : `${text} ${part.text}`;
+  }, "").trim();
+}
+
+// True when the plan is a single run of unmodified text that the engine can say in one call as before
+export function isPlainSpeech(parts: SpeechPart[]): boolean {
+  return parts.length === 1 && parts[0].type === "speech" && sameProsody(parts[0].prosody, NEUTRAL_PROSODY);
+}
+
+// Says a parsed script with one voice. Plain text is a single engine call as it always was; marked-up scripts are
+// said in runs, one call per change of prosody, with each run's rate and pitch passed on where the engine takes them.
+// The result is cached: the plan already carries the normalized text with the lexicon applied, so together with the
+// voice, the engine's version and the settings it decides the audio.
+export async function synthesizeScript(
+  { definition, provider }: ResolvedVoice,
+  segments: SsmlSegment[],
+  settings: ScriptSettings
+): Promise<{ audio: Buffer; ignoredPhonemes: boolean }> {
+  const { capabilities } = provider;
+  const say = (text: string, prosody: Prosody = NEUTRAL_PROSODY) => provider.synthesize({
+    text,
+    voice: definition,
+    speed: settings.speed * (capabilities.speed ? prosody.rate : 1),
+    pitch: settings.pitch + (capabilities.pitch ? prosody.pitch : 0),
+    volume: settings.volume,
+    signal: settings.signal,
+  });
+
+  const { parts, ignoredPhonemes } = planSpeech(segments, definition.language, provider.phonemeMarkup?.bind(provider));
+  const { version } = await ttsRegistry.probe(provider.id);
+  const key = ttsCache.keyFor({
+    provider: provider.id,
+    version: version ?? null,
+    voice: definition.id,
+    engineVoice: definition.engineVoice ?? null,
+    parts,
+    speed: settings.speed,
+    pitch: settings.pitch,
+    volume: settings.volume,
+  });
+
+  const audio = await ttsCache.getOrCreate(key, () => parts.length === 0 || isPlainSpeech(parts)
+    ? say(spokenText(parts))
+    : assembleSpeech(parts, part => say(part.text, part.prosody), { rate: capabilities.speed, pitch: capabilities.pitch }, settings.signal));
+  return { audio, ignoredPhonemes };
+}
+
+// Synthesizes each speech part, then joins them with the breaks as silence in one ffmpeg pass. Prosody the engine
+// couldn't apply natively is approximated there: pitch by resampling, rate by atempo, volume by gain.
+export async function assembleSpeech(
+  parts: SpeechPart[],
+  synthesize: (part: Extract<SpeechPart, { type: "speech" }>) => Promise<Buffer>,
+  native: NativeProsody,
+  signal?: AbortSignal
+): Promise<Buffer> {
+  await fs.mkdir(TEMP_DIR, { recursive: true });
+  const id = randomUUID();
+  const inputFiles: string[] = [];
+  const outputFile = path.join(TEMP_DIR, `ssml_${id}.wav`);
+
+  try {
+    const args: string[] = [];
+    const filters: string[] = [];
+    const labels: string[] = [];
+
+    for (const [index, part] of Array.from(parts.entries())) {
+      const label = `[p${index}]`;
+      labels.push(label);
+
+      if (part.type === "break") {
+        filters.push(`anullsrc=r=${SAMPLE_RATE}:cl=mono,atrim=duration=${part.seconds.toFixed(3)}${label}`);
+        continue;
+      }
+
+      const inputFile = path.join(TEMP_DIR, `ssml_${id}_${index}.wav`);
+      await fs.writeFile(inputFile, await synthesize(part));
+      args.push("-i", inputFile);
+      inputFiles.push(inputFile);
+      filters.push(`[${inputFiles.length - 1}:a]${prosodyFilter(part.prosody, native)}${label}`);
+    }
+
+    filters.push(`${labels.join("")}concat=n=${labels.length}:v=0:a=1[out]`);
+    await runFFmpeg([
+      ...args,
+      "-filter_complex", filters.join(";"),
+      "-map", "[out]",
+      "-c:a", "pcm_s16le",
+      "-y", outputFile
+    ], { signal });
+
+    return await fs.readFile(outputFile);
+  } finally {
+    await Promise.all([...inputFiles, outputFile].map(file => fs.unlink(file).catch(() => {})));
+  }
+}
+
+function prosodyFilter(prosody: Prosody, native: NativeProsody): string {
+  const filters = [`aresample=${SAMPLE_RATE}`, "aformat=sample_fmts=s16:channel_layouts=mono"];
+  let tempo = native.rate ? 1 : prosody.rate;
+
+  if (!native.pitch && prosody.pitch !== 0) {
+    // Playing faster raises the pitch and shortens the audio, so tempo has to give that time back
+    const factor = Math.pow(2, prosody.pitch / 12);
+    filters.push(`asetrate=${Math.round(SAMPLE_RATE * factor)}`, `aresample=${SAMPLE_RATE}`);
+    tempo /= factor;
+  }
+  filters.push(...atempoChain(tempo));
+  if (prosody.volumeDb !== 0) filters.push(`volume=${prosody.volumeDb}dB`);
+  return filters.join(",");
+}
+
+// atempo only takes factors between 0.5 and 2, so larger changes are chained
+function atempoChain(tempo: number): string[] {
+  const chain: string[] = [];
+  while (tempo > 2) {
+    chain.push("atempo=2");
+    tempo /= 2;
+  }
+  while (tempo < 0.5) {
+    chain.push("atempo=0.5");
+    tempo /= 0.5;
+  }
+  if (Math.abs(tempo - 1) > 0.001) chain.push(`atempo=${tempo.toFixed(4)}`);
+  return chain;
+}
+
+function sameProsody(a: Prosody, b: Prosody): boolean {
+  return a.rate === b.rate && a.pitch === b.pitch && a.volumeDb === b.volumeDb;
+}
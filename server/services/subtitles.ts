@@ -0,0 +1,213 @@
+import type { SubtitleStyle } from "@shared/schema";
+import type { WordTiming } from "./word-timings";
+
+export interface SubtitleCue {
+  start: number; // seconds from the start of the video
+  end: number;
+  text: string; // one or two lines separated by \n
+  speaker?: string; // who is talking, for dialogue
+}
+
+export interface CaptionSegment {
+  text: string;
+  start: number;
+  duration: number; // how long the narration takes; the segment's cues are spread across it
+  speaker?: string;
+  words?: WordTiming[]; // when each word of the text is said, from the segment's start
+}
+
+export interface KaraokeOptions {
+  width: number;
+  height: number;
+  fontSize: number;
+  maxCharsPerLine: number;
+  end: number; // seconds; the last words stay on screen until then
+}
+
+const MAX_LINES_PER_CUE = 2;
+const SENTENCE_BREAK = /(?<=[.!?।])\s+/; // includes the Devanagari danda for Hindi scripts
+
+// ASS numpad alignment, centred horizontally
+const ALIGNMENT: Record<SubtitleStyle["position"], number> = {
+  bottom: 2,
+  middle: 5,
+  top: 8,
+};
+
+// Wraps text into lines of at most maxCharsPerLine and groups them into caption chunks; a chunk never spans two sentences
+export function splitCaptionText(text: string, maxCharsPerLine: number): string[] {
+  const chunks: string[] = [];
+
+  for (const sentence of text.trim().split(SENTENCE_BREAK)) {
+    const lines: string[] = [];
+    let line = "";
+
+    for (const word of sentence.split(/\s+/).filter(Boolean)) {
+      if (!line) {
+        line = word;
+      } else if (line.length + 1 + word.length <= maxCharsPerLine) {
+        line += ` ${word}`;
+      } else {
+        lines.push(line);
+        line = word; // a single word longer than the limit gets a line to itself
+      }
+    }
+    if (line) lines.push(line);
+
+    for (let i = 0; i < lines.length; i += MAX_LINES_PER_CUE) {
+      chunks.push(lines.slice(i, i + MAX_LINES_PER_CUE).join("\n"));
+    }
+  }
+
+  return chunks;
+}
+
+// Times each chunk by when its words are said where the segment has word timings, and otherwise by its share of
+// the segment's characters, which tracks speaking time closely enough for captions
+export function buildCues(segments: CaptionSegment[], maxCharsPerLine: number): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+
+  for (const segment of segments) {
+    const chunks = splitCaptionText(segment.text, maxCharsPerLine);
+    const spans = segment.words ? chunkSpans(chunks, segment.words) : null;
+    const totalChars = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const segmentEnd = segment.start + segment.duration;
+    let time = segment.start;
+
+    chunks.forEach((chunk, i) => {
+      if (spans) {
+        // Narration cut off at the scene's end takes its last words' captions with it
+        const start = segment.start + spans[i].start;
+        if (start >= segmentEnd) return;
+        // A caption stays up through the pause after it, until the next one replaces it
+        const end = i + 1 < spans.length ? segment.start + spans[i + 1].start : segment.start + spans[i].end;
+        cues.push({ start, end: Math.min(end, segmentEnd), text: chunk, speaker: segment.speaker });
+        return;
+      }
+
+      const length = (chunk.length / totalChars) * segment.duration;
+      cues.push({ start: time, end: time + length, text: chunk, speaker: segment.speaker });
+      time += length;
+    });
+  }
+
+  return cues;
+}
+
+// An ASS script that shows the words in caption-sized chunks, each word turning from white to gold as it is said.
+// The chunks match the SRT/VTT cues; the \k tags time each word from its start to the next word's.
+export function toKaraokeAss(words: WordTiming[], options: KaraokeOptions): string {
+  const { width, height, fontSize, maxCharsPerLine, end } = options;
+  const chunks = splitCaptionText(words.map(timing => timing.word).join(" "), maxCharsPerLine);
+  const events: string[] = [];
+  let index = 0;
+
+  for (const chunk of chunks) {
+    const lines = chunk.split("\n").map(line => line.split(" ").length);
+    const first = index;
+    const text = lines.map(count => {
+      const line = words.slice(index, index + count).map((timing, j) => {
+        const next = words[index + j + 1];
+        const centiseconds = Math.round(((next ? next.start : timing.end) - timing.start) * 100);
+        return `{\\k${Math.max(0, centiseconds)}}${escapeAssText(timing.word)}`;
+      });
+      index += count;
+      return line.join(" ");
+    }).join("\\N");
+
+    const start = words[first].start;
+    if (start >= end) break;
+    const until = index < words.length ? words[index].start : end;
+    events.push(`Dialogue: 0,${formatAssTimestamp(start)},${formatAssTimestamp(Math.min(until, end))},Karaoke,,0,0,0,,${text}`);
+  }
+
+  return [
+    "[Script Info]",
+    "ScriptType: v4.00+",
+    `PlayResX: ${width}`,
+    `PlayResY: ${height}`,
+    "WrapStyle: 2", // lines are already broken where the captions break them
+    "ScaledBorderAndShadow: yes",
+    "",
+    "[V4+ Styles]",
+    "Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding",
+    // Colours are &HAABBGGRR: sung words are gold, words still to come white
+    `Style: Karaoke,DejaVu Sans,${fontSize},&H0000D7FF,&H00FFFFFF,&H00000000,&H00000000,-1,0,0,0,100,100,0,0,1,2,0,${ALIGNMENT.middle},40,40,40,1`,
+    "",
+    "[Events]",
+    "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+    ...events,
+    "",
+  ].join("\n");
+}
+
+// SRT has no markup for speakers, so dialogue names them in the text; WebVTT uses voice spans instead
+export function toSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n${cue.speaker ? `${cue.speaker}: ` : ""}${cue.text}\n`)
+    .join("\n");
+}
+
+export function toWebVtt(cues: SubtitleCue[]): string {
+  const body = cues
+    .map(cue => `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n${cue.speaker ? `<v ${escapeVttText(cue.speaker)}>` : ""}${escapeVttText(cue.text)}\n`)
+    .join("\n");
+  return `WEBVTT\n\n${body}`;
+}
+
+// ffmpeg video filter that draws an SRT file onto the frames. The path must not need filter escaping,
+// which holds for the uploads/video_<uuid>.srt files the renderer writes.
+export function burnInFilter(subtitleFile: string, style: SubtitleStyle): string {
+  const forceStyle = [
+    `FontName=${style.font}`,
+    `FontSize=${style.fontSize}`,
+    `Outline=${style.outline}`,
+    "BorderStyle=1",
+    "Shadow=0",
+    `Alignment=${ALIGNMENT[style.position]}`,
+    "MarginV=16",
+  ].join(",");
+  return `subtitles=filename=${subtitleFile}:force_style='${forceStyle}'`;
+}
+
+function formatTimestamp(seconds: number, fractionSeparator: "," | "."): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, width = 2) => value.toString().padStart(width, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${fractionSeparator}${pad(ms, 3)}`;
+}
+
+// Each chunk's first word start and last word end; null when the words don't line up with the text
+function chunkSpans(chunks: string[], words: WordTiming[]): { start: number; end: number }[] | null {
+  const spans: { start: number; end: number }[] = [];
+  let index = 0;
+  for (const chunk of chunks) {
+    const count = chunk.split(/\s+/).length;
+    if (index + count > words.length) return null;
+    spans.push({ start: words[index].start, end: words[index + count - 1].end });
+    index += count;
+  }
+  return index === words.length ? spans : null;
+}
+
+// ASS times are H:MM:SS.cc
+function formatAssTimestamp(seconds: number): string {
+  const totalCs = Math.max(0, Math.round(seconds * 100));
+  const hours = Math.floor(totalCs / 360_000);
+  const minutes = Math.floor((totalCs % 360_000) / 6000);
+  const secs = Math.floor((totalCs % 6000) / 100);
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return `${hours}:${pad(minutes)}:${pad(secs)}.${pad(totalCs % 100)}`;
+}
+
+// Braces open override tags and backslashes start escapes, and ASS has no way to quote either
+function escapeAssText(text: string): string {
+  return text.replace(/[{}]/g, "").replace(/\\/g, "/");
+}
+
+function escapeVttText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
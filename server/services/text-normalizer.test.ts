@@ -0,0 +1,75 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { normalizeText } from "./text-normalizer";
+
+const cases: Record<string, [string, string, string][]> = {
+  numbers: [
+    ["I have 42 apples", "en", "I have forty-two apples"],
+    ["-7 degrees", "en", "minus seven degrees"],
+    ["3.14", "en", "three point one four"],
+    ["1,250.75", "en", "one thousand two hundred fifty point seven five"],
+    ["1999", "en", "nineteen ninety-nine"],
+    ["2005", "en", "two thousand five"],
+    ["21st", "en", "twenty-first"],
+    ["10-20", "en", "ten to twenty"],
+    ["Call 9876543210", "en", "Call nine eight seven six five four three two one zero"],
+    ["007", "en", "zero zero seven"],
+    ["25%", "en", "twenty-five percent"],
+    ["60 km/h", "en", "sixty kilometers per hour"],
+    ["मेरे पास 42 सेब हैं", "hi", "मेरे पास बयालीस सेब हैं"],
+    ["3.5", "hi", "तीन दशमलव पाँच"],
+    ["12,50,000", "hi", "बारह लाख पचास हज़ार"],
+    ["1999", "hi", "उन्नीस सौ निन्यानवे"],
+    ["5वीं कक्षा", "hi", "पाँचवीं कक्षा"],
+    ["25%", "hi", "पच्चीस प्रतिशत"],
+  ],
+  currency: [
+    ["It costs $5.50", "en", "It costs five dollars and fifty cents"],
+    ["$1.01", "en", "one dollar and one cent"],
+    ["₹1 only", "en", "one rupee only"],
+    ["Rs. 500", "en", "five hundred rupees"],
+    ["₹2.5 crore", "en", "two point five crore rupees"],
+    ["$3k", "en", "three thousand dollars"],
+    ["₹500", "hi", "पाँच सौ रुपये"],
+    ["$1.01", "hi", "एक डॉलर और एक सेंट"],
+    ["₹2.5 करोड़", "hi", "दो दशमलव पाँच करोड़ रुपये"],
+  ],
+  times: [
+    ["Meet at 10:30", "en", "Meet at ten thirty"],
+    ["at 7:05 pm", "en", "at seven oh five pee em"],
+    ["at 9 am", "en", "at nine ay em"],
+    ["at 12:00", "en", "at twelve o'clock"],
+    ["10:30 बजे", "hi", "दस बजकर तीस मिनट"],
+    ["7:05 pm", "hi", "रात सात बजकर पाँच मिनट"],
+    ["9 am", "hi", "सुबह नौ बजे"],
+    ["३ बजे", "hi", "तीन बजे"],
+  ],
+  abbreviations: [
+    ["Dr. Smith vs. Mr. Jones", "en", "Doctor Smith versus Mister Jones"],
+    ["apples, pears etc.", "en", "apples, pears et cetera."],
+    ["No. 5", "en", "number five"],
+    ["e.g. this", "en", "for example this"],
+    ["डॉ. शर्मा", "hi", "डॉक्टर शर्मा"],
+    ["No. 5", "hi", "नंबर पाँच"],
+  ],
+  "dates and addresses": [
+    ["2024-03-15", "en", "March fifteenth, twenty twenty-four"],
+    ["visit example.com", "en", "visit example dot com"],
+  ],
+};
+
+describe("normalizeText", () => {
+  for (const [group, table] of Object.entries(cases)) {
+    describe(group, () => {
+      for (const [text, language, expected] of table) {
+        it(`reads "${text}" in ${language}`, () => {
+          assert.equal(normalizeText(text, language), expected);
+        });
+      }
+    });
+  }
+
+  it("leaves languages without number rules as written", () => {
+    assert.equal(normalizeText("Bonjour 42", "fr"), "Bonjour 42");
+  });
+});
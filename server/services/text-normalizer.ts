@@ -0,0 +1,245 @@
+import type { SsmlSegment } from "@shared/ssml";
+import { cardinalWords, digitWords, NUMBER_LANGUAGES, ordinalWords, yearWords, type HindiOrdinalForm } from "./number-words";
+import { expandDate } from "./say-as";
+
+// Rewrites what engines read badly (amounts, times, dates, abbreviations, addresses and bare numbers) into the words a
+// narrator would say. Only English and Hindi are covered; other languages reach the engine as written.
+
+interface Currency {
+  one: string;
+  many: string;
+  minorOne: string;
+  minorMany: string;
+}
+
+interface Abbreviation {
+  pattern: RegExp;
+  en: string;
+  hi: string;
+  endsSentence?: boolean; // keeps the full stop when the abbreviation closes a sentence
+}
+
+type Words = Record<"en" | "hi", string>;
+
+// Letters of either script; numbers and abbreviations only match when they aren't glued to one
+const LETTER = "A-Za-z\\u00C0-\\u024F\\u0900-\\u097F";
+
+const CURRENCIES: Record<string, Record<"en" | "hi", Currency>> = {
+  "$": {
+    en: { one: "dollar", many: "dollars", minorOne: "cent", minorMany: "cents" },
+    hi: { one: "डॉलर", many: "डॉलर", minorOne: "सेंट", minorMany: "सेंट" },
+  },
+  "₹": {
+    en: { one: "rupee", many: "rupees", minorOne: "paisa", minorMany: "paise" },
+    hi: { one: "रुपया", many: "रुपये", minorOne: "पैसा", minorMany: "पैसे" },
+  },
+  "€": {
+    en: { one: "euro", many: "euros", minorOne: "cent", minorMany: "cents" },
+    hi: { one: "यूरो", many: "यूरो", minorOne: "सेंट", minorMany: "सेंट" },
+  },
+  "£": {
+    en: { one: "pound", many: "pounds", minorOne: "penny", minorMany: "pence" },
+    hi: { one: "पाउंड", many: "पाउंड", minorOne: "पेंस", minorMany: "पेंस" },
+  },
+};
+const CURRENCY_CODES: Record<string, string> = {
+  "rs": "₹", "rs.": "₹", "inr": "₹", "रु": "₹", "रु.": "₹", "usd": "$", "us$": "$", "eur": "€", "gbp": "£",
+};
+const AMOUNT_SCALES: Record<string, Words> = {
+  "k": { en: "thousand", hi: "हज़ार" },
+  "thousand": { en: "thousand", hi: "हज़ार" },
+  "हज़ार": { en: "thousand", hi: "हज़ार" },
+  "m": { en: "million", hi: "मिलियन" },
+  "mn": { en: "million", hi: "मिलियन" },
+  "million": { en: "million", hi: "मिलियन" },
+  "bn": { en: "billion", hi: "बिलियन" },
+  "billion": { en: "billion", hi: "बिलियन" },
+  "lakh": { en: "lakh", hi: "लाख" },
+  "lakhs": { en: "lakh", hi: "लाख" },
+  "लाख": { en: "lakh", hi: "लाख" },
+  "crore": { en: "crore", hi: "करोड़" },
+  "crores": { en: "crore", hi: "करोड़" },
+  "करोड़": { en: "crore", hi: "करोड़" },
+};
+const CURRENCY = new RegExp(
+  `(?<![${LETTER}])(₹|\\$|€|£|US\\$|Rs\\.?|INR|USD|EUR|GBP|रु\\.?)\\s?(\\d+(?:,\\d+)*(?:\\.\\d+)?)` +
+  `(?:\\s?(k|mn|m|bn|thousand|million|billion|lakhs?|crores?|हज़ार|लाख|करोड़)(?![A-Za-z]))?`,
+  "gi"
+);
+
+const UNITS: Record<string, { en: [string, string]; hi: string }> = {
+  "km/h": { en: ["kilometer per hour", "kilometers per hour"], hi: "किलोमीटर प्रति घंटा" },
+  "kmph": { en: ["kilometer per hour", "kilometers per hour"], hi: "किलोमीटर प्रति घंटा" },
+  "mph": { en: ["mile per hour", "miles per hour"], hi: "मील प्रति घंटा" },
+  "km": { en: ["kilometer", "kilometers"], hi: "किलोमीटर" },
+  "kg": { en: ["kilogram", "kilograms"], hi: "किलोग्राम" },
+  "cm": { en: ["centimeter", "centimeters"], hi: "सेंटीमीटर" },
+  "mm": { en: ["millimeter", "millimeters"], hi: "मिलीमीटर" },
+  "°c": { en: ["degree Celsius", "degrees Celsius"], hi: "डिग्री सेल्सियस" },
+  "°f": { en: ["degree Fahrenheit", "degrees Fahrenheit"], hi: "डिग्री फ़ारेनहाइट" },
+  "%": { en: ["percent", "percent"], hi: "प्रतिशत" },
+};
+const MEASUREMENT = /((?:(?<=^|\s)-)?\d+(?:,\d+)*(?:\.\d+)?)\s?(km\/h|kmph|mph|km|kg|cm|mm|°C|°F|%)(?![A-Za-z])/gi;
+
+const ABBREVIATIONS: Abbreviation[] = [
+  { pattern: /\bDr\.(?=\s+[A-Zऀ-ॿ])/g, en: "Doctor", hi: "डॉक्टर" },
+  { pattern: /\bMr\.(?=\s)/g, en: "Mister", hi: "मिस्टर" },
+  { pattern: /\bMrs\.(?=\s)/g, en: "Missus", hi: "मिसेज़" },
+  { pattern: /\bMs\.(?=\s)/g, en: "Miz", hi: "मिस" },
+  { pattern: /\bProf\.(?=\s)/g, en: "Professor", hi: "प्रोफ़ेसर" },
+  { pattern: /\bSt\.(?=\s+[A-Z])/g, en: "Saint", hi: "सेंट" },
+  { pattern: /\bJr\./g, en: "Junior", hi: "जूनियर", endsSentence: true },
+  { pattern: /\bSr\./g, en: "Senior", hi: "सीनियर", endsSentence: true },
+  { pattern: /\bvs\.?(?=\s)/gi, en: "versus", hi: "बनाम" },
+  { pattern: /\betc\./gi, en: "et cetera", hi: "वगैरह", endsSentence: true },
+  { pattern: /\be\.g\./gi, en: "for example", hi: "उदाहरण के लिए" },
+  { pattern: /\bi\.e\./gi, en: "that is", hi: "यानी" },
+  { pattern: /\bapprox\./gi, en: "approximately", hi: "लगभग" },
+  { pattern: /\bNo\.(?=\s?\d)/g, en: "number", hi: "नंबर" },
+  { pattern: /\bLtd\./g, en: "Limited", hi: "लिमिटेड", endsSentence: true },
+  { pattern: /\bInc\./g, en: "Incorporated", hi: "इनकॉरपोरेटेड", endsSentence: true },
+  { pattern: /डॉ\.\s?/g, en: "Doctor ", hi: "डॉक्टर " },
+  { pattern: /रु\./g, en: "rupees", hi: "रुपये" },
+  { pattern: /कि\.\s?मी\./g, en: "kilometers", hi: "किलोमीटर" },
+  { pattern: /कि\.\s?ग्रा\./g, en: "kilograms", hi: "किलोग्राम" },
+];
+
+const ADDRESS_SYMBOLS: Record<string, Words> = {
+  ".": { en: "dot", hi: "डॉट" },
+  "/": { en: "slash", hi: "स्लैश" },
+  "-": { en: "dash", hi: "डैश" },
+  "_": { en: "underscore", hi: "अंडरस्कोर" },
+  "@": { en: "at", hi: "एट" },
+};
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const WEB_ADDRESS = /\b(?:https?:\/\/|www\.)[^\s<>"]+|\b[\w-]+(?:\.[\w-]+)*\.(?:com|org|net|in|io|co|edu|gov|dev|app)(?:\/[^\s<>"]*)?(?![\w.])/gi;
+
+// A trailing "बजे" is dropped, the Hindi reading says it itself
+const TIME = /(?<![\d:.])([01]?\d|2[0-3]):([0-5]\d)(?::[0-5]\d)?(?:\s?([ap])\.?\s?m\.?(?![A-Za-z]))?(?![\d:])(?:\s*बजे(?![ऀ-ॿ]))?/gi;
+const CLOCK_HOUR = /(?<![\d:.,])(1[0-2]|0?[1-9])\s?([ap])\.?\s?m\.?(?![A-Za-z])/gi;
+const ISO_DATE = /(?<![\d-])(\d{4})-(\d{2})-(\d{2})(?![\d-])/g;
+const SLASH_DATE = /(?<![\d\/])(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})(?![\d\/])/g;
+const EN_ORDINAL = /(?<![\w.,])(\d+(?:,\d+)*)(st|nd|rd|th)(?![A-Za-z])/gi;
+const HI_ORDINAL = /(?<![\w.,])(\d+)(ला|ले|ली|रा|रे|री|था|थे|थी|वाँ|वां|वें|वीं|वी)(?![ऀ-ॿ])/g;
+const RANGE = /(?<![\w.,-])(\d{1,4})\s?[–-]\s?([1-9]\d{0,3})(?![\w.,]|-\d)/g;
+const NUMBER = /(?<![\w.,ऀ-ॿ])(?:(?<=^|\s)-)?\d+(?:,\d+)*(?:\.\d+)?(?![\wऀ-ॿ]|[.,]\d)/g;
+
+const TO: Words = { en: "to", hi: "से" };
+const AND: Words = { en: "and", hi: "और" };
+
+// Devanagari digits are read exactly like ASCII ones
+function toAsciiDigits(text: string): string {
+  return text.replace(/[०-९]/g, digit => String(digit.charCodeAt(0) - 0x0966));
+}
+
+export function normalizeText(text: string, language: string): string {
+  if (!NUMBER_LANGUAGES.has(language)) return text;
+  const lang = language as "en" | "hi";
+
+  let result = toAsciiDigits(text);
+  // Addresses first, while their dots and digits still belong to them
+  result = result.replace(EMAIL, address => spellAddress(address, lang));
+  result = result.replace(WEB_ADDRESS, (url) => {
+    const trailing = url.match(/[.,;:!?)]+$/)?.[0] ?? "";
+    return spellAddress(url.slice(0, url.length - trailing.length).replace(/^https?:\/\//i, ""), lang) + trailing;
+  });
+
+  result = result.replace(CURRENCY, (_, symbol: string, amount: string, scale?: string) =>
+    currencyWords(CURRENCY_CODES[symbol.toLowerCase()] ?? symbol.toUpperCase(), amount, scale, lang));
+  result = result.replace(TIME, (_, hour: string, minute: string, meridiem?: string) =>
+    timeWords(Number(hour), Number(minute), meridiem?.toLowerCase(), lang));
+  result = result.replace(CLOCK_HOUR, (_, hour: string, meridiem: string) => timeWords(Number(hour), 0, meridiem.toLowerCase(), lang));
+  result = result.replace(ISO_DATE, (match, year: string, month: string, day: string) =>
+    expandDate(`${year}-${month}-${day}`, "ymd", lang) ?? match);
+  result = result.replace(SLASH_DATE, (match) => expandDate(match, lang === "en" ? "mdy" : "dmy", lang) ?? match);
+  result = result.replace(MEASUREMENT, (_, amount: string, unit: string) => {
+    const words = UNITS[unit.toLowerCase()];
+    const unitWords = lang === "en" ? words.en[Number(amount.replace(/,/g, "")) === 1 ? 0 : 1] : words.hi;
+    return `${cardinalWords(amount, lang)} ${unitWords}`;
+  });
+
+  result = result.replace(EN_ORDINAL, (_, number: string) => ordinalWords(Number(number.replace(/,/g, "")), lang));
+  if (lang === "hi") {
+    result = result.replace(HI_ORDINAL, (_, number: string, suffix: string) => ordinalWords(Number(number), lang, ordinalForm(suffix)));
+  }
+
+  for (const abbreviation of ABBREVIATIONS) {
+    result = result.replace(abbreviation.pattern, (match, ...args) => {
+      const offset = args[args.length - 2] as number;
+      const rest = result.slice(offset + match.length);
+      const closesSentence = abbreviation.endsSentence && /^(\s*$|\s+[A-Zऀ-ॿ])/.test(rest);
+      return abbreviation[lang] + (closesSentence ? "." : "");
+    });
+  }
+
+  result = result.replace(RANGE, (_, from: string, to: string) => `${numberWords(from, lang)} ${TO[lang]} ${numberWords(to, lang)}`);
+  return result.replace(NUMBER, number => numberWords(number, lang));
+}
+
+// Normalizes the plain text of a parsed script; spans marked up with say-as or phoneme already say what they mean
+export function normalizeSegments(segments: SsmlSegment[], language: string): SsmlSegment[] {
+  return segments.map(segment =>
+    segment.type === "text" && !segment.sayAs && !segment.phoneme
+      ? { ...segment, text: normalizeText(segment.text, language) }
+      : segment
+  );
+}
+
+// A bare number as people read it: codes and phone numbers digit by digit, likely years in pairs, the rest as amounts
+function numberWords(number: string, language: "en" | "hi"): string {
+  const plain = number.replace(/^-/, "");
+  if (/^0\d/.test(plain) || /^\d{10,}$/.test(plain)) return digitWords(plain, language);
+  if (/^(1[1-9]|20)\d\d$/.test(number)) return yearWords(Number(number), language);
+  return cardinalWords(number, language);
+}
+
+function currencyWords(symbol: string, amount: string, scale: string | undefined, language: "en" | "hi"): string {
+  const currency = CURRENCIES[symbol]?.[language];
+  if (!currency) return `${symbol}${amount}`;
+
+  if (scale) {
+    const scaleWords = AMOUNT_SCALES[scale.toLowerCase()] ?? AMOUNT_SCALES[scale];
+    return `${cardinalWords(amount, language)} ${scaleWords[language]} ${currency.many}`;
+  }
+
+  const [whole, fraction = ""] = amount.replace(/,/g, "").split(".");
+  const major = Number(whole);
+  const minor = Number(fraction.padEnd(2, "0").slice(0, 2));
+  const parts: string[] = [];
+  if (major > 0 || minor === 0) parts.push(`${cardinalWords(whole, language)} ${major === 1 ? currency.one : currency.many}`);
+  if (minor > 0) parts.push(`${cardinalWords(String(minor), language)} ${minor === 1 ? currency.minorOne : currency.minorMany}`);
+  return parts.join(` ${AND[language]} `);
+}
+
+function timeWords(hour: number, minute: number, meridiem: string | undefined, language: "en" | "hi"): string {
+  if (language === "hi") {
+    // Hindi names the part of the day instead of a.m./p.m.
+    const hour24 = meridiem === "p" && hour < 12 ? hour + 12 : meridiem === "a" && hour === 12 ? 0 : hour;
+    const period = !meridiem ? ""
+      : hour24 < 4 ? "रात "
+      : hour24 < 12 ? "सुबह "
+      : hour24 < 16 ? "दोपहर "
+      : hour24 < 19 ? "शाम "
+      : "रात ";
+    const clock = cardinalWords(String(hour), language);
+    return minute === 0 ? `${period}${clock} बजे` : `${period}${clock} बजकर ${cardinalWords(String(minute), language)} मिनट`;
+  }
+
+  const clock = cardinalWords(String(hour), language);
+  const minutes = minute === 0 ? (meridiem ? "" : " o'clock") : minute < 10 ? ` oh ${cardinalWords(String(minute), language)}` : ` ${cardinalWords(String(minute), language)}`;
+  return `${clock}${minutes}${meridiem ? ` ${meridiem === "a" ? "ay em" : "pee em"}` : ""}`;
+}
+
+function spellAddress(address: string, language: "en" | "hi"): string {
+  return address
+    .split(/([./\-_@])/)
+    .filter(Boolean)
+    .map(part => ADDRESS_SYMBOLS[part]?.[language] ?? (/^\d+$/.test(part) ? digitWords(part, language) : part))
+    .join(" ");
+}
+
+function ordinalForm(suffix: string): HindiOrdinalForm {
+  if (/ीं?$/.test(suffix)) return "feminine";
+  if (/ें?$/.test(suffix)) return "oblique";
+  return "masculine";
+}
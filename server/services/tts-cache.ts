@@ -0,0 +1,165 @@
+import { createHash, randomUUID } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+const DEFAULT_MAX_MB = 512;
+
+export interface TTSCacheStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  hitRate: number; // 0-1 over the lookups since startup or the last clear
+}
+
+// Synthesized audio on disk, one WAV per hash of everything that shaped it. Entries are evicted least recently
+// used first once the directory outgrows its limit; file mtimes carry the usage order across restarts.
+export class TTSCache {
+  private entries = new Map<string, number>(); // key -> size in bytes, least recently used first
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private loaded: Promise<void> | null = null;
+
+  constructor(private dir: string, private maxBytes: number) {}
+
+  // Keys are content hashes, so anything that changes the audio must be part of the input
+  keyFor(input: unknown): string {
+    return createHash("sha256").update(JSON.stringify(input)).digest("hex");
+  }
+
+  // Returns the cached audio for the key, or creates and stores it. A broken cache never fails the synthesis.
+  async getOrCreate(key: string, create: () => Promise<Buffer>): Promise<Buffer> {
+    const cached = await this.read(key).catch((error) => {
+      console.warn("TTS cache read failed:", error);
+      return null;
+    });
+    if (cached) {
+      this.hits++;
+      return cached;
+    }
+
+    this.misses++;
+    const audio = await create();
+    await this.write(key, audio).catch((error) => console.warn("TTS cache write failed:", error));
+    return audio;
+  }
+
+  async stats(): Promise<TTSCacheStats> {
+    await this.load();
+    const lookups = this.hits + this.misses;
+    return {
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxBytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      hitRate: lookups ? this.hits / lookups : 0,
+    };
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    await Promise.all(Array.from(this.entries.keys()).map(key => fs.unlink(this.pathFor(key)).catch(() => {})));
+    this.entries.clear();
+    this.bytes = this.hits = this.misses = this.evictions = 0;
+  }
+
+  private async read(key: string): Promise<Buffer | null> {
+    await this.load();
+    const size = this.entries.get(key);
+    if (size === undefined) return null;
+
+    let audio: Buffer;
+    try {
+      audio = await fs.readFile(this.pathFor(key));
+    } catch (error) {
+      // Removed behind our back; forget it and synthesize again
+      this.forget(key);
+      return null;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, size);
+    const now = new Date();
+    await fs.utimes(this.pathFor(key), now, now).catch(() => {});
+    return audio;
+  }
+
+  private async write(key: string, audio: Buffer): Promise<void> {
+    await this.load();
+    if (audio.length > this.maxBytes || this.entries.has(key)) return;
+
+    // Written under a temporary name first, so a concurrent reader never sees half a file
+    const target = this.pathFor(key);
+    const partial = `${target}.${randomUUID()}.part`;
+    await fs.writeFile(partial, audio);
+    await fs.rename(partial, target);
+    // A concurrent miss for the same key may have stored it while this one was writing
+    if (this.entries.has(key)) return;
+
+    this.entries.set(key, audio.length);
+    this.bytes += audio.length;
+    await this.evict();
+  }
+
+  private async evict(): Promise<void> {
+    for (const [key] of Array.from(this.entries)) {
+      if (this.bytes <= this.maxBytes) break;
+      this.forget(key);
+      this.evictions++;
+      await fs.unlink(this.pathFor(key)).catch(() => {});
+    }
+  }
+
+  private forget(key: string): void {
+    const size = this.entries.get(key);
+    if (size === undefined) return;
+    this.entries.delete(key);
+    this.bytes -= size;
+  }
+
+  // Indexes what a previous run left on disk, oldest use first
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      await fs.mkdir(this.dir, { recursive: true });
+      const names = (await fs.readdir(this.dir)).filter(name => /^[0-9a-f]{64}\.wav$/.test(name));
+      const files = await Promise.all(names.map(async (name) => {
+        const stat = await fs.stat(path.join(this.dir, name)).catch(() => null);
+        return stat && { key: name.slice(0, -".wav".length), size: stat.size, usedAt: stat.mtimeMs };
+      }));
+
+      for (const file of files.filter(Boolean).sort((a, b) => a!.usedAt - b!.usedAt)) {
+        this.entries.set(file!.key, file!.size);
+        this.bytes += file!.size;
+      }
+      await this.evict();
+    })().catch((error) => {
+      this.loaded = null; // try again on the next lookup
+      throw error;
+    });
+    return this.loaded;
+  }
+
+  private pathFor(key: string): string {
+    return path.join(this.dir, `${key}.wav`);
+  }
+}
+
+// A limit that isn't a positive number would evict everything, so it falls back to the default
+function maxBytesFromEnv(value: string | undefined): number {
+  const megabytes = parseInt(value ?? "", 10);
+  if (value !== undefined && !(megabytes > 0)) {
+    console.warn(`Ignoring TTS_CACHE_MAX_MB="${value}"; using ${DEFAULT_MAX_MB} MB`);
+  }
+  return (megabytes > 0 ? megabytes : DEFAULT_MAX_MB) * 1024 * 1024;
+}
+
+export const ttsCache = new TTSCache(
+  process.env.TTS_CACHE_DIR || path.join(process.cwd(), "cache", "tts"),
+  maxBytesFromEnv(process.env.TTS_CACHE_MAX_MB)
+);
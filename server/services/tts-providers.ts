@@ -0,0 +1,320 @@
+import { spawn } from "child_process";
+import { randomUUID } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import OpenAI from "openai";
+import type { EngineStatus } from "@shared/schema";
+import { elevenLabsService } from "./elevenlabs";
+import { probeCommand, probePythonModule } from "./command-probe";
+import { ipaToEspeak } from "./phonemes";
+import type { SynthesisRequest, TTSProvider, TTSProviderCapabilities, VoiceDefinition } from "./tts-registry";
+
+const TEMP_DIR = path.join(process.cwd(), "temp");
+const ELEVENLABS_SAMPLE_RATE = 22050;
+const CLOUD_VOICES_TTL_MS = 10 * 60 * 1000;
+
+// Coqui models per language; Hindi only ships a single-speaker model, so both Hindi voices share it
+const COQUI_MODELS: Record<string, string> = {
+  en: "tts_models/en/ljspeech/tacotron2-DDC",
+  hi: "tts_models/hi/male/fastpitch",
+};
+const COQUI_VOCODER = "vocoder_models/universal/libri-tts/fullband-melgan";
+
+// Text, speaker and output path arrive as argv so narration never has to be escaped into Python source
+const BARK_SCRIPT = `
+import sys
+from bark import SAMPLE_RATE, generate_audio, preload_models
+from scipy.io.wavfile import write as write_wav
+
+text, speaker, output_path = sys.argv[1:4]
+preload_models()
+write_wav(output_path, SAMPLE_RATE, generate_audio(text, history_prompt=speaker))
+`;
+
+const INDIC_SCRIPT = `
+import sys
+import soundfile as sf
+from indic_tts import IndicTTS
+
+text, gender, output_path = sys.argv[1:4]
+audio, sr = IndicTTS().tts(text, voice=gender, lang="hi")
+sf.write(output_path, audio, sr)
+`;
+
+class CoquiProvider implements TTSProvider {
+  id = "coqui";
+  name = "Coqui TTS";
+  kind = "local" as const;
+  capabilities: TTSProviderCapabilities = { languages: ["en", "hi"], speed: false, pitch: false };
+
+  async listVoices(): Promise<VoiceDefinition[]> {
+    return [
+      { id: "coqui-female-en", name: "Sarah Professional", description: "High-quality female English voice with natural intonation", gender: "female", language: "en", locale: "en-US", quality: "premium", style: "professional", engineVoice: COQUI_MODELS.en },
+      { id: "coqui-male-en", name: "David Professional", description: "Deep male English voice with clear articulation", gender: "male", language: "en", locale: "en-US", quality: "premium", style: "professional", engineVoice: COQUI_MODELS.en },
+      { id: "coqui-female-hi", name: "Priya Hindi", description: "Natural female Hindi voice with proper pronunciation", gender: "female", language: "hi", locale: "hi-IN", quality: "premium", style: "natural", engineVoice: COQUI_MODELS.hi },
+      { id: "coqui-male-hi", name: "Arjun Hindi", description: "Clear male Hindi voice with authentic accent", gender: "male", language: "hi", locale: "hi-IN", quality: "premium", style: "professional", engineVoice: COQUI_MODELS.hi },
+    ];
+  }
+
+  // Synthesis goes through the CLI, but only the Python package knows its version
+  async probe(): Promise<EngineStatus> {
+    const cli = await probeCommand("tts", ["--help"]);
+    if (!cli.available) return cli;
+    return { available: true, version: (await probePythonModule("TTS")).version };
+  }
+
+  synthesize({ text, voice, signal }: SynthesisRequest): Promise<Buffer> {
+    return withTempWav("coqui", (outputPath) => runEngine("tts", [
+      `--text=${text}`, // the joined form keeps narration that starts with a dash from parsing as a flag
+      "--model_name", voice.engineVoice ?? COQUI_MODELS[voice.language],
+      "--vocoder_name", COQUI_VOCODER,
+      "--out_path", outputPath
+    ], signal));
+  }
+}
+
+class BarkProvider implements TTSProvider {
+  id = "bark";
+  name = "Bark";
+  kind = "local" as const;
+  capabilities: TTSProviderCapabilities = { languages: ["en"], speed: false, pitch: false };
+
+  async listVoices(): Promise<VoiceDefinition[]> {
+    return [
+      { id: "bark-female-en", name: "Emma Natural", description: "Expressive female voice with emotional range", gender: "female", language: "en", quality: "premium", style: "natural", engineVoice: "v2/en_speaker_6" },
+      { id: "bark-male-en", name: "Marcus Narrator", description: "Professional male narrator voice", gender: "male", language: "en", quality: "premium", style: "narrator", engineVoice: "v2/en_speaker_9" },
+    ];
+  }
+
+  probe(): Promise<EngineStatus> {
+    return probePythonModule("bark");
+  }
+
+  synthesize({ text, voice, signal }: SynthesisRequest): Promise<Buffer> {
+    return withTempWav("bark", (outputPath) =>
+      runEngine("python3", ["-c", BARK_SCRIPT, text, voice.engineVoice ?? "v2/en_speaker_6", outputPath], signal));
+  }
+}
+
+class IndicProvider implements TTSProvider {
+  id = "indic-tts";
+  name = "Indic TTS";
+  kind = "local" as const;
+  capabilities: TTSProviderCapabilities = { languages: ["hi"], speed: false, pitch: false };
+
+  async listVoices(): Promise<VoiceDefinition[]> {
+    return [
+      { id: "indic-female-hi", name: "Kavya Professional", description: "Professional female Hindi voice for business content", gender: "female", language: "hi", locale: "hi-IN", quality: "premium", style: "professional", engineVoice: "female", aliases: ["indic-female-pro-hi"] },
+      { id: "indic-male-hi", name: "Vikram Narrator", description: "Authoritative male Hindi voice for narration", gender: "male", language: "hi", locale: "hi-IN", quality: "premium", style: "narrator", engineVoice: "male", aliases: ["indic-male-narrator-hi"] },
+    ];
+  }
+
+  probe(): Promise<EngineStatus> {
+    return probePythonModule("indic_tts");
+  }
+
+  synthesize({ text, voice, signal }: SynthesisRequest): Promise<Buffer> {
+    return withTempWav("indic", (outputPath) =>
+      runEngine("python3", ["-c", INDIC_SCRIPT, text, voice.engineVoice ?? voice.gender, outputPath], signal));
+  }
+}
+
+class EspeakProvider implements TTSProvider {
+  id = "espeak";
+  name = "eSpeak";
+  kind = "local" as const;
+  capabilities: TTSProviderCapabilities = { languages: ["en", "hi"], speed: true, pitch: true };
+
+  async listVoices(): Promise<VoiceDefinition[]> {
+    return [
+      { id: "espeak-female-en", name: "eSpeak Female EN", description: "Standard female English voice", gender: "female", language: "en", quality: "standard", style: "basic", engineVoice: "en-us+f3", aliases: ["espeak-en-us"] },
+      { id: "espeak-male-en", name: "eSpeak Male EN", description: "Standard male English voice", gender: "male", language: "en", quality: "standard", style: "basic", engineVoice: "en-us+m3" },
+      { id: "espeak-en-gb", name: "eSpeak UK English", description: "Standard British English voice", gender: "neutral", language: "en", locale: "en-GB", quality: "standard", style: "basic", engineVoice: "en-gb" },
+      { id: "espeak-female-hi", name: "eSpeak Female HI", description: "Basic female Hindi voice", gender: "female", language: "hi", quality: "standard", style: "basic", engineVoice: "hi+f3", aliases: ["espeak-hi"] },
+      { id: "espeak-male-hi", name: "eSpeak Male HI", description: "Basic male Hindi voice", gender: "male", language: "hi", quality: "standard", style: "basic", engineVoice: "hi+m3" },
+    ];
+  }
+
+  probe(): Promise<EngineStatus> {
+    return probeCommand("espeak", ["--version"]);
+  }
+
+  phonemeMarkup(ipa: string): string {
+    return `[[${ipaToEspeak(ipa)}]]`;
+  }
+
+  synthesize({ text, voice, speed, pitch, volume, signal }: SynthesisRequest): Promise<Buffer> {
+    return withTempWav("espeak", (outputPath) => runEngine("espeak", [
+      "-v", voice.engineVoice ?? voice.language,
+      "-s", Math.round(175 * speed).toString(), // words per minute
+      "-p", clamp(Math.round(50 + pitch * 4), 0, 99).toString(),
+      "-a", clamp(Math.round(volume * 100), 0, 200).toString(),
+      "-w", outputPath,
+      "--stdin" // narration starting with a dash would otherwise parse as an option
+    ], signal, text));
+  }
+
+  // espeak reports its phonemes without their timing; words come out space separated with phonemes joined by --sep
+  async phonemize(text: string, language: string, signal?: AbortSignal): Promise<string[][]> {
+    const output = await runEngine("espeak", ["-q", "-x", "--sep=_", "-v", language, "--stdin"], signal, text);
+    return output.split(/\s+/).filter(Boolean).map(word => word.split("_").filter(Boolean));
+  }
+}
+
+// Registered only when ELEVENLABS_API_KEY is set; the voice list is whatever the account has
+class ElevenLabsProvider implements TTSProvider {
+  id = "elevenlabs";
+  name = "ElevenLabs";
+  kind = "cloud" as const;
+  capabilities: TTSProviderCapabilities = { languages: ["en", "hi"], speed: false, pitch: false };
+  private cached?: { fetchedAt: number; voices: VoiceDefinition[] };
+
+  async listVoices(): Promise<VoiceDefinition[]> {
+    if (this.cached && Date.now() - this.cached.fetchedAt < CLOUD_VOICES_TTL_MS) {
+      return this.cached.voices;
+    }
+
+    const voices = (await elevenLabsService.getVoices()).map((voice): VoiceDefinition => ({
+      id: `elevenlabs-${voice.voice_id}`,
+      name: voice.name,
+      description: voice.description || voice.labels.description || "ElevenLabs voice",
+      gender: voice.labels.gender === "female" || voice.labels.gender === "male" ? voice.labels.gender : "neutral",
+      language: voice.labels.language || "en",
+      quality: "premium",
+      style: voice.labels.use_case,
+      engineVoice: voice.voice_id,
+    }));
+    this.cached = { fetchedAt: Date.now(), voices };
+    return voices;
+  }
+
+  async probe(): Promise<EngineStatus> {
+    return process.env.ELEVENLABS_API_KEY ? { available: true } : { available: false, error: "ELEVENLABS_API_KEY is not set" };
+  }
+
+  async synthesize({ text, voice, signal }: SynthesisRequest): Promise<Buffer> {
+    const pcm = await elevenLabsService.generateSpeech(
+      text,
+      voice.engineVoice ?? voice.id,
+      undefined,
+      `pcm_${ELEVENLABS_SAMPLE_RATE}`,
+      signal
+    );
+    return pcmToWav(pcm, ELEVENLABS_SAMPLE_RATE, 1);
+  }
+}
+
+// Registered only when OPENAI_API_KEY is set
+class OpenAIProvider implements TTSProvider {
+  id = "openai";
+  name = "OpenAI TTS";
+  kind = "cloud" as const;
+  capabilities: TTSProviderCapabilities = { languages: ["en"], speed: true, pitch: false };
+  private client?: OpenAI;
+
+  async listVoices(): Promise<VoiceDefinition[]> {
+    return [
+      { id: "openai-alloy", name: "Alloy", description: "Balanced, neutral voice", gender: "neutral", language: "en", quality: "premium", engineVoice: "alloy" },
+      { id: "openai-echo", name: "Echo", description: "Warm male voice", gender: "male", language: "en", quality: "premium", engineVoice: "echo" },
+      { id: "openai-fable", name: "Fable", description: "Expressive storytelling voice", gender: "neutral", language: "en", locale: "en-GB", quality: "premium", style: "narrator", engineVoice: "fable" },
+      { id: "openai-onyx", name: "Onyx", description: "Deep, authoritative male voice", gender: "male", language: "en", quality: "premium", style: "narrator", engineVoice: "onyx" },
+      { id: "openai-nova", name: "Nova", description: "Bright, energetic female voice", gender: "female", language: "en", quality: "premium", engineVoice: "nova" },
+      { id: "openai-shimmer", name: "Shimmer", description: "Soft, clear female voice", gender: "female", language: "en", quality: "premium", engineVoice: "shimmer" },
+    ];
+  }
+
+  async probe(): Promise<EngineStatus> {
+    return process.env.OPENAI_API_KEY ? { available: true } : { available: false, error: "OPENAI_API_KEY is not set" };
+  }
+
+  async synthesize({ text, voice, speed, signal }: SynthesisRequest): Promise<Buffer> {
+    this.client ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    const response = await this.client.audio.speech.create({
+      model: "tts-1",
+      voice: voice.engineVoice ?? "alloy",
+      input: text,
+      response_format: "wav",
+      speed: clamp(speed, 0.25, 4),
+    }, { signal });
+    return Buffer.from(await response.arrayBuffer());
+  }
+}
+
+// Local engines are always registered and report themselves unavailable when not installed;
+// cloud adapters only exist when their API key is configured
+export function builtInProviders(): TTSProvider[] {
+  const providers: TTSProvider[] = [new CoquiProvider(), new BarkProvider(), new IndicProvider(), new EspeakProvider()];
+  if (process.env.ELEVENLABS_API_KEY) providers.push(new ElevenLabsProvider());
+  if (process.env.OPENAI_API_KEY) providers.push(new OpenAIProvider());
+  return providers;
+}
+
+// Gives the engine a fresh output path and returns what it wrote there
+async function withTempWav(prefix: string, write: (outputPath: string) => Promise<unknown>): Promise<Buffer> {
+  await fs.mkdir(TEMP_DIR, { recursive: true });
+  const outputPath = path.join(TEMP_DIR, `${prefix}_${randomUUID()}.wav`);
+
+  try {
+    await write(outputPath);
+    const audio = await fs.readFile(outputPath);
+    if (audio.length === 0) {
+      throw new Error(`${prefix} wrote an empty file`);
+    }
+    return audio;
+  } finally {
+    await fs.unlink(outputPath).catch(() => {});
+  }
+}
+
+// Resolves with what the engine wrote to stdout
+function runEngine(command: string, args: string[], signal?: AbortSignal, input?: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { signal, stdio: [input === undefined ? "ignore" : "pipe", "pipe", "pipe"] });
+    if (input !== undefined) {
+      child.stdin?.end(input);
+    }
+
+    let output = "";
+    child.stdout?.on("data", (data) => {
+      output += data.toString();
+    });
+
+    let errorOutput = "";
+    child.stderr?.on("data", (data) => {
+      errorOutput += data.toString();
+    });
+
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve(output);
+      } else {
+        reject(new Error(`${command} failed with code ${code}: ${errorOutput.slice(-500)}`));
+      }
+    });
+
+    child.on("error", reject);
+  });
+}
+
+// Wraps headerless 16-bit PCM in a WAV header
+function pcmToWav(pcm: Buffer, sampleRate: number, channels: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0);
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write("WAVE", 8);
+  header.write("fmt ", 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * channels * 2, 28);
+  header.writeUInt16LE(channels * 2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36);
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
@@ -0,0 +1,154 @@
+import type { EngineStatus, TTSVoice, VoiceGender, VoiceQuality, VoiceQuery } from "@shared/schema";
+import { builtInProviders } from "./tts-providers";
+
+// What a provider declares about one of its voices; the registry adds the provider id and availability
+export interface VoiceDefinition {
+  id: string;
+  name: string;
+  description: string;
+  gender: VoiceGender;
+  language: string; // ISO 639-1 base code
+  locale?: string;
+  quality: VoiceQuality;
+  style?: string;
+  engineVoice?: string; // the engine's own name for the model, speaker preset or voice
+  aliases?: string[]; // ids older catalogues used for the same voice, so saved projects keep resolving
+}
+
+export interface TTSProviderCapabilities {
+  languages: string[];
+  speed: boolean; // the engine applies SynthesisRequest.speed itself
+  pitch: boolean;
+}
+
+export interface SynthesisRequest {
+  text: string;
+  voice: VoiceDefinition;
+  speed: number; // 1 is the engine's normal rate
+  pitch: number; // semitones
+  volume: number; // 0-1
+  signal?: AbortSignal;
+}
+
+export interface TTSProvider {
+  id: string;
+  name: string;
+  kind: "local" | "cloud";
+  capabilities: TTSProviderCapabilities;
+  listVoices(): Promise<VoiceDefinition[]>;
+  probe(): Promise<EngineStatus>; // whether the engine is installed or configured, and its version
+  synthesize(request: SynthesisRequest): Promise<Buffer>; // a WAV file; throws when the engine fails
+  phonemeMarkup?(ipa: string): string; // how the engine's input text spells out a pronunciation, if it can
+  phonemize?(text: string, language: string, signal?: AbortSignal): Promise<string[][]>; // each spoken word's phonemes, in order
+}
+
+export interface ResolvedVoice {
+  voice: TTSVoice;
+  definition: VoiceDefinition;
+  provider: TTSProvider;
+}
+
+const PROBE_TTL_MS = 5 * 60 * 1000;
+
+export class TTSProviderRegistry {
+  private providers = new Map<string, TTSProvider>();
+  private probes = new Map<string, { checkedAt: number; result: Promise<EngineStatus> }>();
+
+  register(provider: TTSProvider): void {
+    if (this.providers.has(provider.id)) {
+      throw new Error(`TTS provider "${provider.id}" is already registered`);
+    }
+    this.providers.set(provider.id, provider);
+  }
+
+  getProvider(providerId: string): TTSProvider | undefined {
+    return this.providers.get(providerId);
+  }
+
+  listProviders(): TTSProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  // Probes spawn processes, so results are cached for a while and concurrent callers share one probe
+  probe(providerId: string): Promise<EngineStatus> {
+    const provider = this.providers.get(providerId);
+    if (!provider) return Promise.resolve({ available: false, error: `Unknown TTS provider "${providerId}"` });
+
+    const cached = this.probes.get(providerId);
+    if (cached && Date.now() - cached.checkedAt < PROBE_TTL_MS) {
+      return cached.result;
+    }
+
+    const result = provider.probe().catch((error): EngineStatus => ({ available: false, error: String(error) }));
+    this.probes.set(providerId, { checkedAt: Date.now(), result });
+    return result;
+  }
+
+  async isAvailable(providerId: string): Promise<boolean> {
+    return (await this.probe(providerId)).available;
+  }
+
+  // Forgets cached probes, e.g. after an engine has been installed
+  refresh(): void {
+    this.probes.clear();
+  }
+
+  async getVoices(query: VoiceQuery = {}): Promise<TTSVoice[]> {
+    const providers = this.listProviders().filter(provider => !query.provider || provider.id === query.provider);
+    const catalogues = await Promise.all(providers.map(provider => this.catalogue(provider)));
+    return catalogues.flat().map(entry => entry.voice).filter(voice => matchesQuery(voice, query));
+  }
+
+  // Looks a voice up by id, falling back to the ids older catalogues used
+  async resolveVoice(voiceId: string): Promise<ResolvedVoice | undefined> {
+    const entries = (await Promise.all(this.listProviders().map(provider => this.catalogue(provider)))).flat();
+    return entries.find(entry => entry.definition.id === voiceId)
+      ?? entries.find(entry => entry.definition.aliases?.includes(voiceId));
+  }
+
+  private async catalogue(provider: TTSProvider): Promise<ResolvedVoice[]> {
+    let definitions: VoiceDefinition[];
+    try {
+      definitions = await provider.listVoices();
+    } catch (error) {
+      console.warn(`Could not list voices for TTS provider ${provider.id}:`, error);
+      return [];
+    }
+
+    const available = await this.isAvailable(provider.id);
+    return definitions.map(definition => ({
+      definition,
+      provider,
+      voice: {
+        id: definition.id,
+        name: definition.name,
+        description: definition.description,
+        provider: provider.id,
+        gender: definition.gender,
+        language: definition.language,
+        locale: definition.locale,
+        quality: definition.quality,
+        style: definition.style,
+        available,
+      },
+    }));
+  }
+}
+
+function matchesQuery(voice: TTSVoice, query: VoiceQuery): boolean {
+  if (query.language) {
+    const [base] = query.language.split("-");
+    if (voice.language !== base) return false;
+    // A regional filter like en-gb only matches voices with that accent
+    if (query.language !== base && voice.locale?.toLowerCase() !== query.language) return false;
+  }
+  if (query.gender && voice.gender !== query.gender) return false;
+  if (query.quality && voice.quality !== query.quality) return false;
+  if (query.available !== undefined && voice.available !== query.available) return false;
+  return true;
+}
+
+export const ttsRegistry = new TTSProviderRegistry();
+for (const provider of builtInProviders()) {
+  ttsRegistry.register(provider);
+}
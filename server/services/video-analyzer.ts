@@ -1,71 +1,55 @@
-import fs from "fs/promises";
-import path from "path";
-import { spawn } from "child_process";
-import { promisify } from "util";
-
-export interface VideoAnalysis {
-  duration: number;
-  resolution: {
-    width: number;
-    height: number;
-  };
-  frameRate: number;
-  bitrate: number;
-  codecInfo: {
-    video: string;
-    audio: string;
-  };
-  audioChannels: number;
-  audioSampleRate: number;
-  quality: {
-    estimatedCRF: number;
-    colorSpace: string;
-    dynamicRange: string;
-  };
-  visualElements: {
-    hasMotionBlur: boolean;
-    hasCameraMovement: boolean;
-    lightingQuality: "low" | "medium" | "high";
-    colorGrading: string;
-    visualEffects: string[];
-  };
-  audioFeatures: {
-    hasVoiceover: boolean;
-    hasBackgroundMusic: boolean;
-    hasSoundEffects: boolean;
-    audioQuality: "low" | "medium" | "high";
-  };
-  technicalSpecs: {
-    pixelFormat: string;
-    profile: string;
-    level: string;
-  };
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { spawn } from 'child_process';
+import type { LoudnessStats, LoudnessTarget, RecommendedSettings, TimeRange, VideoAnalysis } from '@shared/schema';
+import { capabilitiesService } from './capabilities';
+import { runFFmpeg } from './ffmpeg-runner';
+import { LOUDNESS_TARGETS, measureLoudness } from './loudness';
+
+export type { VideoAnalysis } from '@shared/schema';
+
+const TEMP_DIR = path.join(process.cwd(), 'temp');
+
+// Frames are measured at this width; cuts, blacks and motion read the same and it is far quicker than full size
+const ANALYSIS_WIDTH = 320;
+const SCENE_CUT_THRESHOLD = 0.3; // select's scene score, 0-1
+const MIN_BLACK_SECONDS = 0.1;
+const MIN_FREEZE_SECONDS = 1;
+const SILENCE_NOISE_DB = -50;
+const MIN_SILENCE_SECONDS = 0.5;
+// One tiny frame a second is plenty to say which colours dominate
+const PALETTE_FRAME_SIZE = 16;
+const PALETTE_COLORS = 5;
+// Median luma change a frame above which the picture is taken to be moving rather than locked off
+const CAMERA_MOVEMENT_THRESHOLD = 3;
+
+type VideoMetadata = Omit<VideoAnalysis, 'visualElements' | 'audioFeatures' | 'warnings'>;
+
+// Files ffprobe can't read, or that have no picture to measure
+export class VideoAnalysisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VideoAnalysisError';
+  }
 }
 
 export class VideoAnalyzerService {
-  async analyzeVideo(videoPath: string): Promise<VideoAnalysis> {
-    try {
-      // Get basic video metadata using ffprobe
-      const metadata = await this.getVideoMetadata(videoPath);
-      
-      // Analyze visual quality
-      const visualAnalysis = await this.analyzeVisualQuality(videoPath);
-      
-      // Analyze audio features
-      const audioAnalysis = await this.analyzeAudioFeatures(videoPath);
-      
-      return {
-        ...metadata,
-        visualElements: visualAnalysis,
-        audioFeatures: audioAnalysis,
-      };
-    } catch (error) {
-      throw new Error(`Failed to analyze video: ${error}`);
-    }
+  // Reads the streams with ffprobe, then measures the picture and sound with ffmpeg's detection filters. Loudness
+  // needs loudnorm, which some builds lack; without it the rest is still measured and a warning says so.
+  async analyzeVideo(videoPath: string, signal?: AbortSignal): Promise<VideoAnalysis> {
+    const { features } = await capabilitiesService.get();
+    const metadata = await this.getVideoMetadata(videoPath);
+    const warnings: string[] = [];
+
+    const visualElements = await this.analyzeVisualQuality(videoPath, metadata.duration, signal);
+    const audioFeatures = await this.analyzeAudioFeatures(videoPath, metadata, features.loudnessMastering, warnings, signal);
+
+    return { ...metadata, visualElements, audioFeatures, warnings };
   }
 
-  private async getVideoMetadata(videoPath: string): Promise<Partial<VideoAnalysis>> {
-    return new Promise((resolve, reject) => {
+  private async getVideoMetadata(videoPath: string): Promise<VideoMetadata> {
+    const output = await new Promise<string>((resolve, reject) => {
       const ffprobe = spawn('ffprobe', [
         '-v', 'quiet',
         '-print_format', 'json',
@@ -81,76 +65,49 @@ export class VideoAnalyzerService {
 
       ffprobe.on('close', (code) => {
         if (code !== 0) {
-          // If ffprobe is not available, return estimated values based on common specs
-          resolve(this.getEstimatedMetadata());
+          reject(new VideoAnalysisError('The file is not a video ffprobe can read'));
           return;
         }
-
-        try {
-          const data = JSON.parse(output);
-          const videoStream = data.streams.find((s: any) => s.codec_type === 'video');
-          const audioStream = data.streams.find((s: any) => s.codec_type === 'audio');
-
-          resolve({
-            duration: parseFloat(data.format.duration || '0'),
-            resolution: {
-              width: videoStream?.width || 1920,
-              height: videoStream?.height || 1080,
-            },
-            frameRate: eval(videoStream?.r_frame_rate || '30/1'),
-            bitrate: parseInt(data.format.bit_rate || '5000000'),
-            codecInfo: {
-              video: videoStream?.codec_name || 'h264',
-              audio: audioStream?.codec_name || 'aac',
-            },
-            audioChannels: audioStream?.channels || 2,
-            audioSampleRate: parseInt(audioStream?.sample_rate || '44100'),
-            quality: {
-              estimatedCRF: this.estimateCRF(parseInt(data.format.bit_rate || '5000000')),
-              colorSpace: videoStream?.color_space || 'bt709',
-              dynamicRange: videoStream?.color_transfer || 'bt709',
-            },
-            technicalSpecs: {
-              pixelFormat: videoStream?.pix_fmt || 'yuv420p',
-              profile: videoStream?.profile || 'High',
-              level: videoStream?.level || '4.0',
-            },
-          });
-        } catch (parseError) {
-          resolve(this.getEstimatedMetadata());
-        }
+        resolve(output);
       });
 
-      ffprobe.on('error', () => {
-        resolve(this.getEstimatedMetadata());
-      });
+      ffprobe.on('error', reject);
     });
-  }
 
-  private getEstimatedMetadata(): Partial<VideoAnalysis> {
+    const data = JSON.parse(output);
+    const videoStream = data.streams?.find((s: any) => s.codec_type === 'video');
+    const audioStream = data.streams?.find((s: any) => s.codec_type === 'audio');
+    if (!videoStream) {
+      throw new VideoAnalysisError('The file has no video stream');
+    }
+
+    const duration = parseFloat(data.format?.duration ?? videoStream.duration ?? '0');
+    const bitrate = parseInt(data.format?.bit_rate ?? '0') || 0;
+
     return {
-      duration: 15, // Estimated duration
+      duration,
       resolution: {
-        width: 1920,
-        height: 1080,
+        width: videoStream.width || 0,
+        height: videoStream.height || 0,
       },
-      frameRate: 30,
-      bitrate: 8000000, // 8 Mbps - high quality
+      frameRate: parseFrameRate(videoStream.avg_frame_rate) || parseFrameRate(videoStream.r_frame_rate),
+      bitrate,
       codecInfo: {
-        video: 'h264',
-        audio: 'aac',
+        video: videoStream.codec_name || 'unknown',
+        audio: audioStream?.codec_name || 'none',
       },
-      audioChannels: 2,
-      audioSampleRate: 44100,
+      hasAudio: Boolean(audioStream),
+      audioChannels: audioStream?.channels || 0,
+      audioSampleRate: parseInt(audioStream?.sample_rate || '0') || 0,
       quality: {
-        estimatedCRF: 18, // High quality
-        colorSpace: 'bt709',
-        dynamicRange: 'bt709',
+        estimatedCRF: this.estimateCRF(bitrate),
+        colorSpace: videoStream.color_space || 'unknown',
+        dynamicRange: videoStream.color_transfer || 'unknown',
       },
       technicalSpecs: {
-        pixelFormat: 'yuv420p',
-        profile: 'High',
-        level: '4.0',
+        pixelFormat: videoStream.pix_fmt || 'unknown',
+        profile: videoStream.profile || 'unknown',
+        level: videoStream.level?.toString() || 'unknown',
       },
     };
   }
@@ -164,35 +121,149 @@ export class VideoAnalyzerService {
     return 32; // Low quality
   }
 
-  private async analyzeVisualQuality(videoPath: string): Promise<VideoAnalysis['visualElements']> {
-    // Since we can't directly analyze the video content without complex ML models,
-    // we'll return high-quality defaults based on professional video standards
-    return {
-      hasMotionBlur: true,
-      hasCameraMovement: true,
-      lightingQuality: "high",
-      colorGrading: "cinematic",
-      visualEffects: [
-        "depth_of_field",
-        "color_correction",
-        "dynamic_range_optimization",
-        "motion_blur",
-        "lens_effects"
-      ],
-    };
+  // One decode feeds three branches: select's scene score for cuts; blackdetect, freezedetect and signalstats for
+  // blacks, freezes, motion and exposure; and a frame a second shrunk to a few pixels for the palette
+  private async analyzeVisualQuality(videoPath: string, duration: number, signal?: AbortSignal): Promise<VideoAnalysis['visualElements']> {
+    await fs.mkdir(TEMP_DIR, { recursive: true });
+    const paletteFile = path.join(TEMP_DIR, `analysis_${randomUUID()}.rgb`);
+
+    const sceneCuts: number[] = [];
+    const blackFrames: TimeRange[] = [];
+    const frozenFrames: TimeRange[] = [];
+    const frameChanges: number[] = [];
+    let brightness = 0;
+    let saturation = 0;
+    let frames = 0;
+    let freezeStart = null as number | null;
+    // metadata=print logs each frame's time before its values, so times are kept per filter instance
+    const frameTimes = new Map<string, number>();
+
+    try {
+      await runFFmpeg([
+        '-i', videoPath,
+        '-filter_complex', [
+          `[0:v]scale=${ANALYSIS_WIDTH}:-2,format=yuv420p,split=3[cuts][frames][colors]`,
+          `[cuts]select='gt(scene,${SCENE_CUT_THRESHOLD})',metadata=print:key=lavfi.scene_score,nullsink`,
+          `[frames]blackdetect=d=${MIN_BLACK_SECONDS}:pix_th=0.10,freezedetect=n=-60dB:d=${MIN_FREEZE_SECONDS},signalstats,` +
+            'metadata=print:key=lavfi.signalstats.YDIF,metadata=print:key=lavfi.signalstats.YAVG,' +
+            'metadata=print:key=lavfi.signalstats.SATAVG,nullsink',
+          `[colors]fps=1,scale=${PALETTE_FRAME_SIZE}:${PALETTE_FRAME_SIZE},format=rgb24[palette]`,
+        ].join(';'),
+        '-map', '[palette]',
+        '-f', 'rawvideo',
+        '-y', paletteFile
+      ], {
+        signal,
+        onLog: (line) => {
+          const black = line.match(/black_start:([\d.]+) black_end:([\d.]+)/);
+          if (black) blackFrames.push({ start: parseFloat(black[1]), end: parseFloat(black[2]) });
+
+          const freeze = line.match(/lavfi\.freezedetect\.freeze_(start|end): ([\d.]+)/);
+          if (freeze?.[1] === 'start') freezeStart = parseFloat(freeze[2]);
+          if (freeze?.[1] === 'end' && freezeStart !== null) {
+            frozenFrames.push({ start: freezeStart, end: parseFloat(freeze[2]) });
+            freezeStart = null;
+          }
+
+          const printed = line.match(/^\[(Parsed_metadata_\d+) @ [^\]]+\] (.*)$/);
+          if (!printed) return;
+          const [, instance, message] = printed;
+          const time = message.match(/pts_time:([\d.]+)/);
+          if (time) {
+            frameTimes.set(instance, parseFloat(time[1]));
+            return;
+          }
+          const [key, value] = message.split('=');
+          const number = parseFloat(value);
+          if (!Number.isFinite(number)) return;
+          if (key === 'lavfi.scene_score') sceneCuts.push(frameTimes.get(instance) ?? 0);
+          if (key === 'lavfi.signalstats.YDIF') frameChanges.push(number);
+          if (key === 'lavfi.signalstats.YAVG') {
+            brightness += number;
+            frames++;
+          }
+          if (key === 'lavfi.signalstats.SATAVG') saturation += number;
+        },
+      });
+      // A video that ends frozen reports no end for it
+      if (freezeStart !== null) frozenFrames.push({ start: freezeStart, end: duration });
+
+      brightness = frames > 0 ? brightness / frames : 0;
+      saturation = frames > 0 ? saturation / frames : 0;
+      // The first frame has nothing to differ from
+      const motion = median(frameChanges.slice(1));
+      const { palette, warmth } = summarizeColors(await fs.readFile(paletteFile));
+
+      return {
+        sceneCuts,
+        averageShotLength: duration / (sceneCuts.length + 1),
+        blackFrames,
+        frozenFrames,
+        motion,
+        hasCameraMovement: motion > CAMERA_MOVEMENT_THRESHOLD,
+        brightness,
+        saturation,
+        lightingQuality: brightness < 40 || brightness > 220 ? 'low' : brightness < 70 || brightness > 190 ? 'medium' : 'high',
+        colorGrading: describeGrading(saturation, warmth),
+        palette,
+      };
+    } finally {
+      await fs.unlink(paletteFile).catch(() => {});
+    }
   }
 
-  private async analyzeAudioFeatures(videoPath: string): Promise<VideoAnalysis['audioFeatures']> {
-    // Analyze audio characteristics
+  private async analyzeAudioFeatures(
+    videoPath: string,
+    metadata: VideoMetadata,
+    canMeasureLoudness: boolean,
+    warnings: string[],
+    signal?: AbortSignal
+  ): Promise<VideoAnalysis['audioFeatures']> {
+    if (!metadata.hasAudio) {
+      return { silences: [], silenceRatio: 1, loudness: null, audioQuality: 'low' };
+    }
+
+    const silences: TimeRange[] = [];
+    let silenceStart = null as number | null;
+    await runFFmpeg([
+      '-i', videoPath,
+      '-af', `silencedetect=noise=${SILENCE_NOISE_DB}dB:d=${MIN_SILENCE_SECONDS}`,
+      '-vn',
+      '-f', 'null',
+      '-'
+    ], {
+      signal,
+      onLog: (line) => {
+        const start = line.match(/silence_start: (-?[\d.]+)/);
+        const end = line.match(/silence_end: ([\d.]+)/);
+        if (start) silenceStart = Math.max(0, parseFloat(start[1]));
+        if (end && silenceStart !== null) {
+          silences.push({ start: silenceStart, end: parseFloat(end[1]) });
+          silenceStart = null;
+        }
+      },
+    });
+    // Audio that ends in silence reports no end for it
+    if (silenceStart !== null) silences.push({ start: silenceStart, end: metadata.duration });
+
+    let loudness: LoudnessStats | null = null;
+    if (canMeasureLoudness) {
+      loudness = await measureLoudness(videoPath, { signal });
+    } else {
+      warnings.push("ffmpeg on this server has no loudnorm filter, so loudness wasn't measured");
+    }
+
+    const silent = silences.reduce((sum, range) => sum + range.end - range.start, 0);
     return {
-      hasVoiceover: true,
-      hasBackgroundMusic: true,
-      hasSoundEffects: true,
-      audioQuality: "high",
+      silences,
+      silenceRatio: metadata.duration > 0 ? Math.min(1, silent / metadata.duration) : 0,
+      loudness,
+      audioQuality: rateAudio(metadata.audioSampleRate, loudness),
     };
   }
 
   async generateQualityReport(analysis: VideoAnalysis): Promise<string> {
+    const { visualElements: visual, audioFeatures: audio } = analysis;
     const report = `
 # Video Quality Analysis Report
 
@@ -211,17 +282,18 @@ export class VideoAnalyzerService {
 - **Profile**: ${analysis.technicalSpecs.profile}
 
 ## Visual Features
-- **Motion Blur**: ${analysis.visualElements.hasMotionBlur ? '✓' : '✗'}
-- **Camera Movement**: ${analysis.visualElements.hasCameraMovement ? '✓' : '✗'}
-- **Lighting Quality**: ${analysis.visualElements.lightingQuality.toUpperCase()}
-- **Color Grading**: ${analysis.visualElements.colorGrading}
-- **Visual Effects**: ${analysis.visualElements.visualEffects.join(', ')}
+- **Shots**: ${visual.sceneCuts.length + 1} (average ${visual.averageShotLength.toFixed(1)}s)
+- **Black Frames**: ${formatRanges(visual.blackFrames)}
+- **Frozen Frames**: ${formatRanges(visual.frozenFrames)}
+- **Motion**: ${visual.motion.toFixed(1)} (${visual.hasCameraMovement ? 'moving picture' : 'mostly still'})
+- **Brightness**: ${visual.brightness.toFixed(0)}/255, lighting ${visual.lightingQuality.toUpperCase()}
+- **Color Grading**: ${visual.colorGrading}
+- **Palette**: ${visual.palette.map(({ color, share }) => `${color} (${Math.round(share * 100)}%)`).join(', ')}
 
 ## Audio Features
-- **Voiceover**: ${analysis.audioFeatures.hasVoiceover ? '✓' : '✗'}
-- **Background Music**: ${analysis.audioFeatures.hasBackgroundMusic ? '✓' : '✗'}
-- **Sound Effects**: ${analysis.audioFeatures.hasSoundEffects ? '✓' : '✗'}
-- **Audio Quality**: ${analysis.audioFeatures.audioQuality.toUpperCase()}
+- **Loudness**: ${audio.loudness ? `${audio.loudness.integrated.toFixed(1)} LUFS, true peak ${audio.loudness.truePeak.toFixed(1)} dBTP, range ${audio.loudness.lra.toFixed(1)} LU` : 'not measured'}
+- **Silences**: ${formatRanges(audio.silences)} (${Math.round(audio.silenceRatio * 100)}% of the duration)
+- **Audio Quality**: ${audio.audioQuality.toUpperCase()}
 - **Channels**: ${analysis.audioChannels}
 - **Sample Rate**: ${analysis.audioSampleRate} Hz
 
@@ -253,11 +325,7 @@ export class VideoAnalyzerService {
     return report;
   }
 
-  async getRecommendedSettings(analysis: VideoAnalysis): Promise<{
-    video: any;
-    audio: any;
-    processing: any;
-  }> {
+  async getRecommendedSettings(analysis: VideoAnalysis): Promise<RecommendedSettings> {
     return {
       video: {
         resolution: analysis.resolution,
@@ -268,14 +336,16 @@ export class VideoAnalyzerService {
         pixelFormat: 'yuv420p',
         profile: 'high',
         motionBlur: true,
-        colorGrading: 'cinematic',
+        colorGrading: analysis.visualElements.colorGrading,
+        shotLength: analysis.visualElements.averageShotLength,
       },
       audio: {
         sampleRate: Math.max(48000, analysis.audioSampleRate),
-        channels: analysis.audioChannels,
+        channels: Math.max(1, analysis.audioChannels),
         bitrate: 320000, // 320kbps AAC
         codec: 'aac',
         profile: 'lc',
+        loudnessTarget: nearestLoudnessTarget(analysis.audioFeatures.loudness),
       },
       processing: {
         useAIUpscaling: analysis.resolution.width < 1920,
@@ -288,4 +358,78 @@ export class VideoAnalyzerService {
   }
 }
 
-export const videoAnalyzerService = new VideoAnalyzerService();
\ No newline at end of file
+export const videoAnalyzerService = new VideoAnalyzerService();
+// ffprobe gives rates as fractions such as "30000/1001"; 0 when it has none
+function parseFrameRate(rate: string | undefined): number {
+  const [numerator, denominator = '1'] = (rate ?? '').split('/');
+  const value = parseFloat(numerator) / parseFloat(denominator);
+  return Number.isFinite(value) ? Math.round(value * 100) / 100 : 0;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Buckets the sampled RGB pixels by their top three bits a channel and reports the fullest buckets' mean colours,
+// along with how much redder than blue the whole picture is
+function summarizeColors(pixels: Buffer): { palette: VideoAnalysis['visualElements']['palette']; warmth: number } {
+  const buckets = new Map<number, { r: number; g: number; b: number; count: number }>();
+  let warmth = 0;
+  const total = Math.floor(pixels.length / 3);
+
+  for (let i = 0; i + 2 < pixels.length; i += 3) {
+    const [r, g, b] = [pixels[i], pixels[i + 1], pixels[i + 2]];
+    const key = ((r >> 5) << 6) | ((g >> 5) << 3) | (b >> 5);
+    const bucket = buckets.get(key) ?? { r: 0, g: 0, b: 0, count: 0 };
+    bucket.r += r;
+    bucket.g += g;
+    bucket.b += b;
+    bucket.count++;
+    buckets.set(key, bucket);
+    warmth += r - b;
+  }
+
+  const hex = (value: number) => Math.round(value).toString(16).padStart(2, '0');
+  const palette = Array.from(buckets.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, PALETTE_COLORS)
+    .map(({ r, g, b, count }) => ({
+      color: `#${hex(r / count)}${hex(g / count)}${hex(b / count)}`,
+      share: count / total,
+    }));
+  return { palette, warmth: total > 0 ? warmth / total : 0 };
+}
+
+// How strong the colours are and which way they lean, in the words a colourist would use
+function describeGrading(saturation: number, warmth: number): string {
+  if (saturation < 5) return 'monochrome';
+  const strength = saturation < 20 ? 'muted' : saturation > 50 ? 'vivid' : 'natural';
+  const temperature = warmth > 20 ? 'warm' : warmth < -20 ? 'cool' : 'neutral';
+  return `${strength}, ${temperature}`;
+}
+
+// Clipping or a low sample rate is poor whatever else; a measured mix near delivery levels with a sane range is good
+function rateAudio(sampleRate: number, loudness: LoudnessStats | null): VideoAnalysis['audioFeatures']['audioQuality'] {
+  if (sampleRate < 32000 || (loudness && loudness.truePeak > 0)) return 'low';
+  if (!loudness || sampleRate < 44100) return 'medium';
+  if (loudness.integrated < -30 || loudness.integrated > -8 || loudness.lra > 20) return 'medium';
+  return 'high';
+}
+
+// The platform target closest to how loud the video already is; YouTube's when it is silent or unmeasured
+function nearestLoudnessTarget(loudness: LoudnessStats | null): LoudnessTarget {
+  if (!loudness) return 'youtube';
+  const targets = Object.keys(LOUDNESS_TARGETS) as LoudnessTarget[];
+  return targets.reduce((nearest, target) =>
+    Math.abs(LOUDNESS_TARGETS[target].integrated - loudness.integrated) < Math.abs(LOUDNESS_TARGETS[nearest].integrated - loudness.integrated)
+      ? target
+      : nearest);
+}
+
+function formatRanges(ranges: TimeRange[]): string {
+  if (ranges.length === 0) return 'none';
+  return ranges.map(({ start, end }) => `${start.toFixed(1)}-${end.toFixed(1)}s`).join(', ');
+}
@@ -1,186 +1,350 @@
 import { spawn } from 'child_process';
-import { writeFile, readFile, unlink } from 'fs/promises';
-import { join } from 'path';
-import { nanoid } from 'nanoid';
-
-interface VideoGenerationJob {
-  id: string;
-  status: 'queued' | 'processing' | 'completed' | 'failed';
-  progress: number;
-  currentStep: string;
-  error?: string;
-  result?: {
-    videoUrl: string;
-    thumbnailUrl: string;
-    duration: number;
-    audioUrl?: string;
-  };
+import { writeFile, mkdir, unlink, copyFile } from 'fs/promises';
+import { join, relative } from 'path';
+import {
+  scenePaddingSchema,
+  subtitleStyleSchema,
+  type LexiconRule,
+  type LoudnessReport,
+  type RenderScene,
+  type RenderSettings,
+  type ScenePadding
+} from '@shared/schema';
+import { ssmlToPlainText } from '@shared/ssml';
+import { resolveVoiceChain } from '@shared/voice-processing';
+import { freeTTSService, getWavDuration, type FreeTTSOptions } from './free-tts';
+import { runFFmpeg, type FFmpegProgress, type RenderProgressUpdate } from './ffmpeg-runner';
+import { buildCues, burnInFilter, toKaraokeAss, toSrt, toWebVtt, type CaptionSegment } from './subtitles';
+import { audioMixerService } from './audio-mixer';
+import { masterLoudness } from './loudness';
+import { capabilitiesService } from './capabilities';
+import type { WordTiming } from './word-timings';
+
+export interface VideoOptions extends RenderSettings {
+  scenes: RenderScene[];
+  lexicon?: LexiconRule[];
+}
+
+export interface SceneRenderHooks {
+  signal?: AbortSignal; // aborting kills the running ffmpeg or TTS process and removes partial output
+  onLog?: (line: string) => void;
+  onStep?: (step: string) => void;
+  onProgress?: (update: RenderProgressUpdate) => void; // 0-100 across narration, scenes, muxing, mixing and mastering
+  onScenesFitted?: (scenes: RenderScene[]) => Promise<void>; // awaited before any scene renders; throwing stops the render
 }
 
-interface Scene {
-  text: string;
+export interface SceneRenderResult {
+  videoPath: string;
+  thumbnailPath: string;
   duration: number;
-  background: string;
-  textStyle: string;
-  voiceSettings?: {
-    voiceId: string;
-    speed: number;
-    pitch: number;
-  };
+  subtitlePaths?: { srt: string; vtt: string };
+  loudness: LoudnessReport | null;
+  warnings: string[];
 }
 
-interface VideoOptions {
-  scenes: Scene[];
-  resolution: '720p' | '1080p' | '4k';
-  frameRate: number;
-  backgroundMusic?: string;
-  backgroundMusicVolume: number;
-  outputFormat: 'mp4' | 'webm';
+interface SceneTimings {
+  scenes: RenderScene[]; // with the durations they will actually render at
+  narrationDelays: number[]; // seconds of silence before each scene's narration starts
+  warnings: string[];
 }
 
+const DEFAULT_VOICE = 'coqui-female-en';
+
+// Same bounds the request schema puts on scene durations
+const MIN_SCENE_DURATION = 1;
+const MAX_SCENE_DURATION = 60;
+
+// Share of the overall progress each stage takes; scenes are weighted by their duration within theirs
+const NARRATION_PROGRESS = 20;
+const SCENES_PROGRESS = 60;
+const CONCAT_PROGRESS = 5;
+const MIX_PROGRESS = 5;
+const MASTER_PROGRESS = 5;
+
+const VIDEO_CODECS = {
+  mp4: ['-c:v', 'libx264', '-preset', 'fast', '-crf', '23', '-pix_fmt', 'yuv420p'],
+  webm: ['-c:v', 'libvpx-vp9', '-crf', '32', '-b:v', '0', '-row-mt', '1'],
+};
+
+// WebM can't carry AAC, so its audio is encoded as Opus instead
+const AUDIO_CODECS = {
+  mp4: ['-c:a', 'aac', '-b:a', '192k'],
+  webm: ['-c:a', 'libopus', '-b:a', '128k'],
+};
+
+// Renders the studio's multi-scene projects; job state lives with the caller's generation queue
 class VideoGenerationService {
-  private jobs = new Map<string, VideoGenerationJob>();
-  private uploadsDir = 'uploads';
+  private uploadsDir = join(process.cwd(), 'uploads');
+  private tempDir = join(process.cwd(), 'temp');
 
-  async generateVideo(options: VideoOptions): Promise<string> {
-    const jobId = nanoid();
-    
-    const job: VideoGenerationJob = {
-      id: jobId,
-      status: 'queued',
-      progress: 0,
-      currentStep: 'Initializing video generation...'
+  async renderScenes(renderId: string, options: VideoOptions, hooks: SceneRenderHooks = {}): Promise<SceneRenderResult> {
+    const { signal, onLog, onStep, onProgress } = hooks;
+    const resolutionMap = {
+      '720p': { width: 1280, height: 720 },
+      '1080p': { width: 1920, height: 1080 },
+      '4k': { width: 3840, height: 2160 }
     };
-    
-    this.jobs.set(jobId, job);
-    
-    // Start generation in background
-    this.processVideoGeneration(jobId, options).catch(error => {
-      console.error(`Video generation failed for job ${jobId}:`, error);
-      this.updateJob(jobId, {
-        status: 'failed',
-        error: error.message
-      });
-    });
-    
-    return jobId;
-  }
 
-  async getJobStatus(jobId: string): Promise<VideoGenerationJob | null> {
-    return this.jobs.get(jobId) || null;
-  }
+    const { width, height } = resolutionMap[options.resolution];
+    const outputFile = join(this.uploadsDir, `video_${renderId}.${options.outputFormat}`);
+    const thumbnailFile = join(this.uploadsDir, `video_${renderId}_thumb.jpg`);
+    const concatListFile = join(this.tempDir, `concat_${renderId}.txt`);
+    const joinedFile = join(this.tempDir, `joined_${renderId}.${options.outputFormat}`);
+    const mixedFile = join(this.tempDir, `mixed_${renderId}.${options.outputFormat}`);
+    const srtFile = join(this.uploadsDir, `video_${renderId}.srt`);
+    const vttFile = join(this.uploadsDir, `video_${renderId}.vtt`);
+    // Older queued jobs predate these settings, so fill in the defaults here
+    const subtitleStyle = subtitleStyleSchema.parse(options.subtitleStyle ?? {});
+    const scenePadding = scenePaddingSchema.parse(options.scenePadding ?? {});
+    const totalScenes = options.scenes.length;
+    const narrationFiles: (string | null)[] = [];
+    const narrationDurations: (number | null)[] = [];
+    const narrationWords: (WordTiming[] | null)[] = [];
+    const sceneFiles: string[] = [];
+    const warnings: string[] = [];
 
-  private updateJob(jobId: string, updates: Partial<VideoGenerationJob>) {
-    const job = this.jobs.get(jobId);
-    if (job) {
-      Object.assign(job, updates);
+    // The studio disables what this server can't do, but queued jobs and other clients may still ask for it
+    const { features } = await capabilitiesService.get();
+    if (!features.rendering) {
+      throw new Error('ffmpeg with the drawtext filter is not installed on this server, so scenes cannot be rendered');
+    }
+    if (!features.outputFormats.includes(options.outputFormat)) {
+      throw new Error(`ffmpeg on this server has no ${options.outputFormat.toUpperCase()} encoders`);
     }
-  }
 
-  private async processVideoGeneration(jobId: string, options: VideoOptions) {
-    this.updateJob(jobId, {
-      status: 'processing',
-      currentStep: 'Preparing scene files...'
-    });
+    const burnInSubtitles = options.subtitlesEnabled && subtitleStyle.burnIn && features.subtitleBurnIn;
+    if (options.subtitlesEnabled && subtitleStyle.burnIn && !features.subtitleBurnIn) {
+      warnings.push('ffmpeg on this server cannot draw subtitles (no libass), so captions are only provided as SRT/VTT files');
+    }
+    // Karaoke is drawn by libass too; without it those scenes fall back to fading their text in
+    const karaoke = features.subtitleBurnIn;
+    if (!karaoke && options.scenes.some(scene => scene.textStyle === 'karaoke')) {
+      warnings.push('ffmpeg on this server cannot draw karaoke text (no libass), so those scenes fade their text in instead');
+    }
+    if (options.backgroundMusic && !features.musicMixing) {
+      warnings.push('ffmpeg on this server lacks the filters needed to mix background music, so the video has narration only');
+    }
+    const wantsVoiceProcessing = options.scenes.some(scene => scene.audioEnabled && resolveVoiceChain(scene.voiceProcessing ?? options.voiceProcessing));
+    if (wantsVoiceProcessing && !features.voiceProcessing) {
+      warnings.push('ffmpeg on this server lacks the filters for voice processing, so the narration is unprocessed');
+    }
+    if (!features.loudnessMastering) {
+      warnings.push(`ffmpeg on this server has no loudnorm filter, so the audio was not mastered to the ${options.loudnessTarget ?? 'youtube'} target`);
+    }
+
+    await mkdir(this.tempDir, { recursive: true });
+    await mkdir(this.uploadsDir, { recursive: true });
+
+    const musicFile = features.musicMixing ? await audioMixerService.resolveTrack(options.backgroundMusic) : null;
+    if (options.backgroundMusic && features.musicMixing && !musicFile) {
+      onLog?.(`Background music "${options.backgroundMusic}" is unavailable; rendering without it`);
+    }
+
+    // Narration that couldn't use its chosen voice, grouped by what happened so each problem is reported once
+    const fallbackScenes = new Map<string, number[]>();
 
     try {
-      const resolutionMap = {
-        '720p': { width: 1280, height: 720 },
-        '1080p': { width: 1920, height: 1080 },
-        '4k': { width: 3840, height: 2160 }
-      };
-      
-      const { width, height } = resolutionMap[options.resolution];
-      const outputFile = join(this.uploadsDir, `video_${jobId}.${options.outputFormat}`);
-      const thumbnailFile = join(this.uploadsDir, `video_${jobId}_thumb.jpg`);
-      
-      // Generate individual scene videos
-      const sceneFiles: string[] = [];
-      const totalScenes = options.scenes.length;
-      
+      // Narrate every scene first so TTS failures surface before any long render starts
       for (let i = 0; i < totalScenes; i++) {
         const scene = options.scenes[i];
-        const sceneFile = join(this.uploadsDir, `temp_scene_${jobId}_${i}.mp4`);
-        
-        this.updateJob(jobId, {
-          currentStep: `Generating scene ${i + 1} of ${totalScenes}...`,
-          progress: (i / totalScenes) * 70
-        });
-        
-        await this.generateSceneVideo(scene, sceneFile, width, height, options.frameRate);
-        sceneFiles.push(sceneFile);
+        onStep?.(`Generating voice for scene ${i + 1} of ${totalScenes}...`);
+        onProgress?.({ percent: (i / totalScenes) * NARRATION_PROGRESS, etaSeconds: null });
+
+        if (!scene.audioEnabled) {
+          narrationFiles.push(null);
+          narrationDurations.push(null);
+          narrationWords.push(null);
+          continue;
+        }
+
+        const speechOptions: FreeTTSOptions = {
+          voice: scene.voiceId || DEFAULT_VOICE,
+          speed: 1.0,
+          pitch: 0,
+          volume: 1.0,
+          lexicon: options.lexicon,
+          // A scene's own chain replaces the project's; older queued jobs have neither
+          processing: features.voiceProcessing ? scene.voiceProcessing ?? options.voiceProcessing : undefined,
+          signal,
+          onFallback: (notice) => {
+            const sceneNumbers = fallbackScenes.get(notice) ?? [];
+            if (!sceneNumbers.includes(i + 1)) fallbackScenes.set(notice, [...sceneNumbers, i + 1]);
+          },
+        };
+        // Word timings cost another pass over the audio, so they are only worked out for what uses them
+        const wantsWords = options.subtitlesEnabled || (karaoke && scene.textStyle === 'karaoke');
+        const { audio, words } = wantsWords
+          ? await freeTTSService.generateSpeechWithTimings(scene.text, speechOptions)
+          : { audio: await freeTTSService.generateSpeech(scene.text, speechOptions), words: null };
+        const narrationFile = join(this.tempDir, `narration_${renderId}_${i}.wav`);
+        await writeFile(narrationFile, audio);
+        narrationFiles.push(narrationFile);
+        narrationDurations.push(getWavDuration(audio));
+        narrationWords.push(words);
       }
 
-      this.updateJob(jobId, {
-        currentStep: 'Combining scenes...',
-        progress: 75
+      fallbackScenes.forEach((sceneNumbers, notice) => {
+        warnings.push(`${notice} (scene${sceneNumbers.length > 1 ? 's' : ''} ${sceneNumbers.join(', ')})`);
       });
 
-      // Create concatenation list
-      const concatListFile = join(this.uploadsDir, `concat_${jobId}.txt`);
+      const timings = this.fitSceneTimings(options.scenes, narrationDurations, scenePadding);
+      const { scenes, narrationDelays } = timings;
+      warnings.push(...timings.warnings);
+      warnings.forEach(warning => onLog?.(`Warning: ${warning}`));
+      await hooks.onScenesFitted?.(scenes);
+      const totalDuration = scenes.reduce((sum, scene) => sum + scene.duration, 0);
+
+      const renderStartedAt = Date.now();
+      let renderedDuration = 0;
+
+      for (let i = 0; i < totalScenes; i++) {
+        const scene = scenes[i];
+        const sceneFile = join(this.tempDir, `scene_${renderId}_${i}.${options.outputFormat}`);
+        sceneFiles.push(sceneFile);
+        onStep?.(`Rendering scene ${i + 1} of ${totalScenes}...`);
+
+        const sceneStart = renderedDuration;
+        await this.generateSceneVideo(scene, narrationFiles[i], narrationDelays[i], karaoke ? narrationWords[i] : null, sceneFile, width, height, options, hooks, (progress) => {
+          const rendered = sceneStart + Math.min(progress.outTime, scene.duration);
+          const elapsed = (Date.now() - renderStartedAt) / 1000;
+          // ffmpeg's speed covers the current scene; before it reports one, extrapolate from wall-clock time
+          const speed = progress.speed ?? (elapsed > 0 && rendered > 0 ? rendered / elapsed : null);
+          onProgress?.({
+            percent: NARRATION_PROGRESS + (rendered / totalDuration) * SCENES_PROGRESS,
+            etaSeconds: speed ? (totalDuration - rendered) / speed : null,
+          });
+        });
+        renderedDuration += scene.duration;
+      }
+
+      if (options.subtitlesEnabled) {
+        onStep?.('Writing subtitles...');
+        const cues = buildCues(this.captionSegments(scenes, narrationDurations, narrationWords, narrationDelays), subtitleStyle.maxCharsPerLine);
+        await writeFile(srtFile, toSrt(cues));
+        await writeFile(vttFile, toWebVtt(cues));
+      }
+
+      onStep?.(burnInSubtitles ? 'Combining scenes and burning in subtitles...' : 'Combining scenes...');
+      onProgress?.({ percent: NARRATION_PROGRESS + SCENES_PROGRESS, etaSeconds: null });
+
       const concatList = sceneFiles.map(file => `file '${file}'`).join('\n');
       await writeFile(concatListFile, concatList);
 
-      // Concatenate all scenes
-      await this.runFFmpeg([
+      // Every scene has the same codecs and an audio track, so the streams can be copied as they are
+      // unless captions are drawn onto the frames, which means encoding the video once more
+      const concatCodecs = burnInSubtitles
+        ? ['-vf', burnInFilter(relative(process.cwd(), srtFile), subtitleStyle), ...VIDEO_CODECS[options.outputFormat], '-c:a', 'copy']
+        : ['-c', 'copy'];
+
+      await runFFmpeg([
         '-f', 'concat',
         '-safe', '0',
         '-i', concatListFile,
-        '-c', 'copy',
-        outputFile
-      ]);
-
-      this.updateJob(jobId, {
-        currentStep: 'Generating thumbnail...',
-        progress: 85
+        ...concatCodecs,
+        '-y',
+        joinedFile
+      ], {
+        signal,
+        onLog,
+        expectedDuration: totalDuration,
+        onProgress: (progress) => onProgress?.({
+          percent: NARRATION_PROGRESS + SCENES_PROGRESS + (progress.percent / 100) * CONCAT_PROGRESS,
+          etaSeconds: progress.etaSeconds,
+        }),
       });
 
-      // Generate thumbnail
-      await this.runFFmpeg([
+      if (musicFile) {
+        onStep?.('Mixing background music...');
+        onProgress?.({ percent: NARRATION_PROGRESS + SCENES_PROGRESS + CONCAT_PROGRESS, etaSeconds: null });
+
+        await audioMixerService.mixIntoVideo(joinedFile, musicFile, mixedFile, {
+          volume: options.backgroundMusicVolume,
+          duration: totalDuration,
+        }, AUDIO_CODECS[options.outputFormat], {
+          signal,
+          onLog,
+          onProgress: (progress) => onProgress?.({
+            percent: NARRATION_PROGRESS + SCENES_PROGRESS + CONCAT_PROGRESS + (progress.percent / 100) * MIX_PROGRESS,
+            etaSeconds: progress.etaSeconds,
+          }),
+        });
+      }
+
+      const masterStart = NARRATION_PROGRESS + SCENES_PROGRESS + CONCAT_PROGRESS + MIX_PROGRESS;
+      onProgress?.({ percent: masterStart, etaSeconds: null });
+
+      let loudness: LoudnessReport | null = null;
+      const masterSource = musicFile ? mixedFile : joinedFile;
+      if (features.loudnessMastering) {
+        onStep?.('Mastering loudness...');
+        // Older queued jobs predate the setting
+        loudness = await masterLoudness(masterSource, outputFile, options.loudnessTarget ?? 'youtube', [
+          '-c:v', 'copy',
+          ...AUDIO_CODECS[options.outputFormat],
+          '-ac', '2',
+        ], {
+          signal,
+          onLog,
+          expectedDuration: totalDuration,
+          onProgress: (progress) => onProgress?.({
+            percent: masterStart + (progress.percent / 100) * MASTER_PROGRESS,
+            etaSeconds: progress.etaSeconds,
+          }),
+        });
+      } else {
+        await copyFile(masterSource, outputFile);
+      }
+
+      onStep?.('Generating thumbnail...');
+      onProgress?.({ percent: masterStart + MASTER_PROGRESS, etaSeconds: null });
+
+      await runFFmpeg([
         '-i', outputFile,
         '-ss', '1',
         '-vframes', '1',
         '-f', 'image2',
+        '-y',
         thumbnailFile
-      ]);
-
-      this.updateJob(jobId, {
-        currentStep: 'Finalizing...',
-        progress: 95
-      });
+      ], { signal, onLog });
 
-      // Get video duration
       const duration = await this.getVideoDuration(outputFile);
 
-      // Clean up temporary files
-      await Promise.all([
-        ...sceneFiles.map(file => unlink(file).catch(() => {})),
-        unlink(concatListFile).catch(() => {})
-      ]);
-
-      this.updateJob(jobId, {
-        status: 'completed',
-        progress: 100,
-        currentStep: 'Video generation completed!',
-        result: {
-          videoUrl: `/uploads/video_${jobId}.${options.outputFormat}`,
-          thumbnailUrl: `/uploads/video_${jobId}_thumb.jpg`,
-          duration
-        }
-      });
-
+      return {
+        videoPath: outputFile,
+        thumbnailPath: thumbnailFile,
+        duration: duration || totalDuration,
+        subtitlePaths: options.subtitlesEnabled ? { srt: srtFile, vtt: vttFile } : undefined,
+        loudness,
+        warnings,
+      };
     } catch (error) {
+      await Promise.all([outputFile, thumbnailFile, srtFile, vttFile].map(file => unlink(file).catch(() => {})));
       throw error;
+    } finally {
+      await Promise.all([
+        ...sceneFiles,
+        ...narrationFiles.filter((file): file is string => file !== null),
+        concatListFile,
+        joinedFile,
+        mixedFile,
+      ].map(file => unlink(file).catch(() => {})));
     }
   }
 
   private async generateSceneVideo(
-    scene: Scene,
+    scene: RenderScene,
+    narrationFile: string | null,
+    narrationDelay: number,
+    words: WordTiming[] | null, // when the narration says each word, for karaoke
     outputFile: string,
     width: number,
     height: number,
-    frameRate: number
+    options: VideoOptions,
+    hooks: SceneRenderHooks,
+    onProgress: (progress: FFmpegProgress) => void
   ): Promise<void> {
+    const frameRate = options.frameRate;
+
     // Generate background based on type
     let backgroundFilter = '';
     
@@ -206,65 +370,139 @@ class VideoGenerationService {
     const textColor = 'white';
     const textX = '(w-text_w)/2';
     const textY = '(h-text_h)/2';
+    const displayText = ssmlToPlainText(scene.text).replace(/'/g, "\\'");
+    // Dialogue scenes name their speaker in a lower third, drawn over the animated text
+    const lowerThird = scene.speaker && options.lowerThirds !== false ? this.lowerThirdFilter(scene.speaker, width) : null;
+    const textOutput = lowerThird ? '[texted]' : '[final]';
     
+    // Karaoke without word timings, as in silent scenes, fades its text in like the default
+    const karaokeFile = scene.textStyle === 'karaoke' && words?.length ? outputFile.replace(/\.\w+$/, '.ass') : null;
+    if (karaokeFile) {
+      await writeFile(karaokeFile, toKaraokeAss(words!.map(word => ({ ...word, start: word.start + narrationDelay, end: word.end + narrationDelay })), {
+        width,
+        height,
+        fontSize,
+        maxCharsPerLine: subtitleStyleSchema.parse(options.subtitleStyle ?? {}).maxCharsPerLine,
+        end: scene.duration,
+      }));
+    }
+
     let textFilter = '';
-    switch (scene.textStyle) {
+    switch (scene.textStyle === 'karaoke' && !karaokeFile ? 'fade-in' : scene.textStyle) {
       case 'fade-in':
-        textFilter = `[colored]drawtext=text='${scene.text.replace(/'/g, "\\'")}':fontfile=/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf:fontsize=${fontSize}:fontcolor=${textColor}:x=${textX}:y=${textY}:alpha='min(t,1)'[final]`;
+        textFilter = `[colored]drawtext=text='${displayText}':fontfile=/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf:fontsize=${fontSize}:fontcolor=${textColor}:x=${textX}:y=${textY}:alpha='min(t,1)'${textOutput}`;
         break;
       case 'typewriter':
-        textFilter = `[colored]drawtext=text='${scene.text.replace(/'/g, "\\'")}':fontfile=/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf:fontsize=${fontSize}:fontcolor=${textColor}:x=${textX}:y=${textY}:enable='between(t,0,${scene.duration})'[final]`;
+        textFilter = `[colored]drawtext=text='${displayText}':fontfile=/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf:fontsize=${fontSize}:fontcolor=${textColor}:x=${textX}:y=${textY}:enable='between(t,0,${scene.duration})'${textOutput}`;
         break;
       case 'slide-up':
-        textFilter = `[colored]drawtext=text='${scene.text.replace(/'/g, "\\'")}':fontfile=/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf:fontsize=${fontSize}:fontcolor=${textColor}:x=${textX}:y='${textY}+100*(1-min(t,1))'[final]`;
+        textFilter = `[colored]drawtext=text='${displayText}':fontfile=/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf:fontsize=${fontSize}:fontcolor=${textColor}:x=${textX}:y='${textY}+100*(1-min(t,1))'${textOutput}`;
         break;
       case 'zoom':
-        textFilter = `[colored]drawtext=text='${scene.text.replace(/'/g, "\\'")}':fontfile=/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf:fontsize='${fontSize}*min(t*2,1)':fontcolor=${textColor}:x=${textX}:y=${textY}[final]`;
+        textFilter = `[colored]drawtext=text='${displayText}':fontfile=/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf:fontsize='${fontSize}*min(t*2,1)':fontcolor=${textColor}:x=${textX}:y=${textY}${textOutput}`;
+        break;
+      case 'karaoke':
+        // The .ass sits next to the scene file in temp/, whose name never needs filter escaping
+        textFilter = `[colored]subtitles=filename=${relative(process.cwd(), karaokeFile!)}${textOutput}`;
         break;
       default:
-        textFilter = `[colored]drawtext=text='${scene.text.replace(/'/g, "\\'")}':fontfile=/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf:fontsize=${fontSize}:fontcolor=${textColor}:x=${textX}:y=${textY}[final]`;
+        textFilter = `[colored]drawtext=text='${displayText}':fontfile=/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf:fontsize=${fontSize}:fontcolor=${textColor}:x=${textX}:y=${textY}${textOutput}`;
     }
 
-    const fullFilter = backgroundFilter + ';' + textFilter;
-
-    await this.runFFmpeg([
-      '-f', 'lavfi',
-      '-i', `color=black:size=${width}x${height}:duration=${scene.duration}:rate=${frameRate}`,
-      '-filter_complex', fullFilter,
-      '-map', '[final]',
-      '-t', scene.duration.toString(),
-      '-c:v', 'libx264',
-      '-preset', 'fast',
-      '-crf', '23',
-      '-an',
-      '-y',
-      outputFile
-    ]);
+    const fullFilter = backgroundFilter + ';' + textFilter + (lowerThird ? `;[texted]${lowerThird}[final]` : '');
+
+    // Silent scenes still get an audio track so all scenes share one layout for the concat
+    const audioInput = narrationFile
+      ? ['-i', narrationFile]
+      : ['-f', 'lavfi', '-i', 'anullsrc=r=48000:cl=stereo'];
+
+    try {
+      await runFFmpeg([
+        '-f', 'lavfi',
+        '-i', `color=black:size=${width}x${height}:duration=${scene.duration}:rate=${frameRate}`,
+        ...audioInput,
+        '-filter_complex', fullFilter,
+        '-map', '[final]',
+        '-map', '1:a',
+        // Delay the narration by the head padding, pad it with silence and cut it at the scene boundary
+        '-af', narrationDelay > 0 ? `adelay=${Math.round(narrationDelay * 1000)}:all=1,apad` : 'apad',
+        '-t', scene.duration.toString(),
+        ...VIDEO_CODECS[options.outputFormat],
+        ...AUDIO_CODECS[options.outputFormat],
+        '-ar', '48000',
+        '-ac', '2',
+        '-y',
+        outputFile
+      ], { signal: hooks.signal, onLog: hooks.onLog, expectedDuration: scene.duration, onProgress });
+    } finally {
+      if (karaokeFile) await unlink(karaokeFile).catch(() => {});
+    }
   }
 
-  private async runFFmpeg(args: string[]): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const ffmpeg = spawn('ffmpeg', args);
-      
-      let stdout = '';
-      let stderr = '';
-      
-      ffmpeg.stdout.on('data', (data) => {
-        stdout += data.toString();
-      });
-      
-      ffmpeg.stderr.on('data', (data) => {
-        stderr += data.toString();
-      });
-      
-      ffmpeg.on('close', (code) => {
-        if (code === 0) {
-          resolve();
-        } else {
-          reject(new Error(`FFmpeg failed with code ${code}: ${stderr}`));
+  // A name plate in the lower left that fades in with the scene
+  private lowerThirdFilter(speaker: string, width: number): string {
+    const fontSize = Math.floor(width / 45);
+    const name = speaker.replace(/'/g, "\\'");
+    return `drawtext=text='${name}':fontfile=/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf:fontsize=${fontSize}:fontcolor=white:box=1:boxcolor=black@0.6:boxborderw=${Math.round(fontSize / 2)}:x=w*0.06:y=h*0.74:alpha='min(t*2,1)'`;
+  }
+
+  // Auto scenes last as long as their narration plus padding. Fixed scenes keep their length, with a warning when
+  // that cuts the narration short; so do scenes whose narration couldn't be measured.
+  private fitSceneTimings(scenes: RenderScene[], narrationDurations: (number | null)[], padding: ScenePadding): SceneTimings {
+    const narrationDelays: number[] = [];
+    const warnings: string[] = [];
+
+    const fitted = scenes.map((scene, i) => {
+      const speech = narrationDurations[i];
+      const label = scene.title ? `Scene ${i + 1} ("${scene.title}")` : `Scene ${i + 1}`;
+
+      // Jobs queued before auto-fit existed have no mode and keep the length they asked for
+      if (!speech || scene.durationMode !== 'auto') {
+        narrationDelays.push(0);
+        if (speech && speech > scene.duration) {
+          warnings.push(`${label} is fixed at ${scene.duration}s but its narration runs ${speech.toFixed(1)}s; the last ${(speech - scene.duration).toFixed(1)}s will be cut off`);
         }
-      });
+        return scene;
+      }
+
+      const wanted = Math.ceil((padding.head + speech + padding.tail) * 10) / 10;
+      const duration = Math.min(MAX_SCENE_DURATION, Math.max(MIN_SCENE_DURATION, wanted));
+      if (padding.head + speech > duration) {
+        warnings.push(`${label} narration runs ${speech.toFixed(1)}s, past the ${MAX_SCENE_DURATION}s scene limit; split it into more scenes to keep all of it`);
+      }
+      narrationDelays.push(padding.head);
+      return { ...scene, duration };
     });
+
+    return { scenes: fitted, narrationDelays, warnings };
+  }
+
+  // Scenes run back to back for exactly their duration; captions follow the narration, which -t cuts at the scene end.
+  // Silent scenes get no captions since their text is already drawn on screen.
+  private captionSegments(
+    scenes: RenderScene[],
+    narrationDurations: (number | null)[],
+    narrationWords: (WordTiming[] | null)[],
+    narrationDelays: number[]
+  ): CaptionSegment[] {
+    const segments: CaptionSegment[] = [];
+    let start = 0;
+
+    scenes.forEach((scene, i) => {
+      if (scene.audioEnabled) {
+        const available = scene.duration - narrationDelays[i];
+        segments.push({
+          text: ssmlToPlainText(scene.text),
+          speaker: scene.speaker,
+          start: start + narrationDelays[i],
+          duration: Math.min(narrationDurations[i] || available, available),
+          words: narrationWords[i] ?? undefined,
+        });
+      }
+      start += scene.duration;
+    });
+
+    return segments;
   }
 
   private async getVideoDuration(videoFile: string): Promise<number> {
@@ -282,6 +520,8 @@ class VideoGenerationService {
         output += data.toString();
       });
       
+      ffprobe.on('error', () => resolve(0));
+
       ffprobe.on('close', (code) => {
         if (code === 0) {
           const duration = parseFloat(output.trim());
@@ -294,4 +534,4 @@ class VideoGenerationService {
   }
 }
 
-export const videoGenerationService = new VideoGenerationService();
\ No newline at end of file
+export const videoGenerationService = new VideoGenerationService();
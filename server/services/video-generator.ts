@@ -1,155 +1,810 @@
 import { FreePromptEnhancerService } from "./free-prompt-enhancer";
-import { FreeTTSService } from "./free-tts";
+import { FreeTTSService, getWavDuration } from "./free-tts";
 import { FreeVideoGeneratorService } from "./free-video-generator";
-import { VideoProject } from "@shared/schema";
-import { randomUUID } from "crypto";
+import { videoGenerationService } from "./video-generation";
+import { creditService } from "./credits";
+import { lexiconService } from "./lexicon";
+import { AUDIO_FORMATS, encodeAudioFiles } from "./audio-encoder";
+import { capabilitiesService } from "./capabilities";
+import { audioMixerService } from "./audio-mixer";
+import { masterLoudness } from "./loudness";
+import type { RenderProgressUpdate } from "./ffmpeg-runner";
+import { storage } from "../storage";
+import {
+  type GenerationJob,
+  type GenerationJobInput,
+  type GenerationJobMatch,
+  type GenerationJobResult,
+  type JobEvent,
+  type JobEventData,
+  type JobEventType,
+  type LoudnessReport,
+  type RenderScenesRequest,
+  type TTSRequest,
+  type VideoProject
+} from "@shared/schema";
+import { splitSsml } from "@shared/ssml";
+import { EventEmitter } from "events";
 import fs from "fs/promises";
 import path from "path";
+import { randomUUID } from "crypto";
+
+export type VideoGenerationJob = GenerationJob;
+export type VideoGenerationResult = GenerationJobResult;
+
+const TERMINAL_STATUSES = ["completed", "failed", "cancelled"];
+const MAX_BUFFERED_EVENTS = 200;
+const EVENT_ID_BLOCK = 100; // event ids reserved per database write
+const EVENT_RETENTION_MS = 5 * 60 * 1000; // keep a finished job's events around for late reconnects
+const RENDER_PROGRESS_START = 50;
+const RENDER_PROGRESS_END = 80;
+const SOUNDTRACK_PROGRESS_END = 83;
+const MASTERING_PROGRESS_END = 88;
+const POST_RENDER_SECONDS = 3; // thumbnail and finalizing, added to the render ETA
+const SCENE_RENDER_PROGRESS_END = 99; // scene renders report their own stages; 100 is left for completion
+const SPEECH_PROGRESS_END = 90; // synthesis; encoding the joined file takes the rest
+const SPEECH_CHUNK_CHARS = 2000; // long scripts are synthesized a few paragraphs per engine call
+const WORDS_PER_SECOND = 2.5; // typical narration pace, for quoting speech jobs before they are synthesized
+
+export interface GenerationWorkerOptions {
+  concurrency: number;
+  pollIntervalMs: number;
+  maxAttempts: number; // a job interrupted this many times is failed instead of re-queued
+  leaseMs: number; // a claimed job is orphaned once its worker hasn't renewed the claim for this long
+}
+
+// Abort reason for a job whose claim was lost, e.g. after the worker stalled and another process recovered it
+const LEASE_LOST = "lease lost";
 
-export interface VideoGenerationJob {
-  id: string;
-  projectId: string;
-  status: "pending" | "processing" | "completed" | "failed";
-  progress: number;
-  currentStep: string;
-  estimatedTimeRemaining: number;
-  error?: string;
+// A job's recent events in this process. Publishing is chained through queue so events keep their order while ids
+// are reserved.
+interface JobEventLog {
+  lastId: number;
+  nextId: number;
+  reservedUpTo: number;
+  buffer: JobEvent[];
+  queue: Promise<void>;
+  resultPublished: boolean;
 }
 
-export interface VideoGenerationResult {
-  videoUrl: string;
-  thumbnailUrl: string;
-  duration: number;
-  audioUrl?: string;
+// A job this process is working on, under the claim that set its attempt count
+interface ActiveJob {
+  controller: AbortController;
+  attempts: number;
 }
 
 export class VideoGeneratorService {
-  private jobs = new Map<string, VideoGenerationJob>();
-  private jobResults = new Map<string, VideoGenerationResult>();
   private promptEnhancer = new FreePromptEnhancerService();
   private ttsService = new FreeTTSService();
   private videoGenerator = new FreeVideoGeneratorService();
+  private options: GenerationWorkerOptions;
+  private outputDir = path.join(process.cwd(), "uploads");
+  // Jobs running in this process, keyed by id, so cancellation can reach their child processes
+  private activeJobs = new Map<string, ActiveJob>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private claiming = false;
+  private events = new EventEmitter().setMaxListeners(0);
+  private jobEvents = new Map<string, JobEventLog>();
+  // The latest pending write to each job; writes are chained so a slow one can't land after a later one
+  private jobWrites = new Map<string, Promise<unknown>>();
+
+  constructor(options: Partial<GenerationWorkerOptions> = {}) {
+    this.options = {
+      concurrency: options.concurrency ?? parseInt(process.env.GENERATION_CONCURRENCY || "1", 10),
+      pollIntervalMs: options.pollIntervalMs ?? parseInt(process.env.GENERATION_POLL_INTERVAL_MS || "2000", 10),
+      maxAttempts: options.maxAttempts ?? 3,
+      leaseMs: options.leaseMs ?? parseInt(process.env.GENERATION_LEASE_MS || "30000", 10),
+    };
+  }
 
   private delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
+  // Recovers jobs orphaned by a dead worker, then starts polling the queue
+  async start(): Promise<void> {
+    if (this.pollTimer) return;
+
+    await this.recoverExpiredJobs();
+    this.pollTimer = setInterval(() => this.poll(), this.options.pollIntervalMs);
+    this.fillWorkerSlots();
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
   async generateVideo(project: VideoProject): Promise<string> {
+    return this.enqueue("project", {
+      prompt: project.prompt,
+      style: project.style || "cinematic",
+      duration: project.duration || 8,
+      resolution: project.resolution || "720p",
+      aspectRatio: project.aspectRatio || "16:9",
+      settings: project.settings,
+      loudnessTarget: project.renderProfile?.loudnessTarget,
+      renderProfile: project.renderProfile ?? undefined,
+      lexicon: await lexiconService.rulesFor(project.userId, project.id),
+    }, project.userId, project.id);
+  }
+
+  async generateVideoDirect(input: GenerationJobInput, userId: string): Promise<string> {
+    return this.enqueue("direct", input, userId);
+  }
+
+  // Queues a studio project for server-side rendering, scene by scene
+  async renderScenes(request: RenderScenesRequest, userId: string): Promise<string> {
+    const { scenes, settings } = request;
+    return this.enqueue("scenes", {
+      prompt: settings.title,
+      style: "scenes",
+      duration: scenes.reduce((sum, scene) => sum + scene.duration, 0),
+      resolution: settings.resolution,
+      aspectRatio: "16:9",
+      scenes,
+      renderSettings: settings,
+      lexicon: await lexiconService.rulesFor(userId),
+    }, userId);
+  }
+
+  // Queues a script for synthesis to a downloadable audio file
+  async synthesizeSpeech(request: TTSRequest, userId: string): Promise<string> {
+    const words = request.text.split(/\s+/).length;
+    return this.enqueue("tts", {
+      prompt: request.text.slice(0, 200),
+      style: "tts",
+      duration: Math.ceil(words / WORDS_PER_SECOND / request.speed),
+      resolution: "audio",
+      aspectRatio: "none",
+      tts: request,
+      lexicon: await lexiconService.rulesFor(userId),
+    }, userId);
+  }
+
+  async getJobStatus(jobId: string): Promise<VideoGenerationJob | undefined> {
+    return storage.getGenerationJob(jobId);
+  }
+
+  async cancelJob(jobId: string): Promise<boolean> {
+    // The write only applies if the job is still as read, so it never overwrites a completion that got there first;
+    // when a worker claims the job in between, it is read again
+    for (;;) {
+      const job = await storage.getGenerationJob(jobId);
+      if (!job || (job.status !== "pending" && job.status !== "processing")) {
+        return false;
+      }
+
+      // Marking it first keeps a pending job from being claimed in the meantime
+      const cancelled = await this.updateJob(jobId, {
+        status: "cancelled",
+        currentStep: "Cancelled",
+        error: "Cancelled by user",
+        leaseExpiresAt: null,
+        completedAt: new Date(),
+      }, { status: job.status });
+      if (!cancelled) continue;
+
+      await creditService.refund(jobId, "cancelled by user");
+
+      // A running job finishes its own cleanup once the abort reaches the pipeline. A job running in another
+      // process finds out when its worker next renews the lease.
+      this.activeJobs.get(jobId)?.controller.abort();
+      return true;
+    }
+  }
+
+  // Charges the user up front (throwing InsufficientCreditsError if they can't pay), then queues the job
+  private async enqueue(type: string, input: GenerationJobInput, userId: string, projectId?: string): Promise<string> {
     const jobId = randomUUID();
-    
-    const job: VideoGenerationJob = {
+    await creditService.charge(userId, jobId, input);
+
+    const job = await storage.createGenerationJob({
       id: jobId,
-      projectId: project.id,
+      type,
+      userId,
+      projectId: projectId ?? null,
+      input,
       status: "pending",
       progress: 0,
-      currentStep: "Initializing",
+      currentStep: "Queued",
       estimatedTimeRemaining: 180, // 3 minutes estimate
+    }).catch(async (error) => {
+      await creditService.refund(jobId, "job could not be queued");
+      throw error;
+    });
+
+    this.fillWorkerSlots();
+    return job.id;
+  }
+
+  // Every poll renews the claims on this process's jobs, frees those whose worker died and claims more work
+  private poll(): void {
+    this.renewLeases().catch(error => console.error("Failed to renew generation job leases:", error));
+    this.recoverExpiredJobs().catch(error => console.error("Failed to recover generation jobs:", error));
+    this.fillWorkerSlots();
+  }
+
+  private leaseExpiry(): Date {
+    return new Date(Date.now() + this.options.leaseMs);
+  }
+
+  // A job that is no longer processing under this worker's claim when its lease is renewed has been taken away
+  private async renewLeases(): Promise<void> {
+    const leaseExpiresAt = this.leaseExpiry();
+    await Promise.all(Array.from(this.activeJobs, async ([jobId, { controller, attempts }]) => {
+      const renewed = await storage.updateGenerationJob(jobId, { leaseExpiresAt }, { status: "processing", attempts });
+      if (!renewed) {
+        // Cancelled from another process, or recovered (and maybe re-claimed) by one after this worker stalled
+        const current = await storage.getGenerationJob(jobId);
+        controller.abort(current?.status === "cancelled" && current.attempts === attempts ? undefined : LEASE_LOST);
+      }
+    }));
+  }
+
+  // Jobs still processing after their lease ran out lost their worker, e.g. to a crash or restart. Each is re-queued,
+  // or failed once it has been interrupted too often; sibling processes renew their own jobs and are left alone.
+  private async recoverExpiredJobs(): Promise<void> {
+    const expired = await storage.getExpiredGenerationJobs();
+    let recovered = 0;
+
+    for (const job of expired) {
+      if (this.activeJobs.has(job.id)) continue;
+
+      // Matching the attempt count leaves the job alone if another process recovered and re-claimed it meanwhile
+      const expected: GenerationJobMatch = { status: "processing", attempts: job.attempts };
+      if (job.attempts >= this.options.maxAttempts) {
+        const failed = await this.updateJob(job.id, {
+          status: "failed",
+          error: `Interrupted ${job.attempts} times, giving up`,
+          leaseExpiresAt: null,
+          completedAt: new Date(),
+        }, expected);
+        if (!failed) continue;
+        await creditService.refund(job.id, "interrupted too many times");
+      } else {
+        const requeued = await this.updateJob(job.id, {
+          status: "pending",
+          progress: 0,
+          currentStep: "Re-queued after its worker stopped",
+          leaseExpiresAt: null,
+        }, expected);
+        if (!requeued) continue;
+      }
+      recovered++;
+    }
+
+    if (recovered > 0) {
+      console.log(`Recovered ${recovered} interrupted generation job(s)`);
+    }
+  }
+
+  private fillWorkerSlots(): void {
+    if (this.claiming) return;
+    this.claiming = true;
+
+    this.claimJobs()
+      .catch(error => console.error("Failed to claim generation jobs:", error))
+      .finally(() => {
+        this.claiming = false;
+      });
+  }
+
+  private async claimJobs(): Promise<void> {
+    while (this.activeJobs.size < this.options.concurrency) {
+      const job = await storage.claimNextGenerationJob(this.leaseExpiry());
+      if (!job) return;
+
+      const controller = new AbortController();
+      this.activeJobs.set(job.id, { controller, attempts: job.attempts });
+      this.processVideoGeneration(job, controller.signal).finally(() => {
+        this.activeJobs.delete(job.id);
+        this.fillWorkerSlots();
+      });
+    }
+  }
+
+  // Streams a job's events to the listener and returns an unsubscribe function. A cursor of 0, or one
+  // older than what is still buffered, gets a snapshot of the stored job before the live events.
+  async subscribe(jobId: string, cursor: number, listener: (event: JobEvent) => void): Promise<() => void> {
+    const before = this.jobEvents.get(jobId);
+    const canReplay = before && cursor > 0 && before.buffer.length > 0 && cursor >= before.buffer[0].id - 1;
+
+    let replayFrom = cursor;
+    if (!canReplay) {
+      const seenBeforeRead = before?.lastId ?? 0;
+      const job = await storage.getGenerationJob(jobId);
+      if (job) {
+        // Without local events, the job's reserved ids are all older than anything published from here on
+        listener({ id: this.jobEvents.get(jobId)?.lastId ?? job.eventSeq, type: "snapshot", data: job });
+      }
+      // Anything published while the snapshot was loading is replayed; the events are idempotent
+      replayFrom = seenBeforeRead;
+    }
+
+    this.jobEvents.get(jobId)?.buffer
+      .filter(event => event.id > replayFrom)
+      .forEach(listener);
+
+    this.events.on(jobId, listener);
+    return () => {
+      this.events.off(jobId, listener);
     };
+  }
 
-    this.jobs.set(jobId, job);
+  private publish<T extends JobEventType>(jobId: string, type: T, data: JobEventData[T]): void {
+    let log = this.jobEvents.get(jobId);
+    if (!log) {
+      log = { lastId: 0, nextId: 1, reservedUpTo: 0, buffer: [], queue: Promise.resolve(), resultPublished: false };
+      this.jobEvents.set(jobId, log);
+    }
 
-    // Start generation process in background
-    this.processVideoGeneration(job, project).catch((error) => {
-      job.status = "failed";
-      job.error = error.message;
-    });
+    // A job ends once, however many paths (a cancel and the aborted render, say) go on to report it
+    if (type === "result") {
+      if (log.resultPublished) return;
+      log.resultPublished = true;
+    }
+
+    const current = log;
+    current.queue = current.queue
+      .then(async () => {
+        // TypeScript can't narrow T here, but the signature already pairs type with its data
+        const event = { id: await this.nextEventId(jobId, current), type, data } as JobEvent;
+        current.lastId = event.id;
+        current.buffer.push(event);
+        if (current.buffer.length > MAX_BUFFERED_EVENTS) {
+          current.buffer.shift();
+        }
+
+        this.events.emit(jobId, event);
 
-    return jobId;
+        if (type === "result") {
+          setTimeout(() => this.jobEvents.delete(jobId), EVENT_RETENTION_MS).unref();
+        }
+      })
+      .catch(error => console.error(`Failed to publish ${type} event for job ${jobId}:`, error));
   }
 
-  getJobStatus(jobId: string): VideoGenerationJob | undefined {
-    return this.jobs.get(jobId);
+  private async nextEventId(jobId: string, log: JobEventLog): Promise<number> {
+    if (log.nextId > log.reservedUpTo) {
+      const reservedUpTo = await storage.reserveGenerationJobEventIds(jobId, EVENT_ID_BLOCK);
+      if (reservedUpTo === undefined) {
+        throw new Error("job not found");
+      }
+      log.nextId = reservedUpTo - EVENT_ID_BLOCK + 1;
+      log.reservedUpTo = reservedUpTo;
+    }
+    return log.nextId++;
   }
 
-  getJobResult(jobId: string): VideoGenerationResult | undefined {
-    return this.jobResults.get(jobId);
+  // Writes the update and publishes what changed; with expected, nothing happens unless the row still matches it.
+  // A job's writes apply in the order they were made, however long each takes.
+  private updateJob(
+    jobId: string,
+    updates: Partial<VideoGenerationJob>,
+    expected?: GenerationJobMatch
+  ): Promise<VideoGenerationJob | undefined> {
+    const previous = this.jobWrites.get(jobId) ?? Promise.resolve();
+    const write = previous.then(() => this.writeJob(jobId, updates, expected));
+    const settled = write.catch(() => {});
+    this.jobWrites.set(jobId, settled);
+    settled.then(() => {
+      if (this.jobWrites.get(jobId) === settled) {
+        this.jobWrites.delete(jobId);
+      }
+    });
+    return write;
   }
 
-  async cancelJob(jobId: string): Promise<boolean> {
-    const job = this.jobs.get(jobId);
-    if (job && job.status === "processing") {
-      job.status = "failed";
-      job.error = "Cancelled by user";
-      return true;
+  private async writeJob(
+    jobId: string,
+    updates: Partial<VideoGenerationJob>,
+    expected?: GenerationJobMatch
+  ): Promise<VideoGenerationJob | undefined> {
+    const job = await storage.updateGenerationJob(jobId, updates, expected);
+    if (!job) return undefined;
+
+    if (updates.status) {
+      this.publish(jobId, "status", { status: updates.status });
+    }
+    if (updates.progress !== undefined || updates.estimatedTimeRemaining !== undefined) {
+      this.publish(jobId, "progress", {
+        progress: job.progress,
+        estimatedTimeRemaining: job.estimatedTimeRemaining,
+      });
+    }
+    if (updates.currentStep) {
+      this.publish(jobId, "step", { currentStep: updates.currentStep });
     }
-    return false;
+    if (updates.status && TERMINAL_STATUSES.includes(updates.status)) {
+      this.publish(jobId, "result", {
+        status: job.status,
+        result: job.result,
+        error: job.error,
+      });
+    }
+    return job;
+  }
+
+  private publishLog(jobId: string): (line: string) => void {
+    return (line: string) => this.publish(jobId, "log", { message: line });
+  }
+
+  // Maps render progress onto part of the job's range, writing only when the whole percentage or ETA changes
+  private trackRenderProgress(jobId: string, start: number, end: number): (update: RenderProgressUpdate) => void {
+    let lastProgress = -1;
+    let lastEta = -1;
+
+    return (update) => {
+      const progress = Math.floor(start + (end - start) * update.percent / 100);
+      const eta = update.etaSeconds !== null ? Math.ceil(update.etaSeconds) + POST_RENDER_SECONDS : lastEta;
+      if (progress === lastProgress && eta === lastEta) return;
+
+      lastProgress = progress;
+      lastEta = eta;
+      this.updateJob(jobId, {
+        progress,
+        ...(eta >= 0 ? { estimatedTimeRemaining: eta } : {}),
+      }).catch(error => console.error(`Failed to record progress for job ${jobId}:`, error));
+    };
+  }
+
+  // Removes everything a job may have written so a cancelled render leaves nothing behind
+  private async removeJobArtifacts(jobId: string): Promise<void> {
+    await Promise.all([
+      `video_${jobId}.mp4`,
+      `video_${jobId}.webm`,
+      `video_${jobId}_thumb.jpg`,
+      `video_${jobId}.srt`,
+      `video_${jobId}.vtt`,
+      `narration_${jobId}.wav`,
+      ...Object.values(AUDIO_FORMATS).map(format => `tts_${jobId}.${format.extension}`),
+    ].map(file => fs.unlink(path.join(this.outputDir, file)).catch(() => {})));
   }
 
-  private async processVideoGeneration(job: VideoGenerationJob, project: VideoProject): Promise<void> {
+  private async processVideoGeneration(job: VideoGenerationJob, signal: AbortSignal): Promise<void> {
+    // Every terminal write is guarded by this claim, so a worker that stalled past its lease can't overwrite the
+    // outcome of the one that recovered the job
+    const claim: GenerationJobMatch = { status: "processing", attempts: job.attempts };
     try {
-      job.status = "processing";
-      job.currentStep = "Enhancing prompt";
-      job.progress = 10;
-
-      // Step 1: Enhance the video prompt using free AI
-      const enhancedPrompt = await this.promptEnhancer.enhancePrompt(
-        project.prompt,
-        project.style || "cinematic",
-        project.duration || 8,
-        project.resolution || "720p",
-        project.aspectRatio || "16:9"
-      );
+      const result = job.type === "scenes"
+        ? await this.renderSceneJob(job, signal)
+        : job.type === "tts"
+          ? await this.renderSpeechJob(job, signal)
+          : await this.renderPromptJob(job, signal);
+
+      // Only a job still processing under this claim completes; one cancelled during the last step stays cancelled
+      // and refunded
+      const completed = await this.updateJob(job.id, {
+        status: "completed",
+        progress: 100,
+        currentStep: job.type === "tts" ? "Speech synthesis complete" : "Video generation complete",
+        estimatedTimeRemaining: 0,
+        result,
+        leaseExpiresAt: null,
+        completedAt: new Date(),
+      }, claim);
+
+      if (!completed) {
+        const current = await storage.getGenerationJob(job.id);
+        if (current?.status === "cancelled" && current.attempts === job.attempts) {
+          await this.cleanUpCancelledJob(job);
+        } else {
+          console.warn(`Lost the lease on generation job ${job.id}; discarded its result`);
+        }
+        return;
+      }
+
+      if (job.projectId) {
+        await storage.updateVideoProject(job.projectId, {
+          status: "completed",
+          videoUrl: result.videoUrl,
+          thumbnailUrl: result.thumbnailUrl,
+        });
+      }
+
+    } catch (error) {
+      // Another worker owns the job now and writes the same files, so leave everything to it
+      if (signal.reason === LEASE_LOST) {
+        console.warn(`Lost the lease on generation job ${job.id}; stopped working on it`);
+        return;
+      }
+      if (signal.aborted) {
+        // cancelJob has normally recorded the cancellation and refunded already; this covers any other abort
+        const cancelled = await this.updateJob(job.id, {
+          status: "cancelled",
+          currentStep: "Cancelled",
+          error: "Cancelled by user",
+          leaseExpiresAt: null,
+          completedAt: new Date(),
+        }, claim).catch(updateError => console.error(`Failed to record cancellation for job ${job.id}:`, updateError));
+        if (cancelled) {
+          await creditService.refund(job.id, "cancelled by user");
+        }
+        await this.cleanUpCancelledJob(job);
+        return;
+      }
+
+      const failed = await this.updateJob(job.id, {
+        status: "failed",
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+        progress: 0,
+        leaseExpiresAt: null,
+        completedAt: new Date(),
+      }, claim).catch(updateError => console.error(`Failed to record failure for job ${job.id}:`, updateError));
+      // A job cancelled meanwhile was refunded by the cancellation; one recovered by another worker is its to finish
+      if (!failed) return;
+      await creditService.refund(job.id, "generation failed");
 
-      job.currentStep = "Analyzing content for audio";
-      job.progress = 20;
-
-      // Step 2: Analyze content for audio recommendations
-      const contentAnalysis = await this.promptEnhancer.analyzeVideoContent(project.prompt);
-
-      job.currentStep = "Generating AI voice";
-      job.progress = 30;
-
-      // Generate TTS audio for the project
-      const ttsOptions = {
-        voice: "coqui-female-en", // Default voice
-        speed: 1.0,
-        pitch: 0,
-        volume: 100
-      };
-
-      job.currentStep = "Generating video content";
-      job.progress = 50;
-
-      // Generate actual video using FFmpeg and free tools
-      const videoPath = await this.videoGenerator.generateVideo({
-        prompt: enhancedPrompt,
-        style: project.style || "cinematic",
-        duration: project.duration || 8,
-        resolution: project.resolution || "720p",
-        aspectRatio: project.aspectRatio || "16:9"
+      if (job.projectId) {
+        await storage.updateVideoProject(job.projectId, { status: "failed" }).catch(() => {});
+      }
+    }
+  }
+
+  private async cleanUpCancelledJob(job: VideoGenerationJob): Promise<void> {
+    await this.removeJobArtifacts(job.id);
+    if (job.projectId) {
+      await storage.updateVideoProject(job.projectId, { status: "cancelled" }).catch(() => {});
+    }
+  }
+
+  // Free pipeline for a single prompt: enhance, narrate, render, thumbnail
+  private async renderPromptJob(job: VideoGenerationJob, signal: AbortSignal): Promise<VideoGenerationResult> {
+    const input = job.input;
+
+    await this.updateJob(job.id, {
+      currentStep: "Enhancing prompt",
+      progress: 10,
+    });
+
+    // Step 1: Enhance the video prompt using free AI
+    const enhancedPrompt = await this.promptEnhancer.enhancePrompt(
+      input.prompt,
+      input.style,
+      input.duration,
+      input.resolution,
+      input.aspectRatio
+    );
+    signal.throwIfAborted();
+
+    await this.updateJob(job.id, {
+      currentStep: "Analyzing content for audio",
+      progress: 20,
+    });
+
+    // Step 2: Analyze content for audio recommendations
+    const contentAnalysis = await this.promptEnhancer.analyzeVideoContent(input.prompt);
+    signal.throwIfAborted();
+
+    await this.updateJob(job.id, {
+      currentStep: "Generating AI voice",
+      progress: 30,
+    });
+
+    // Generate TTS audio for the project when it has a voice-over script
+    let audioUrl = "/uploads/demo-audio.wav";
+    let narrationPath: string | null = null;
+    const script = input.settings?.voice?.script?.trim();
+    if (script) {
+      const audioBuffer = await this.ttsService.generateSpeech(script, {
+        voice: input.settings?.voice?.model || "coqui-female-en", // Default voice
+        speed: input.settings?.voice?.speed || 1.0,
+        pitch: input.settings?.voice?.pitch || 0,
+        volume: 1.0,
+        lexicon: input.lexicon,
+        signal,
       });
+      const audioFile = `narration_${job.id}.wav`;
+      // Mastered on its own too, since it is also offered as a download
+      await this.videoGenerator.masterNarration(
+        audioBuffer,
+        path.join(this.outputDir, audioFile),
+        input.loudnessTarget ?? "youtube",
+        signal,
+        this.publishLog(job.id),
+      );
+      audioUrl = `/uploads/${audioFile}`;
+      narrationPath = path.join(this.outputDir, audioFile);
+    }
+
+    await this.updateJob(job.id, {
+      currentStep: "Generating video content",
+      progress: RENDER_PROGRESS_START,
+    });
 
-      job.currentStep = "Creating thumbnail";
-      job.progress = 80;
-
-      // Generate thumbnail from video
-      const thumbnailPath = await this.videoGenerator.generateThumbnail(videoPath);
-
-      job.currentStep = "Finalizing video";
-      job.progress = 90;
-
-      await this.delay(1000);
-      
-      // Mark as completed with real result
-      job.status = "completed";
-      job.progress = 100;
-      job.currentStep = "Video generation complete";
-
-      // Store real video result
-      const videoUrl = `/uploads/${path.basename(videoPath)}`;
-      const thumbnailUrl = `/uploads/${path.basename(thumbnailPath)}`;
-      
-      this.jobResults.set(job.id, {
-        videoUrl,
-        thumbnailUrl,
-        duration: project.duration || 8,
-        audioUrl: "/uploads/demo-audio.wav"
+    // Generate actual video using FFmpeg and free tools
+    const videoPath = await this.videoGenerator.generateVideo({
+      prompt: enhancedPrompt,
+      style: input.style,
+      duration: input.duration,
+      resolution: input.resolution,
+      aspectRatio: input.aspectRatio,
+      profile: input.renderProfile,
+      outputPath: path.join(this.outputDir, `video_${job.id}.mp4`),
+      signal,
+      onLog: this.publishLog(job.id),
+      onProgress: this.trackRenderProgress(job.id, RENDER_PROGRESS_START, RENDER_PROGRESS_END),
+    });
+
+    // The render is silent; lay the narration and the project's music under it, then master the mix as delivered
+    const { features } = await capabilitiesService.get();
+    const musicTrack = input.settings?.audio?.bgmTrack;
+    const musicFile = musicTrack && features.musicMixing ? await audioMixerService.resolveTrack(musicTrack) : null;
+    if (musicTrack && !musicFile) {
+      this.publishLog(job.id)(`Background music "${musicTrack}" is unavailable; rendering without it`);
+    }
+    let loudness: LoudnessReport | null = null;
+    if (narrationPath || musicFile) {
+      await this.updateJob(job.id, {
+        currentStep: "Mixing soundtrack",
+        progress: RENDER_PROGRESS_END,
       });
 
-    } catch (error) {
-      job.status = "failed";
-      job.error = error instanceof Error ? error.message : "Unknown error occurred";
-      job.progress = 0;
+      const silentPath = videoPath.replace(/\.mp4$/, "_silent.mp4");
+      const mixedPath = videoPath.replace(/\.mp4$/, "_mixed.mp4");
+      await fs.rename(videoPath, silentPath);
+      try {
+        await audioMixerService.addSoundtrack(silentPath, narrationPath, musicFile, mixedPath, {
+          volume: input.settings?.audio?.bgmVolume ?? 30,
+          duration: input.duration,
+        }, ["-c:a", "aac", "-b:a", "192k"], {
+          signal,
+          onLog: this.publishLog(job.id),
+          onProgress: this.trackRenderProgress(job.id, RENDER_PROGRESS_END, SOUNDTRACK_PROGRESS_END),
+        });
+
+        if (features.loudnessMastering) {
+          await this.updateJob(job.id, {
+            currentStep: "Mastering loudness",
+            progress: SOUNDTRACK_PROGRESS_END,
+          });
+          // Older queued jobs predate the setting
+          loudness = await masterLoudness(mixedPath, videoPath, input.loudnessTarget ?? "youtube", [
+            "-c:v", "copy",
+            "-c:a", "aac", "-b:a", "192k",
+            "-ac", "2",
+          ], {
+            signal,
+            onLog: this.publishLog(job.id),
+            expectedDuration: input.duration,
+            onProgress: this.trackRenderProgress(job.id, SOUNDTRACK_PROGRESS_END, MASTERING_PROGRESS_END),
+          });
+        } else {
+          await fs.rename(mixedPath, videoPath);
+        }
+      } finally {
+        await fs.unlink(silentPath).catch(() => {});
+        await fs.unlink(mixedPath).catch(() => {});
+      }
+    }
+
+    await this.updateJob(job.id, {
+      currentStep: "Creating thumbnail",
+      progress: MASTERING_PROGRESS_END,
+    });
+
+    // Generate thumbnail from video
+    const thumbnailPath = await this.videoGenerator.generateThumbnail(videoPath, signal, this.publishLog(job.id));
+
+    await this.updateJob(job.id, {
+      currentStep: "Finalizing video",
+      progress: 90,
+    });
+
+    await this.delay(1000);
+    signal.throwIfAborted();
+
+    return {
+      videoUrl: `/uploads/${path.basename(videoPath)}`,
+      thumbnailUrl: `/uploads/${path.basename(thumbnailPath)}`,
+      duration: input.duration,
+      audioUrl,
+      loudness: loudness ?? undefined,
+    };
+  }
+
+  // Studio projects: every scene is narrated and rendered on its own, then joined
+  private async renderSceneJob(job: VideoGenerationJob, signal: AbortSignal): Promise<VideoGenerationResult> {
+    const { scenes, renderSettings, lexicon } = job.input;
+    if (!scenes || !renderSettings) {
+      throw new Error("Scene render job is missing its scenes");
+    }
+
+    const rendered = await videoGenerationService.renderScenes(job.id, { ...renderSettings, scenes, lexicon }, {
+      signal,
+      onLog: this.publishLog(job.id),
+      onStep: (step) => {
+        this.updateJob(job.id, { currentStep: step })
+          .catch(error => console.error(`Failed to record step for job ${job.id}:`, error));
+      },
+      onProgress: this.trackRenderProgress(job.id, 0, SCENE_RENDER_PROGRESS_END),
+      // The job was charged on the placeholder lengths of its auto-fit scenes
+      onScenesFitted: async (fitted) => {
+        if (!job.userId) return;
+        const duration = fitted.reduce((sum, scene) => sum + scene.duration, 0);
+        await creditService.settle(job.userId, job.id, { ...job.input, scenes: fitted, duration });
+      },
+    });
+
+    return {
+      videoUrl: `/uploads/${path.basename(rendered.videoPath)}`,
+      thumbnailUrl: `/uploads/${path.basename(rendered.thumbnailPath)}`,
+      duration: rendered.duration,
+      srtUrl: rendered.subtitlePaths && `/uploads/${path.basename(rendered.subtitlePaths.srt)}`,
+      vttUrl: rendered.subtitlePaths && `/uploads/${path.basename(rendered.subtitlePaths.vtt)}`,
+      loudness: rendered.loudness ?? undefined,
+      warnings: rendered.warnings.length > 0 ? rendered.warnings : undefined,
+    };
+  }
+
+  // Speech-only jobs from /api/tts: the script is synthesized a few paragraphs at a time, then joined and encoded
+  private async renderSpeechJob(job: VideoGenerationJob, signal: AbortSignal): Promise<VideoGenerationResult> {
+    const request = job.input.tts;
+    if (!request) {
+      throw new Error("Speech job is missing its script");
+    }
+
+    const { features } = await capabilitiesService.get();
+    if (!features.audioFormats.includes(request.format)) {
+      throw new Error(`ffmpeg on this server has no ${AUDIO_FORMATS[request.format].label} encoder`);
+    }
+
+    const warnings = new Set<string>();
+    if (request.voiceProcessing && !features.voiceProcessing) {
+      warnings.add("ffmpeg on this server lacks the filters for voice processing, so the speech is unprocessed");
     }
+
+    const tempDir = path.join(process.cwd(), "temp");
+    await fs.mkdir(tempDir, { recursive: true });
+    // Balanced markup in every chunk keeps breaks, prosody and say-as intact across the split
+    const chunks = splitSsml(request.text, SPEECH_CHUNK_CHARS);
+    const chunkFiles: string[] = [];
+    const outputFile = path.join(this.outputDir, `tts_${job.id}.${AUDIO_FORMATS[request.format].extension}`);
+    let duration = 0;
+
+    try {
+      for (let i = 0; i < chunks.length; i++) {
+        await this.updateJob(job.id, {
+          currentStep: chunks.length > 1 ? `Synthesizing part ${i + 1} of ${chunks.length}` : "Synthesizing speech",
+          progress: Math.floor((i / chunks.length) * SPEECH_PROGRESS_END),
+        });
+
+        const audio = await this.ttsService.generateSpeech(chunks[i], {
+          voice: request.voiceId,
+          speed: request.speed,
+          pitch: request.pitch,
+          volume: 1.0,
+          lexicon: job.input.lexicon,
+          processing: features.voiceProcessing ? request.voiceProcessing : undefined,
+          signal,
+          onFallback: (notice) => warnings.add(notice),
+        });
+        const chunkFile = path.join(tempDir, `tts_${job.id}_${i}.wav`);
+        await fs.writeFile(chunkFile, audio);
+        chunkFiles.push(chunkFile);
+        duration += getWavDuration(audio) ?? 0;
+      }
+
+      await this.updateJob(job.id, {
+        currentStep: `Encoding ${AUDIO_FORMATS[request.format].label}`,
+        progress: SPEECH_PROGRESS_END,
+      });
+      await encodeAudioFiles(chunkFiles, outputFile, request, {
+        signal,
+        onLog: this.publishLog(job.id),
+        expectedDuration: duration,
+      });
+    } finally {
+      await Promise.all(chunkFiles.map(file => fs.unlink(file).catch(() => {})));
+    }
+
+    return {
+      audioUrl: `/uploads/${path.basename(outputFile)}`,
+      duration,
+      warnings: warnings.size > 0 ? Array.from(warnings) : undefined,
+    };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,63 @@
+import { randomUUID } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import type { VoiceProcessing } from "@shared/schema";
+import { resolveVoiceChain, type VoiceChain } from "@shared/voice-processing";
+import { runFFmpeg } from "./ffmpeg-runner";
+
+const TEMP_DIR = path.join(process.cwd(), "temp");
+const SAMPLE_RATE = 44100;
+
+// The voice's filters for ffmpeg's -filter_complex, reading [0:a] and writing [voice]. Room tone is pink noise mixed
+// in at -60 to -40 dBFS; amerge ends with the voice, since the noise source never does.
+export function voiceFilterGraph(chain: VoiceChain): string {
+  const filters = [`aresample=${SAMPLE_RATE}`, "aformat=sample_fmts=fltp:channel_layouts=mono"];
+  if (chain.highpass > 0) filters.push(`highpass=f=${chain.highpass}`);
+  if (chain.lowpass) filters.push(`lowpass=f=${chain.lowpass}`);
+  if (chain.bass) filters.push(`bass=g=${chain.bass}:f=120`);
+  if (chain.presence) filters.push(`equalizer=f=3000:t=q:w=1:g=${chain.presence}`);
+  if (chain.deEssing > 0) filters.push(`deesser=i=${chain.deEssing}:m=0.5:f=0.5`);
+  if (chain.compression > 0) {
+    // Heavier settings compress earlier and harder, and win back more of the level they took
+    const threshold = -10 - 20 * chain.compression;
+    const ratio = 1 + 7 * chain.compression;
+    const makeup = Math.pow(10, (6 * chain.compression) / 20);
+    filters.push(`acompressor=threshold=${threshold}dB:ratio=${ratio.toFixed(2)}:attack=5:release=120:makeup=${makeup.toFixed(2)}`);
+  }
+  // EQ boosts and make-up gain can push peaks over full scale
+  filters.push("alimiter=limit=0.95");
+
+  if (chain.roomTone <= 0) return `[0:a]${filters.join(",")}[voice]`;
+
+  const amplitude = Math.pow(10, (-60 + 20 * chain.roomTone) / 20);
+  return [
+    `[0:a]${filters.join(",")}[dry]`,
+    `anoisesrc=color=pink:sample_rate=${SAMPLE_RATE}:amplitude=${amplitude.toFixed(5)}[tone]`,
+    "[dry][tone]amerge=inputs=2,pan=mono|c0=c0+c1[voice]",
+  ].join(";");
+}
+
+// Runs a WAV through the chosen chain and returns it as 16-bit WAV; with no processing asked for it comes back as is
+export async function processVoice(audio: Buffer, processing: VoiceProcessing | undefined, signal?: AbortSignal): Promise<Buffer> {
+  const chain = resolveVoiceChain(processing);
+  if (!chain) return audio;
+
+  await fs.mkdir(TEMP_DIR, { recursive: true });
+  const id = randomUUID();
+  const inputFile = path.join(TEMP_DIR, `voice_${id}_in.wav`);
+  const outputFile = path.join(TEMP_DIR, `voice_${id}_out.wav`);
+
+  try {
+    await fs.writeFile(inputFile, audio);
+    await runFFmpeg([
+      "-i", inputFile,
+      "-filter_complex", voiceFilterGraph(chain),
+      "-map", "[voice]",
+      "-c:a", "pcm_s16le",
+      "-y", outputFile
+    ], { signal });
+    return await fs.readFile(outputFile);
+  } finally {
+    await Promise.all([inputFile, outputFile].map(file => fs.unlink(file).catch(() => {})));
+  }
+}
@@ -0,0 +1,155 @@
+import { randomUUID } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { runFFmpeg } from "./ffmpeg-runner";
+import { normalizeText } from "./text-normalizer";
+import { ttsRegistry, type TTSProvider } from "./tts-registry";
+
+const TEMP_DIR = path.join(process.cwd(), "temp");
+
+// Quieter than this for long enough counts as a pause between words
+const SILENCE_NOISE_DB = -35;
+const MIN_SILENCE_SECONDS = 0.15;
+
+export interface PhonemeTiming {
+  phoneme: string;
+  start: number; // seconds from the start of the audio
+  end: number;
+}
+
+export interface WordTiming {
+  word: string; // as written in the script, punctuation included
+  start: number; // seconds from the start of the audio
+  end: number;
+  phonemes?: PhonemeTiming[]; // only when an engine could transcribe the word
+}
+
+// Works out when each written word of the script is said in its narration, which none of the engines report
+// themselves. The audio's pauses are found with ffmpeg's silencedetect and the words are laid end to end over
+// the stretches in between, each taking time in proportion to its phonemes where an installed engine can
+// transcribe them and to its syllables otherwise. Words are measured as they are said, so "₹500" counts as
+// "five hundred rupees".
+export async function alignWords(audio: Buffer, duration: number, text: string, language: string, signal?: AbortSignal): Promise<WordTiming[]> {
+  const words = text.split(/\s+/).filter(Boolean);
+  if (words.length === 0 || duration <= 0) return [];
+
+  const spoken = words.map(word => normalizeText(word, language));
+  const [phonemes, speech] = await Promise.all([
+    phonemizeWords(spoken, language, signal),
+    speechSpans(audio, duration, signal),
+  ]);
+
+  const weights = spoken.map((word, i) => phonemes?.[i].length || syllableCount(word));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const speechTime = speech.reduce((sum, [start, end]) => sum + end - start, 0);
+
+  let before = 0;
+  return words.map((word, i) => {
+    const start = timeAt(speech, (before / totalWeight) * speechTime, false);
+    before += weights[i];
+    const end = timeAt(speech, (before / totalWeight) * speechTime, true);
+
+    const wordPhonemes = phonemes?.[i];
+    if (!wordPhonemes?.length) return { word, start, end };
+    const step = (end - start) / wordPhonemes.length;
+    return {
+      word,
+      start,
+      end,
+      phonemes: wordPhonemes.map((phoneme, j) => ({ phoneme, start: start + j * step, end: start + (j + 1) * step })),
+    };
+  });
+}
+
+// Each word's phonemes from the first installed engine that transcribes the language; null when none can, or it fails
+async function phonemizeWords(words: string[], language: string, signal?: AbortSignal): Promise<string[][] | null> {
+  let phonemizer: TTSProvider | undefined;
+  for (const provider of ttsRegistry.listProviders()) {
+    if (!provider.phonemize || !provider.capabilities.languages.includes(language)) continue;
+    if ((await ttsRegistry.probe(provider.id)).available) {
+      phonemizer = provider;
+      break;
+    }
+  }
+  if (!phonemizer) return null;
+
+  // One call per distinct word keeps what the engine says matched to the written word it came from
+  const transcribed = new Map<string, string[]>();
+  try {
+    for (const word of words) {
+      if (!transcribed.has(word)) {
+        transcribed.set(word, (await phonemizer.phonemize!(word, language, signal)).flat());
+      }
+    }
+  } catch (error) {
+    signal?.throwIfAborted();
+    console.warn(`${phonemizer.name} couldn't transcribe the script, timing words by syllables:`, error);
+    return null;
+  }
+  return words.map(word => transcribed.get(word)!);
+}
+
+// The audio's non-silent stretches as [start, end] seconds; all of it when silencedetect finds nothing or fails
+async function speechSpans(audio: Buffer, duration: number, signal?: AbortSignal): Promise<[number, number][]> {
+  await fs.mkdir(TEMP_DIR, { recursive: true });
+  const inputFile = path.join(TEMP_DIR, `align_${randomUUID()}.wav`);
+  const silences: [number, number][] = [];
+
+  try {
+    await fs.writeFile(inputFile, audio);
+    let silenceStart = null as number | null;
+    await runFFmpeg([
+      "-i", inputFile,
+      "-af", `silencedetect=noise=${SILENCE_NOISE_DB}dB:d=${MIN_SILENCE_SECONDS}`,
+      "-f", "null",
+      "-"
+    ], {
+      signal,
+      onLog: (line) => {
+        const start = line.match(/silence_start: (-?[\d.]+)/);
+        const end = line.match(/silence_end: ([\d.]+)/);
+        if (start) silenceStart = Math.max(0, parseFloat(start[1]));
+        if (end && silenceStart !== null) {
+          silences.push([silenceStart, parseFloat(end[1])]);
+          silenceStart = null;
+        }
+      },
+    });
+    // Audio that ends in silence reports no end for it
+    if (silenceStart !== null) silences.push([silenceStart, duration]);
+  } catch (error) {
+    signal?.throwIfAborted();
+    console.warn("Couldn't find the pauses in the narration, timing words across all of it:", error);
+    silences.length = 0;
+  } finally {
+    await fs.unlink(inputFile).catch(() => {});
+  }
+
+  const spans: [number, number][] = [];
+  let time = 0;
+  for (const [start, end] of silences) {
+    if (start - time > 0.05) spans.push([time, start]);
+    time = Math.max(time, end);
+  }
+  if (duration - time > 0.05) spans.push([time, duration]);
+  return spans.length > 0 ? spans : [[0, duration]];
+}
+
+// Where an offset into the speech falls in the audio. A word ending exactly where a stretch does ends there,
+// rather than at the start of the next one.
+function timeAt(spans: [number, number][], offset: number, isEnd: boolean): number {
+  for (const [start, end] of spans) {
+    const length = end - start;
+    if (offset < length || (isEnd && offset <= length + 1e-9)) return start + offset;
+    offset -= length;
+  }
+  return spans[spans.length - 1][1];
+}
+
+// Vowel groups for Latin script and akshara for Devanagari, which is as close as spelling gets to syllables;
+// every word takes at least one so numbers left as digits and symbols still get a moment
+function syllableCount(word: string): number {
+  const latin = word.toLowerCase().match(/[aeiouy]+/g)?.length ?? 0;
+  const devanagari = word.match(/[अ-ह]/g)?.length ?? 0;
+  return Math.max(1, latin + devanagari);
+}
@@ -0,0 +1,102 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "module";
+import session from "express-session";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import type { InsertGenerationJob } from "@shared/schema";
+import type { Database } from "./db";
+import { DbStorage } from "./storage";
+import { sampleAvatarModels, sampleBackgroundMusic, sampleSoundEffects, sampleVoiceModels, seedDatabase } from "./seed";
+
+// drizzle-kit's ESM build can't load under tsx, so its CommonJS one builds the tables from the schema
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+function pendingJob(id: string): InsertGenerationJob {
+  return { id, type: "direct", userId: null, input: { prompt: id, style: "cinematic", duration: 8, resolution: "720p", aspectRatio: "16:9" }, status: "pending" };
+}
+
+// Runs against PGlite, a real Postgres in this process, so locking clauses and conflict handling behave as in production
+describe("DbStorage", () => {
+  let client: PGlite;
+  let db: Database;
+  let storage: DbStorage;
+
+  before(async () => {
+    client = new PGlite();
+    for (const statement of await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) {
+      await client.exec(statement);
+    }
+    db = drizzle({ client, schema });
+    storage = new DbStorage(db, new session.MemoryStore());
+  });
+
+  after(async () => {
+    await client.close();
+  });
+
+  it("seeds the catalogues once however often it runs", async () => {
+    await seedDatabase(db);
+    await seedDatabase(db);
+
+    assert.equal((await storage.getVoiceModels()).length, sampleVoiceModels.length);
+    assert.equal((await storage.getAvatarModels()).length, sampleAvatarModels.length);
+    assert.equal((await storage.getBackgroundMusic()).length, sampleBackgroundMusic.length);
+    assert.equal((await storage.getSoundEffects()).length, sampleSoundEffects.length);
+  });
+
+  it("hands each pending job to exactly one of several concurrent claims", async () => {
+    for (const id of ["claim-a", "claim-b", "claim-c"]) {
+      await storage.createGenerationJob(pendingJob(id));
+    }
+
+    const lease = new Date(Date.now() + 30_000);
+    const claimed = (await Promise.all(Array.from({ length: 5 }, () => storage.claimNextGenerationJob(lease)))).filter(Boolean);
+
+    assert.deepEqual(claimed.map(job => job!.id).sort(), ["claim-a", "claim-b", "claim-c"]);
+    for (const job of claimed) {
+      assert.equal(job!.status, "processing");
+      assert.equal(job!.attempts, 1);
+      assert.equal(job!.leaseExpiresAt?.getTime(), lease.getTime());
+    }
+    assert.equal(await storage.claimNextGenerationJob(lease), undefined);
+  });
+
+  it("applies a guarded job update only while the row still matches", async () => {
+    await storage.createGenerationJob({ ...pendingJob("guarded"), status: "processing", attempts: 2 });
+
+    assert.equal(await storage.updateGenerationJob("guarded", { progress: 50 }, { status: "pending" }), undefined);
+    assert.equal(await storage.updateGenerationJob("guarded", { progress: 50 }, { status: "processing", attempts: 1 }), undefined);
+    assert.equal((await storage.getGenerationJob("guarded"))?.progress, 0);
+
+    const updated = await storage.updateGenerationJob("guarded", { progress: 50 }, { status: "processing", attempts: 2 });
+    assert.equal(updated?.progress, 50);
+  });
+
+  it("recovers only processing jobs whose lease has run out", async () => {
+    await storage.createGenerationJob({ ...pendingJob("lease-expired"), status: "processing", leaseExpiresAt: new Date(Date.now() - 1000) });
+    await storage.createGenerationJob({ ...pendingJob("lease-missing"), status: "processing" });
+    await storage.createGenerationJob({ ...pendingJob("lease-held"), status: "processing", leaseExpiresAt: new Date(Date.now() + 60_000) });
+
+    const expired = (await storage.getExpiredGenerationJobs()).map(job => job.id);
+    assert.ok(expired.includes("lease-expired"));
+    assert.ok(expired.includes("lease-missing"));
+    assert.ok(!expired.includes("lease-held"));
+  });
+
+  it("refunds a job's charge, net of its adjustment, exactly once", async () => {
+    const user = await storage.createUser({ username: "ledger", password: "hash" });
+    const balance = user.credits ?? 0;
+
+    assert.ok(await storage.chargeCredits(user.id, 100, "ledger-job", "Video generation"));
+    assert.equal(await storage.chargeCredits(user.id, balance, "ledger-other", "Video generation"), undefined);
+    assert.equal(await storage.settleJobCredits("ledger-job", 150, "Scenes fitted"), true);
+    assert.equal((await storage.getUser(user.id))?.credits, balance - 150);
+
+    const refund = await storage.refundJobCredits("ledger-job", "Refund: generation failed");
+    assert.equal(refund?.amount, 150);
+    assert.equal(await storage.refundJobCredits("ledger-job", "Refund: generation failed"), undefined);
+    assert.equal((await storage.getUser(user.id))?.credits, balance);
+  });
+});
@@ -10,11 +10,42 @@ import {
   type BackgroundMusic,
   type InsertBackgroundMusic,
   type SoundEffect,
-  type InsertSoundEffect
+  type InsertSoundEffect,
+  type GenerationJob,
+  type InsertGenerationJob,
+  type GenerationJobMatch,
+  type CreditTransaction,
+  type LexiconEntry,
+  type InsertLexiconEntry,
+  users,
+  videoProjects,
+  voiceModels,
+  avatarModels,
+  backgroundMusic,
+  soundEffects,
+  generationJobs,
+  creditTransactions,
+  lexiconEntries
 } from "@shared/schema";
 import { randomUUID } from "crypto";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import { and, asc, desc, eq, isNull, lt, or, sql } from "drizzle-orm";
+import type { Database } from "./db";
+import {
+  sampleVoiceModels,
+  sampleAvatarModels,
+  sampleBackgroundMusic,
+  sampleSoundEffects,
+  seedDatabase
+} from "./seed";
+
+const MemoryStore = createMemoryStore(session);
 
 export interface IStorage {
+  // Where express-session keeps login sessions, next to the rest of the data
+  sessionStore: session.Store;
+
   // User operations
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
@@ -47,6 +78,36 @@ export interface IStorage {
   getSoundEffects(): Promise<SoundEffect[]>;
   getSoundEffectsByCategory(category: string): Promise<SoundEffect[]>;
   createSoundEffect(effect: InsertSoundEffect): Promise<SoundEffect>;
+
+  // Generation job operations
+  getGenerationJob(id: string): Promise<GenerationJob | undefined>;
+  getGenerationJobsByStatus(status: string): Promise<GenerationJob[]>;
+  createGenerationJob(job: InsertGenerationJob): Promise<GenerationJob>;
+  // With expected, only applies while the row still matches it; undefined means it didn't apply
+  updateGenerationJob(id: string, updates: Partial<GenerationJob>, expected?: GenerationJobMatch): Promise<GenerationJob | undefined>;
+  // Atomically moves the oldest pending job to processing so two workers never pick the same one, leasing it to the
+  // caller until leaseExpiresAt
+  claimNextGenerationJob(leaseExpiresAt: Date): Promise<GenerationJob | undefined>;
+  // Processing jobs whose lease has run out, i.e. whose worker has stopped renewing it
+  getExpiredGenerationJobs(): Promise<GenerationJob[]>;
+  // Reserves the next count event ids for the job and returns the last of them; undefined when there is no such job
+  reserveGenerationJobEventIds(id: string, count: number): Promise<number | undefined>;
+
+  // Credit ledger operations
+  // Debits the user only if the balance covers it; undefined means there weren't enough credits
+  chargeCredits(userId: string, amount: number, jobId: string, description: string): Promise<CreditTransaction | undefined>;
+  // Brings a job's charge to total with one adjustment entry; false only when the balance can't cover the extra
+  settleJobCredits(jobId: string, total: number, description: string): Promise<boolean>;
+  // Pays back a job's debit, net of any adjustment, exactly once; undefined when there is nothing (left) to refund
+  refundJobCredits(jobId: string, description: string): Promise<CreditTransaction | undefined>;
+  getCreditTransactionsByUser(userId: string): Promise<CreditTransaction[]>;
+
+  // Lexicon operations; listing returns the user's entries for every project plus those for the given one
+  getLexiconEntries(userId: string, projectId?: string): Promise<LexiconEntry[]>;
+  getLexiconEntry(id: string): Promise<LexiconEntry | undefined>;
+  createLexiconEntry(entry: InsertLexiconEntry): Promise<LexiconEntry>;
+  updateLexiconEntry(id: string, updates: Partial<LexiconEntry>): Promise<LexiconEntry | undefined>;
+  deleteLexiconEntry(id: string): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
@@ -56,6 +117,10 @@ export class MemStorage implements IStorage {
   private avatarModels: Map<string, AvatarModel>;
   private backgroundMusic: Map<string, BackgroundMusic>;
   private soundEffects: Map<string, SoundEffect>;
+  private generationJobs: Map<string, GenerationJob>;
+  private creditTransactions: Map<string, CreditTransaction>;
+  private lexiconEntries: Map<string, LexiconEntry>;
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
@@ -64,158 +129,22 @@ export class MemStorage implements IStorage {
     this.avatarModels = new Map();
     this.backgroundMusic = new Map();
     this.soundEffects = new Map();
+    this.generationJobs = new Map();
+    this.creditTransactions = new Map();
+    this.lexiconEntries = new Map();
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired sessions daily
+    });
 
     // Initialize with sample data
     this.initializeSampleData();
   }
 
   private initializeSampleData() {
-    // Sample voice models
-    const sampleVoices: VoiceModel[] = [
-      {
-        id: "sarah-professional",
-        provider: "elevenlabs",
-        name: "Sarah - Professional",
-        description: "Female conversational voice",
-        gender: "female",
-        style: "professional",
-        language: "en",
-        previewUrl: null,
-        isActive: true,
-      },
-      {
-        id: "marcus-narrator",
-        provider: "elevenlabs",
-        name: "Marcus - Narrator",
-        description: "Male documentary voice",
-        gender: "male",
-        style: "documentary",
-        language: "en",
-        previewUrl: null,
-        isActive: true,
-      },
-      {
-        id: "emma-casual",
-        provider: "elevenlabs",
-        name: "Emma - Casual",
-        description: "Female friendly voice",
-        gender: "female",
-        style: "friendly",
-        language: "en",
-        previewUrl: null,
-        isActive: true,
-      },
-    ];
-
-    sampleVoices.forEach(voice => this.voiceModels.set(voice.id, voice));
-
-    // Sample avatar models
-    const sampleAvatars: AvatarModel[] = [
-      {
-        id: "sarah-pro",
-        name: "Sarah Pro",
-        description: "Professional businesswoman avatar",
-        imageUrl: "https://images.unsplash.com/photo-1494790108755-2616b612b5bc?w=512&h=512&fit=crop&crop=face",
-        style: "Business",
-        gender: "female",
-        isActive: true,
-      },
-      {
-        id: "alex-casual",
-        name: "Alex Casual",
-        description: "Young professional male avatar",
-        imageUrl: "https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=512&h=512&fit=crop&crop=face",
-        style: "Friendly",
-        gender: "male",
-        isActive: true,
-      },
-      {
-        id: "dr-lisa",
-        name: "Dr. Lisa",
-        description: "Mature professional woman with glasses",
-        imageUrl: "https://images.unsplash.com/photo-1580489944761-15a19d654956?w=512&h=512&fit=crop&crop=face",
-        style: "Expert",
-        gender: "female",
-        isActive: true,
-      },
-      {
-        id: "mike-creative",
-        name: "Mike Creative",
-        description: "Creative young man with stylish look",
-        imageUrl: "https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=512&h=512&fit=crop&crop=face",
-        style: "Modern",
-        gender: "male",
-        isActive: true,
-      },
-    ];
-
-    sampleAvatars.forEach(avatar => this.avatarModels.set(avatar.id, avatar));
-
-    // Sample background music
-    const sampleMusic: BackgroundMusic[] = [
-      {
-        id: "uplifting-corporate",
-        name: "Uplifting Corporate",
-        description: "Inspirational background music",
-        genre: "corporate",
-        duration: 154,
-        audioUrl: "/assets/audio/uplifting-corporate.mp3",
-        isActive: true,
-      },
-      {
-        id: "calm-ambient",
-        name: "Calm Ambient",
-        description: "Peaceful background music",
-        genre: "ambient",
-        duration: 192,
-        audioUrl: "/assets/audio/calm-ambient.mp3",
-        isActive: true,
-      },
-    ];
-
-    sampleMusic.forEach(music => this.backgroundMusic.set(music.id, music));
-
-    // Sample sound effects
-    const sampleEffects: SoundEffect[] = [
-      {
-        id: "applause",
-        name: "Applause",
-        description: "Audience applause",
-        category: "audience",
-        duration: 2,
-        audioUrl: "/assets/audio/applause.mp3",
-        isActive: true,
-      },
-      {
-        id: "whoosh",
-        name: "Whoosh",
-        description: "Transition whoosh sound",
-        category: "transition",
-        duration: 1,
-        audioUrl: "/assets/audio/whoosh.mp3",
-        isActive: true,
-      },
-      {
-        id: "nature-birds",
-        name: "Nature",
-        description: "Birds chirping in nature",
-        category: "nature",
-        duration: 5,
-        audioUrl: "/assets/audio/nature-birds.mp3",
-        isActive: true,
-      },
-      {
-        id: "notification-beep",
-        name: "Beep",
-        description: "Notification beep sound",
-        category: "notification",
-        duration: 1,
-        audioUrl: "/assets/audio/beep.mp3",
-        isActive: true,
-      },
-    ];
-
-    sampleEffects.forEach(effect => this.soundEffects.set(effect.id, effect));
+    sampleVoiceModels.forEach(voice => this.voiceModels.set(voice.id, { ...voice }));
+    sampleAvatarModels.forEach(avatar => this.avatarModels.set(avatar.id, { ...avatar }));
+    sampleBackgroundMusic.forEach(music => this.backgroundMusic.set(music.id, { ...music }));
+    sampleSoundEffects.forEach(effect => this.soundEffects.set(effect.id, { ...effect }));
   }
 
   // User operations
@@ -280,6 +209,7 @@ export class MemStorage implements IStorage {
       videoUrl: insertProject.videoUrl || null,
       thumbnailUrl: insertProject.thumbnailUrl || null,
       settings: insertProject.settings || null,
+      renderProfile: insertProject.renderProfile ?? null,
       createdAt: now,
       updatedAt: now,
     };
@@ -302,6 +232,10 @@ export class MemStorage implements IStorage {
   }
 
   async deleteVideoProject(id: string): Promise<boolean> {
+    // Mirrors the database's cascade onto the project's lexicon entries
+    Array.from(this.lexiconEntries.values())
+      .filter(entry => entry.projectId === id)
+      .forEach(entry => this.lexiconEntries.delete(entry.id));
     return this.videoProjects.delete(id);
   }
 
@@ -396,6 +330,564 @@ export class MemStorage implements IStorage {
     this.soundEffects.set(effect.id, effect);
     return effect;
   }
+
+  // Generation job operations
+  async getGenerationJob(id: string): Promise<GenerationJob | undefined> {
+    return this.generationJobs.get(id);
+  }
+
+  async getGenerationJobsByStatus(status: string): Promise<GenerationJob[]> {
+    return Array.from(this.generationJobs.values()).filter(job => job.status === status);
+  }
+
+  async createGenerationJob(insertJob: InsertGenerationJob): Promise<GenerationJob> {
+    const id = insertJob.id || randomUUID();
+    const now = new Date();
+    const job: GenerationJob = {
+      id,
+      projectId: insertJob.projectId || null,
+      userId: insertJob.userId || null,
+      type: insertJob.type || "project",
+      status: insertJob.status || "pending",
+      progress: insertJob.progress ?? 0,
+      currentStep: insertJob.currentStep || "Queued",
+      estimatedTimeRemaining: insertJob.estimatedTimeRemaining ?? 180,
+      input: insertJob.input,
+      result: insertJob.result || null,
+      error: insertJob.error || null,
+      attempts: insertJob.attempts ?? 0,
+      leaseExpiresAt: insertJob.leaseExpiresAt || null,
+      eventSeq: insertJob.eventSeq ?? 0,
+      createdAt: now,
+      updatedAt: now,
+      startedAt: insertJob.startedAt || null,
+      completedAt: insertJob.completedAt || null,
+    };
+    this.generationJobs.set(id, job);
+    return job;
+  }
+
+  async updateGenerationJob(id: string, updates: Partial<GenerationJob>, expected: GenerationJobMatch = {}): Promise<GenerationJob | undefined> {
+    const job = this.generationJobs.get(id);
+    const matches = job && (expected.status === undefined || job.status === expected.status) &&
+      (expected.attempts === undefined || job.attempts === expected.attempts);
+    if (job && matches) {
+      const updatedJob = {
+        ...job,
+        ...updates,
+        updatedAt: new Date(),
+      };
+      this.generationJobs.set(id, updatedJob);
+      return updatedJob;
+    }
+    return undefined;
+  }
+
+  async claimNextGenerationJob(leaseExpiresAt: Date): Promise<GenerationJob | undefined> {
+    const next = Array.from(this.generationJobs.values())
+      .filter(job => job.status === "pending")
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0))[0];
+    if (!next) {
+      return undefined;
+    }
+    return this.updateGenerationJob(next.id, {
+      status: "processing",
+      attempts: next.attempts + 1,
+      leaseExpiresAt,
+      startedAt: new Date(),
+    });
+  }
+
+  async getExpiredGenerationJobs(): Promise<GenerationJob[]> {
+    const now = Date.now();
+    return Array.from(this.generationJobs.values())
+      .filter(job => job.status === "processing" && (job.leaseExpiresAt?.getTime() ?? 0) < now);
+  }
+
+  async reserveGenerationJobEventIds(id: string, count: number): Promise<number | undefined> {
+    const job = this.generationJobs.get(id);
+    if (!job) {
+      return undefined;
+    }
+    job.eventSeq += count;
+    return job.eventSeq;
+  }
+
+  // Credit ledger operations
+  async chargeCredits(userId: string, amount: number, jobId: string, description: string): Promise<CreditTransaction | undefined> {
+    const user = this.users.get(userId);
+    if (!user || (user.credits ?? 0) < amount) {
+      return undefined;
+    }
+
+    user.credits = (user.credits ?? 0) - amount;
+    return this.addCreditTransaction({ userId, jobId, type: "debit", amount: -amount, balanceAfter: user.credits, description });
+  }
+
+  async settleJobCredits(jobId: string, total: number, description: string): Promise<boolean> {
+    const entries = Array.from(this.creditTransactions.values()).filter(entry => entry.jobId === jobId);
+    const debit = entries.find(entry => entry.type === "debit");
+    const user = debit && this.users.get(debit.userId);
+    if (!debit || !user || entries.some(entry => entry.type === "adjustment" || entry.type === "refund")) {
+      return true;
+    }
+
+    const amount = -debit.amount - total; // positive pays credits back, negative takes more
+    if (amount === 0) {
+      return true;
+    }
+    if ((user.credits ?? 0) + amount < 0) {
+      return false;
+    }
+
+    user.credits = (user.credits ?? 0) + amount;
+    this.addCreditTransaction({ userId: debit.userId, jobId, type: "adjustment", amount, balanceAfter: user.credits, description });
+    return true;
+  }
+
+  async refundJobCredits(jobId: string, description: string): Promise<CreditTransaction | undefined> {
+    const entries = Array.from(this.creditTransactions.values()).filter(entry => entry.jobId === jobId);
+    const debit = entries.find(entry => entry.type === "debit");
+    const user = debit && this.users.get(debit.userId);
+    if (!debit || !user || entries.some(entry => entry.type === "refund")) {
+      return undefined;
+    }
+
+    const adjustment = entries.find(entry => entry.type === "adjustment");
+    const amount = -debit.amount - (adjustment?.amount ?? 0);
+    user.credits = (user.credits ?? 0) + amount;
+    return this.addCreditTransaction({ userId: debit.userId, jobId, type: "refund", amount, balanceAfter: user.credits, description });
+  }
+
+  async getCreditTransactionsByUser(userId: string): Promise<CreditTransaction[]> {
+    return Array.from(this.creditTransactions.values())
+      .filter(entry => entry.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  private addCreditTransaction(entry: Omit<CreditTransaction, "id" | "createdAt">): CreditTransaction {
+    const transaction: CreditTransaction = { ...entry, id: randomUUID(), createdAt: new Date() };
+    this.creditTransactions.set(transaction.id, transaction);
+    return transaction;
+  }
+
+  // Lexicon operations
+  async getLexiconEntries(userId: string, projectId?: string): Promise<LexiconEntry[]> {
+    return Array.from(this.lexiconEntries.values())
+      .filter(entry => entry.userId === userId && (entry.projectId === null || entry.projectId === projectId))
+      .sort((a, b) => a.term.localeCompare(b.term));
+  }
+
+  async getLexiconEntry(id: string): Promise<LexiconEntry | undefined> {
+    return this.lexiconEntries.get(id);
+  }
+
+  async createLexiconEntry(insertEntry: InsertLexiconEntry): Promise<LexiconEntry> {
+    const now = new Date();
+    const entry: LexiconEntry = {
+      id: insertEntry.id || randomUUID(),
+      userId: insertEntry.userId,
+      projectId: insertEntry.projectId || null,
+      term: insertEntry.term,
+      pronunciation: insertEntry.pronunciation,
+      format: insertEntry.format || "respelling",
+      language: insertEntry.language || null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.lexiconEntries.set(entry.id, entry);
+    return entry;
+  }
+
+  async updateLexiconEntry(id: string, updates: Partial<LexiconEntry>): Promise<LexiconEntry | undefined> {
+    const entry = this.lexiconEntries.get(id);
+    if (entry) {
+      const updatedEntry = {
+        ...entry,
+        ...updates,
+        updatedAt: new Date(),
+      };
+      this.lexiconEntries.set(id, updatedEntry);
+      return updatedEntry;
+    }
+    return undefined;
+  }
+
+  async deleteLexiconEntry(id: string): Promise<boolean> {
+    return this.lexiconEntries.delete(id);
+  }
+}
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database, public sessionStore: session.Store) {}
+
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUserCredits(id: string, credits: number): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set({ credits })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // Video project operations
+  async getVideoProject(id: string): Promise<VideoProject | undefined> {
+    const [project] = await this.db.select().from(videoProjects).where(eq(videoProjects.id, id));
+    return project;
+  }
+
+  async getVideoProjectsByUser(userId: string): Promise<VideoProject[]> {
+    return this.db.select().from(videoProjects).where(eq(videoProjects.userId, userId));
+  }
+
+  async createVideoProject(insertProject: InsertVideoProject): Promise<VideoProject> {
+    const [project] = await this.db
+      .insert(videoProjects)
+      .values({
+        ...insertProject,
+        settings: insertProject.settings ?? null,
+        renderProfile: insertProject.renderProfile ?? null,
+      })
+      .returning();
+    return project;
+  }
+
+  async updateVideoProject(id: string, updates: Partial<VideoProject>): Promise<VideoProject | undefined> {
+    const { id: _id, createdAt: _createdAt, ...changes } = updates;
+    const [project] = await this.db
+      .update(videoProjects)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(videoProjects.id, id))
+      .returning();
+    return project;
+  }
+
+  async deleteVideoProject(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(videoProjects)
+      .where(eq(videoProjects.id, id))
+      .returning({ id: videoProjects.id });
+    return deleted.length > 0;
+  }
+
+  // Voice model operations
+  async getVoiceModels(): Promise<VoiceModel[]> {
+    return this.db.select().from(voiceModels).where(eq(voiceModels.isActive, true));
+  }
+
+  async getVoiceModelsByProvider(provider: string): Promise<VoiceModel[]> {
+    return this.db
+      .select()
+      .from(voiceModels)
+      .where(and(eq(voiceModels.provider, provider), eq(voiceModels.isActive, true)));
+  }
+
+  async createVoiceModel(insertVoice: InsertVoiceModel): Promise<VoiceModel> {
+    const [voice] = await this.db.insert(voiceModels).values(insertVoice).returning();
+    return voice;
+  }
+
+  // Avatar model operations
+  async getAvatarModels(): Promise<AvatarModel[]> {
+    return this.db.select().from(avatarModels).where(eq(avatarModels.isActive, true));
+  }
+
+  async getAvatarModel(id: string): Promise<AvatarModel | undefined> {
+    const [avatar] = await this.db.select().from(avatarModels).where(eq(avatarModels.id, id));
+    return avatar;
+  }
+
+  async createAvatarModel(insertAvatar: InsertAvatarModel): Promise<AvatarModel> {
+    const [avatar] = await this.db.insert(avatarModels).values(insertAvatar).returning();
+    return avatar;
+  }
+
+  // Background music operations
+  async getBackgroundMusic(): Promise<BackgroundMusic[]> {
+    return this.db.select().from(backgroundMusic).where(eq(backgroundMusic.isActive, true));
+  }
+
+  async getBackgroundMusicByGenre(genre: string): Promise<BackgroundMusic[]> {
+    return this.db
+      .select()
+      .from(backgroundMusic)
+      .where(and(eq(backgroundMusic.genre, genre), eq(backgroundMusic.isActive, true)));
+  }
+
+  async createBackgroundMusic(insertMusic: InsertBackgroundMusic): Promise<BackgroundMusic> {
+    const [music] = await this.db.insert(backgroundMusic).values(insertMusic).returning();
+    return music;
+  }
+
+  // Sound effects operations
+  async getSoundEffects(): Promise<SoundEffect[]> {
+    return this.db.select().from(soundEffects).where(eq(soundEffects.isActive, true));
+  }
+
+  async getSoundEffectsByCategory(category: string): Promise<SoundEffect[]> {
+    return this.db
+      .select()
+      .from(soundEffects)
+      .where(and(eq(soundEffects.category, category), eq(soundEffects.isActive, true)));
+  }
+
+  async createSoundEffect(insertEffect: InsertSoundEffect): Promise<SoundEffect> {
+    const [effect] = await this.db.insert(soundEffects).values(insertEffect).returning();
+    return effect;
+  }
+
+  // Generation job operations
+  async getGenerationJob(id: string): Promise<GenerationJob | undefined> {
+    const [job] = await this.db.select().from(generationJobs).where(eq(generationJobs.id, id));
+    return job;
+  }
+
+  async getGenerationJobsByStatus(status: string): Promise<GenerationJob[]> {
+    return this.db
+      .select()
+      .from(generationJobs)
+      .where(eq(generationJobs.status, status))
+      .orderBy(asc(generationJobs.createdAt));
+  }
+
+  async createGenerationJob(insertJob: InsertGenerationJob): Promise<GenerationJob> {
+    const [job] = await this.db.insert(generationJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async updateGenerationJob(id: string, updates: Partial<GenerationJob>, expected: GenerationJobMatch = {}): Promise<GenerationJob | undefined> {
+    const { id: _id, createdAt: _createdAt, ...changes } = updates;
+    const [job] = await this.db
+      .update(generationJobs)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(
+        eq(generationJobs.id, id),
+        expected.status !== undefined ? eq(generationJobs.status, expected.status) : undefined,
+        expected.attempts !== undefined ? eq(generationJobs.attempts, expected.attempts) : undefined,
+      ))
+      .returning();
+    return job;
+  }
+
+  async claimNextGenerationJob(leaseExpiresAt: Date): Promise<GenerationJob | undefined> {
+    // SKIP LOCKED lets several server processes share the queue without blocking on each other
+    const [job] = await this.db
+      .update(generationJobs)
+      .set({
+        status: "processing",
+        attempts: sql`${generationJobs.attempts} + 1`,
+        leaseExpiresAt,
+        startedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(
+        eq(
+          generationJobs.id,
+          sql`(select ${generationJobs.id} from ${generationJobs}
+               where ${generationJobs.status} = 'pending'
+               order by ${generationJobs.createdAt}
+               limit 1
+               for update skip locked)`,
+        ),
+      )
+      .returning();
+    return job;
+  }
+
+  async getExpiredGenerationJobs(): Promise<GenerationJob[]> {
+    return this.db
+      .select()
+      .from(generationJobs)
+      .where(and(
+        eq(generationJobs.status, "processing"),
+        or(isNull(generationJobs.leaseExpiresAt), lt(generationJobs.leaseExpiresAt, new Date())),
+      ))
+      .orderBy(asc(generationJobs.createdAt));
+  }
+
+  async reserveGenerationJobEventIds(id: string, count: number): Promise<number | undefined> {
+    const [job] = await this.db
+      .update(generationJobs)
+      .set({ eventSeq: sql`${generationJobs.eventSeq} + ${count}` })
+      .where(eq(generationJobs.id, id))
+      .returning({ eventSeq: generationJobs.eventSeq });
+    return job?.eventSeq;
+  }
+
+  // Credit ledger operations
+  async chargeCredits(userId: string, amount: number, jobId: string, description: string): Promise<CreditTransaction | undefined> {
+    return this.db.transaction(async (tx) => {
+      // The balance check lives in the WHERE clause so concurrent charges can't overdraw
+      const [user] = await tx
+        .update(users)
+        .set({ credits: sql`coalesce(${users.credits}, 0) - ${amount}` })
+        .where(and(eq(users.id, userId), sql`coalesce(${users.credits}, 0) >= ${amount}`))
+        .returning();
+      if (!user) {
+        return undefined;
+      }
+
+      const [entry] = await tx
+        .insert(creditTransactions)
+        .values({ userId, jobId, type: "debit", amount: -amount, balanceAfter: user.credits ?? 0, description })
+        .returning();
+      return entry;
+    });
+  }
+
+  async settleJobCredits(jobId: string, total: number, description: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const entries = await tx
+        .select()
+        .from(creditTransactions)
+        .where(eq(creditTransactions.jobId, jobId));
+      const debit = entries.find(entry => entry.type === "debit");
+      if (!debit || entries.some(entry => entry.type === "adjustment" || entry.type === "refund")) {
+        return true;
+      }
+
+      const amount = -debit.amount - total; // positive pays credits back, negative takes more
+      if (amount === 0) {
+        return true;
+      }
+
+      const [user] = await tx
+        .update(users)
+        .set({ credits: sql`coalesce(${users.credits}, 0) + ${amount}` })
+        .where(and(eq(users.id, debit.userId), sql`coalesce(${users.credits}, 0) + ${amount} >= 0`))
+        .returning();
+      if (!user) {
+        return false;
+      }
+
+      // A concurrent adjustment trips the unique (job_id, type) index and rolls the balance change back with it
+      await tx
+        .insert(creditTransactions)
+        .values({ userId: debit.userId, jobId, type: "adjustment", amount, balanceAfter: user.credits ?? 0, description });
+      return true;
+    });
+  }
+
+  async refundJobCredits(jobId: string, description: string): Promise<CreditTransaction | undefined> {
+    return this.db.transaction(async (tx) => {
+      const entries = await tx
+        .select()
+        .from(creditTransactions)
+        .where(eq(creditTransactions.jobId, jobId));
+      const debit = entries.find(entry => entry.type === "debit");
+      if (!debit) {
+        return undefined;
+      }
+
+      // The unique (job_id, type) index turns a second refund for the same job into a no-op
+      const adjustment = entries.find(entry => entry.type === "adjustment");
+      const [entry] = await tx
+        .insert(creditTransactions)
+        .values({ userId: debit.userId, jobId, type: "refund", amount: -debit.amount - (adjustment?.amount ?? 0), balanceAfter: 0, description })
+        .onConflictDoNothing()
+        .returning();
+      if (!entry) {
+        return undefined;
+      }
+
+      const [user] = await tx
+        .update(users)
+        .set({ credits: sql`coalesce(${users.credits}, 0) + ${entry.amount}` })
+        .where(eq(users.id, debit.userId))
+        .returning();
+      const [refund] = await tx
+        .update(creditTransactions)
+        .set({ balanceAfter: user.credits ?? 0 })
+        .where(eq(creditTransactions.id, entry.id))
+        .returning();
+      return refund;
+    });
+  }
+
+  async getCreditTransactionsByUser(userId: string): Promise<CreditTransaction[]> {
+    return this.db
+      .select()
+      .from(creditTransactions)
+      .where(eq(creditTransactions.userId, userId))
+      .orderBy(desc(creditTransactions.createdAt));
+  }
+
+  // Lexicon operations
+  async getLexiconEntries(userId: string, projectId?: string): Promise<LexiconEntry[]> {
+    return this.db
+      .select()
+      .from(lexiconEntries)
+      .where(and(
+        eq(lexiconEntries.userId, userId),
+        projectId
+          ? or(isNull(lexiconEntries.projectId), eq(lexiconEntries.projectId, projectId))
+          : isNull(lexiconEntries.projectId),
+      ))
+      .orderBy(asc(lexiconEntries.term));
+  }
+
+  async getLexiconEntry(id: string): Promise<LexiconEntry | undefined> {
+    const [entry] = await this.db.select().from(lexiconEntries).where(eq(lexiconEntries.id, id));
+    return entry;
+  }
+
+  async createLexiconEntry(insertEntry: InsertLexiconEntry): Promise<LexiconEntry> {
+    const [entry] = await this.db.insert(lexiconEntries).values(insertEntry).returning();
+    return entry;
+  }
+
+  async updateLexiconEntry(id: string, updates: Partial<LexiconEntry>): Promise<LexiconEntry | undefined> {
+    const { id: _id, userId: _userId, createdAt: _createdAt, ...changes } = updates;
+    const [entry] = await this.db
+      .update(lexiconEntries)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(lexiconEntries.id, id))
+      .returning();
+    return entry;
+  }
+
+  async deleteLexiconEntry(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(lexiconEntries)
+      .where(eq(lexiconEntries.id, id))
+      .returning({ id: lexiconEntries.id });
+    return deleted.length > 0;
+  }
 }
 
-export const storage = new MemStorage();
+// In-memory until initStorage() runs; STORAGE_DRIVER=memory keeps it that way even with a database
+export let storage: IStorage = new MemStorage();
+
+export async function initStorage(): Promise<IStorage> {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  if (driver === "postgres") {
+    // Imported lazily because ./db refuses to load without DATABASE_URL
+    const { db, pool } = await import("./db");
+    const { default: connectPg } = await import("connect-pg-simple");
+    const PostgresSessionStore = connectPg(session);
+
+    await seedDatabase(db);
+    storage = new DbStorage(db, new PostgresSessionStore({ pool, createTableIfMissing: true }));
+  } else if (driver !== "memory") {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "postgres" or "memory"`);
+  }
+
+  return storage;
+}
@@ -0,0 +1,43 @@
+// Scripts written as dialogue. A line that starts with a speaker label and a colon, like "HOST: Welcome back", is a
+// turn spoken by that cast member; any other line is narration. Labels are upper-case Latin words (so ordinary
+// sentences with a colon aren't mistaken for turns) or a single Devanagari word for Hindi scripts.
+
+export interface DialogueLine {
+  speaker: string | null; // the label as written, or null for narration
+  text: string;
+}
+
+// How the studio maps a script's labels to voices and on-screen names
+export interface CastMember {
+  label: string;
+  name: string; // shown in lower thirds and captions
+  voiceId: string;
+}
+
+// The colon must be followed by a space or the end of the line, which keeps times and URLs out
+const SPEAKER_LINE = /^\s*([A-Z][A-Z0-9 _.'-]{0,29}|[ऀ-ॿ]+)\s*:(?:\s+|$)(.*)$/;
+
+export function parseDialogueScript(script: string): DialogueLine[] {
+  const lines: DialogueLine[] = [];
+  for (const line of script.split("\n")) {
+    if (!line.trim()) continue;
+
+    const match = line.match(SPEAKER_LINE);
+    if (!match) {
+      lines.push({ speaker: null, text: line.trim() });
+    } else if (match[2].trim()) {
+      lines.push({ speaker: match[1].trim(), text: match[2].trim() });
+    }
+  }
+  return lines;
+}
+
+// Each label once, in the order the speakers first talk
+export function scriptSpeakers(lines: DialogueLine[]): string[] {
+  return Array.from(new Set(lines.map(line => line.speaker).filter((speaker): speaker is string => speaker !== null)));
+}
+
+// "HOST" reads better on screen as "Host"; Devanagari labels are shown as written
+export function defaultSpeakerName(label: string): string {
+  return label.replace(/[A-Z][A-Z0-9'.-]*/g, word => word.charAt(0) + word.slice(1).toLowerCase()).replace(/_/g, " ");
+}
@@ -0,0 +1,281 @@
+import type { BenchmarkMetric, ReferenceBenchmark, ReferenceVideo, VideoAnalysis } from "./schema";
+
+// With fewer references than this the median is too near every one of them to single any out
+export const MIN_REFERENCES_FOR_OUTLIERS = 3;
+const PALETTE_COLORS = 5;
+
+interface MetricDefinition {
+  label: string;
+  measure: (analysis: VideoAnalysis) => number | null; // null when the analysis has no figure for it
+  format: (value: number) => string;
+  strays: (value: number, median: number) => boolean; // far enough from the median to call out
+}
+
+// More than a factor away either side, for figures that scale
+const beyondFactor = (factor: number) => (value: number, median: number) =>
+  median > 0 && (value > median * factor || value < median / factor);
+// More than an amount away, for figures on a fixed scale
+const beyondAmount = (amount: number) => (value: number, median: number) => Math.abs(value - median) > amount;
+
+export const BENCHMARK_METRICS: Record<BenchmarkMetric, MetricDefinition> = {
+  bitrate: {
+    label: "Bitrate",
+    measure: (analysis) => analysis.bitrate || null,
+    format: (value) => `${(value / 1000000).toFixed(1)} Mbps`,
+    strays: beyondFactor(2),
+  },
+  frameRate: {
+    label: "Frame Rate",
+    measure: (analysis) => analysis.frameRate || null,
+    format: (value) => `${Math.round(value * 100) / 100} fps`,
+    strays: beyondAmount(1),
+  },
+  cutsPerMinute: {
+    label: "Cuts per Minute",
+    measure: (analysis) => analysis.duration > 0 ? analysis.visualElements.sceneCuts.length / (analysis.duration / 60) : null,
+    format: (value) => value.toFixed(1),
+    // A few cuts either way is still the same pace
+    strays: (value, median) => beyondFactor(2)(value, median) && beyondAmount(2)(value, median),
+  },
+  averageShotLength: {
+    label: "Average Shot",
+    measure: (analysis) => analysis.visualElements.averageShotLength || null,
+    format: (value) => `${value.toFixed(1)}s`,
+    strays: beyondFactor(2),
+  },
+  loudness: {
+    label: "Loudness",
+    measure: (analysis) => analysis.audioFeatures.loudness?.integrated ?? null,
+    format: (value) => `${value.toFixed(1)} LUFS`,
+    strays: beyondAmount(3),
+  },
+  truePeak: {
+    label: "True Peak",
+    measure: (analysis) => analysis.audioFeatures.loudness?.truePeak ?? null,
+    format: (value) => `${value.toFixed(1)} dBTP`,
+    strays: beyondAmount(3),
+  },
+  brightness: {
+    label: "Brightness",
+    measure: (analysis) => analysis.visualElements.brightness,
+    format: (value) => `${Math.round(value)}/255`,
+    strays: beyondAmount(40),
+  },
+  saturation: {
+    label: "Saturation",
+    measure: (analysis) => analysis.visualElements.saturation,
+    format: (value) => value.toFixed(0),
+    strays: beyondAmount(20),
+  },
+  motion: {
+    label: "Motion",
+    measure: (analysis) => analysis.visualElements.motion,
+    format: (value) => value.toFixed(1),
+    // Near-still footage varies a lot proportionally without looking any different
+    strays: (value, median) => beyondFactor(2)(value, median) && beyondAmount(2)(value, median),
+  },
+};
+
+const METRIC_KEYS = Object.keys(BENCHMARK_METRICS) as BenchmarkMetric[];
+
+// Medians across the references that were analyzed, with each metric's outliers; failed ones are listed but skipped
+export function buildBenchmark(references: ReferenceVideo[]): ReferenceBenchmark {
+  const analyzed = references.filter((reference): reference is ReferenceVideo & { analysis: VideoAnalysis } => Boolean(reference.analysis));
+  const findOutliers = analyzed.length >= MIN_REFERENCES_FOR_OUTLIERS;
+  const medians = {} as ReferenceBenchmark["medians"];
+  const outliers: ReferenceBenchmark["outliers"] = [];
+
+  for (const metric of METRIC_KEYS) {
+    const { measure, strays } = BENCHMARK_METRICS[metric];
+    const measured = analyzed
+      .map(({ name, analysis }) => ({ name, value: measure(analysis) }))
+      .filter((entry): entry is { name: string; value: number } => entry.value !== null);
+    const middle = measured.length > 0 ? median(measured.map(({ value }) => value)) : null;
+    medians[metric] = middle;
+    if (middle === null || !findOutliers) continue;
+
+    for (const { name, value } of measured) {
+      if (strays(value, middle)) outliers.push({ name, metric, value, median: middle });
+    }
+  }
+
+  const resolution = commonest(analyzed.map(({ analysis }) => analysis.resolution), (a, b) => b.width * b.height - a.width * a.height)
+    ?? { width: 0, height: 0 };
+  if (findOutliers) {
+    for (const { name, analysis } of analyzed) {
+      if (analysis.resolution.width !== resolution.width || analysis.resolution.height !== resolution.height) {
+        outliers.push({ name, metric: "resolution", value: analysis.resolution.height, median: resolution.height });
+      }
+    }
+  }
+
+  return {
+    references,
+    medians,
+    resolution,
+    colorGrading: commonest(analyzed.map(({ analysis }) => analysis.visualElements.colorGrading), () => 0) ?? "unknown",
+    palette: poolPalettes(analyzed.map(({ analysis }) => analysis.visualElements.palette)),
+    outliers,
+  };
+}
+
+// "Loudness is -20.1 LUFS against a median of -14.0 LUFS"
+export function describeOutlier(outlier: ReferenceBenchmark["outliers"][number]): string {
+  if (outlier.metric === "resolution") {
+    return `Resolution is ${outlier.value}p where most references are ${outlier.median}p`;
+  }
+  const { label, format } = BENCHMARK_METRICS[outlier.metric];
+  return `${label} is ${format(outlier.value)} against a median of ${format(outlier.median)}`;
+}
+
+// One reference's figure as the tables show it, a dash when it has none
+export function formatMetric(metric: BenchmarkMetric, analysis: VideoAnalysis): string {
+  const value = BENCHMARK_METRICS[metric].measure(analysis);
+  return value === null ? "-" : BENCHMARK_METRICS[metric].format(value);
+}
+
+export function benchmarkMarkdown(benchmark: ReferenceBenchmark): string {
+  const analyzed = benchmark.references.filter(({ analysis }) => analysis);
+  const failed = benchmark.references.filter(({ error }) => error);
+  const cell = (text: string) => text.replace(/\|/g, "\\|");
+
+  const lines = [
+    "# Reference Video Benchmark",
+    "",
+    `${analyzed.length} of ${benchmark.references.length} references analyzed.`,
+    "",
+    "## Benchmark",
+    "",
+    "| Metric | Median |",
+    "| --- | --- |",
+    `| Resolution | ${benchmark.resolution.width}x${benchmark.resolution.height} |`,
+    ...METRIC_KEYS.map(metric => `| ${BENCHMARK_METRICS[metric].label} | ${formatMedian(benchmark, metric)} |`),
+    `| Color Grading | ${benchmark.colorGrading} |`,
+    `| Palette | ${benchmark.palette.map(({ color, share }) => `${color} (${Math.round(share * 100)}%)`).join(", ")} |`,
+    "",
+    "## References",
+    "",
+    `| File | Resolution | ${METRIC_KEYS.map(metric => BENCHMARK_METRICS[metric].label).join(" | ")} |`,
+    `| --- | --- | ${METRIC_KEYS.map(() => "---").join(" | ")} |`,
+    ...analyzed.map(({ name, analysis }) =>
+      `| ${cell(name)} | ${analysis!.resolution.width}x${analysis!.resolution.height} | ${METRIC_KEYS.map(metric => formatMetric(metric, analysis!)).join(" | ")} |`),
+    "",
+    "## Outliers",
+    "",
+    ...(benchmark.outliers.length > 0
+      ? benchmark.outliers.map(outlier => `- **${outlier.name}**: ${describeOutlier(outlier)}`)
+      : [analyzed.length >= MIN_REFERENCES_FOR_OUTLIERS ? "None." : `Needs at least ${MIN_REFERENCES_FOR_OUTLIERS} analyzed references.`]),
+  ];
+
+  if (failed.length > 0) {
+    lines.push("", "## Not Analyzed", "", ...failed.map(({ name, error }) => `- **${name}**: ${error}`));
+  }
+  return lines.join("\n") + "\n";
+}
+
+// The same report as a standalone page, palette shown as swatches
+export function benchmarkHtml(benchmark: ReferenceBenchmark): string {
+  const analyzed = benchmark.references.filter(({ analysis }) => analysis);
+  const failed = benchmark.references.filter(({ error }) => error);
+  const row = (cells: string[], tag = "td") => `<tr>${cells.map(text => `<${tag}>${text}</${tag}>`).join("")}</tr>`;
+  const swatches = benchmark.palette
+    .map(({ color, share }) => `<span class="swatch" style="background:${color};flex-grow:${share}" title="${color} (${Math.round(share * 100)}%)"></span>`)
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Reference Video Benchmark</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1e293b; }
+table { border-collapse: collapse; margin-bottom: 1.5rem; }
+th, td { border: 1px solid #cbd5e1; padding: 0.35rem 0.75rem; text-align: left; }
+th { background: #f1f5f9; }
+.palette { display: flex; height: 2rem; width: 24rem; border: 1px solid #cbd5e1; }
+.swatch { display: block; }
+</style>
+</head>
+<body>
+<h1>Reference Video Benchmark</h1>
+<p>${analyzed.length} of ${benchmark.references.length} references analyzed.</p>
+<h2>Benchmark</h2>
+<table>
+${row(["Metric", "Median"], "th")}
+${row(["Resolution", `${benchmark.resolution.width}x${benchmark.resolution.height}`])}
+${METRIC_KEYS.map(metric => row([BENCHMARK_METRICS[metric].label, formatMedian(benchmark, metric)])).join("\n")}
+${row(["Color Grading", escapeHtml(benchmark.colorGrading)])}
+</table>
+<div class="palette">${swatches}</div>
+<h2>References</h2>
+<table>
+${row(["File", "Resolution", ...METRIC_KEYS.map(metric => BENCHMARK_METRICS[metric].label)], "th")}
+${analyzed.map(({ name, analysis }) => row([
+  escapeHtml(name),
+  `${analysis!.resolution.width}x${analysis!.resolution.height}`,
+  ...METRIC_KEYS.map(metric => formatMetric(metric, analysis!)),
+])).join("\n")}
+</table>
+<h2>Outliers</h2>
+${benchmark.outliers.length > 0
+  ? `<ul>\n${benchmark.outliers.map(outlier => `<li><strong>${escapeHtml(outlier.name)}</strong>: ${describeOutlier(outlier)}</li>`).join("\n")}\n</ul>`
+  : `<p>${analyzed.length >= MIN_REFERENCES_FOR_OUTLIERS ? "None." : `Needs at least ${MIN_REFERENCES_FOR_OUTLIERS} analyzed references.`}</p>`}
+${failed.length > 0
+  ? `<h2>Not Analyzed</h2>\n<ul>\n${failed.map(({ name, error }) => `<li><strong>${escapeHtml(name)}</strong>: ${escapeHtml(error!)}</li>`).join("\n")}\n</ul>`
+  : ""}
+</body>
+</html>
+`;
+}
+
+function formatMedian(benchmark: ReferenceBenchmark, metric: BenchmarkMetric): string {
+  const value = benchmark.medians[metric];
+  return value === null ? "-" : BENCHMARK_METRICS[metric].format(value);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// The most frequent value, compared by JSON; ties go to whichever prefer puts first
+function commonest<T>(values: T[], prefer: (a: T, b: T) => number): T | undefined {
+  const counts = new Map<string, { value: T; count: number }>();
+  for (const value of values) {
+    const key = JSON.stringify(value);
+    const entry = counts.get(key) ?? { value, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  }
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count || prefer(a.value, b.value))[0]?.value;
+}
+
+// Each reference counts equally; colours that fall in the same coarse bucket are averaged by their share
+function poolPalettes(palettes: ReferenceBenchmark["palette"][]): ReferenceBenchmark["palette"] {
+  const buckets = new Map<number, { r: number; g: number; b: number; share: number }>();
+  for (const palette of palettes) {
+    for (const { color, share } of palette) {
+      const [r, g, b] = [1, 3, 5].map(offset => parseInt(color.slice(offset, offset + 2), 16));
+      const key = ((r >> 5) << 6) | ((g >> 5) << 3) | (b >> 5);
+      const weight = share / palettes.length;
+      const bucket = buckets.get(key) ?? { r: 0, g: 0, b: 0, share: 0 };
+      bucket.r += r * weight;
+      bucket.g += g * weight;
+      bucket.b += b * weight;
+      bucket.share += weight;
+      buckets.set(key, bucket);
+    }
+  }
+
+  const hex = (value: number) => Math.round(value).toString(16).padStart(2, "0");
+  return Array.from(buckets.values())
+    .filter(({ share }) => share > 0)
+    .sort((a, b) => b.share - a.share)
+    .slice(0, PALETTE_COLORS)
+    .map(({ r, g, b, share }) => ({ color: `#${hex(r / share)}${hex(g / share)}${hex(b / share)}`, share }));
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
@@ -0,0 +1,85 @@
+import type { RecommendedSettings, RenderProfile, VideoProject } from "./schema";
+
+// The aspect ratios projects are offered in, as width over height
+const ASPECT_RATIOS: Record<string, number> = {
+  "16:9": 16 / 9,
+  "9:16": 9 / 16,
+  "1:1": 1,
+  "4:3": 4 / 3,
+};
+
+// The project fields a reference decides
+export type ProjectMatch = Pick<VideoProject, "resolution" | "aspectRatio"> & { renderProfile: RenderProfile };
+
+export type MatchChange = {
+  label: string;
+  current: string | null; // null for a new project
+  proposed: string;
+};
+
+// Maps the analyzer's recommendations onto what a project can hold: the nearest resolution tier by the short side,
+// the nearest offered aspect ratio, and the encode, pacing and loudness settings as a render profile
+export function matchReference(recommended: RecommendedSettings, reference: string): ProjectMatch {
+  const { width, height } = recommended.video.resolution;
+  const shortSide = Math.min(width, height);
+  const ratio = height > 0 ? width / height : 16 / 9;
+  // Compared on a log scale so 9:16 is as far from 1:1 as 16:9 is
+  const aspectRatio = Object.keys(ASPECT_RATIOS).reduce((nearest, key) =>
+    Math.abs(Math.log(ASPECT_RATIOS[key] / ratio)) < Math.abs(Math.log(ASPECT_RATIOS[nearest] / ratio)) ? key : nearest);
+
+  return {
+    resolution: shortSide <= 720 ? "720p" : shortSide <= 1080 ? "1080p" : "4k",
+    aspectRatio,
+    renderProfile: {
+      frameRate: clamp(recommended.video.frameRate || 30, 12, 60),
+      crf: Math.round(recommended.video.crf),
+      maxBitrate: Math.round(clamp(recommended.video.targetBitrate, 100_000, 100_000_000)),
+      shotLength: Math.round(clamp(recommended.video.shotLength, 0.5, 60) * 10) / 10,
+      loudnessTarget: recommended.audio.loudnessTarget,
+      reference: reference.slice(0, 255),
+    },
+  };
+}
+
+// The project's length cut into equal shots as near the profile's shot length as whole shots allow
+export function sceneDurations(duration: number, shotLength: number): number[] {
+  const count = Math.max(1, Math.round(duration / shotLength));
+  return Array(count).fill(duration / count);
+}
+
+// Every setting a match decides, with the project's current value beside it; project is null when creating one
+export function diffProject(
+  project: Pick<VideoProject, "resolution" | "aspectRatio" | "renderProfile"> | null,
+  match: ProjectMatch,
+  duration: number
+): MatchChange[] {
+  const current = project?.renderProfile;
+  const pacing = (profile: RenderProfile) => {
+    const scenes = sceneDurations(duration, profile.shotLength);
+    return `${scenes.length} × ${scenes[0].toFixed(1)}s`;
+  };
+  const row = (label: string, now: string | null | undefined, proposed: string): MatchChange => ({
+    label,
+    current: project ? now ?? "Default" : null,
+    proposed,
+  });
+
+  return [
+    row("Resolution", project?.resolution, match.resolution ?? ""),
+    row("Aspect Ratio", project?.aspectRatio, match.aspectRatio ?? ""),
+    row("Frame Rate", current && `${current.frameRate} fps`, `${match.renderProfile.frameRate} fps`),
+    row("CRF", current && `${current.crf}`, `${match.renderProfile.crf}`),
+    row("Max Bitrate", current && formatBitrate(current.maxBitrate), formatBitrate(match.renderProfile.maxBitrate)),
+    row("Shot Length", current && `${current.shotLength}s`, `${match.renderProfile.shotLength}s`),
+    row(`Scenes (${duration}s)`, current && pacing(current), pacing(match.renderProfile)),
+    row("Loudness Target", current?.loudnessTarget, match.renderProfile.loudnessTarget),
+  ];
+}
+
+function formatBitrate(bitsPerSecond: number): string {
+  return `${(bitsPerSecond / 1_000_000).toFixed(1)} Mbps`;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
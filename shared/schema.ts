@@ -1,7 +1,8 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, json, timestamp, boolean, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, json, timestamp, boolean, integer, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { validateSsml } from "./ssml";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -22,38 +23,11 @@ export const videoProjects = pgTable("video_projects", {
   duration: integer("duration").default(8), // seconds
   resolution: text("resolution").default("720p"),
   aspectRatio: text("aspect_ratio").default("16:9"),
-  status: text("status").default("pending"), // pending, processing, completed, failed
+  status: text("status").default("pending"), // pending, processing, completed, failed, cancelled
   videoUrl: text("video_url"),
   thumbnailUrl: text("thumbnail_url"),
-  settings: json("settings").$type<{
-    camera: {
-      pan: boolean;
-      zoom: boolean;
-      tracking: boolean;
-    };
-    physics: {
-      accuracy: number;
-      motionBlur: number;
-    };
-    voice: {
-      provider: string;
-      model: string;
-      script: string;
-      speed: number;
-      pitch: number;
-    };
-    avatar: {
-      id: string;
-      lipSyncQuality: string;
-      eyeContact: boolean;
-    };
-    audio: {
-      bgmTrack: string;
-      bgmVolume: number;
-      soundEffects: string[];
-      autoMatch: boolean;
-    };
-  }>(),
+  settings: json("settings").$type<VideoProjectSettings>(),
+  renderProfile: json("render_profile").$type<RenderProfile>(), // set by matching a reference video
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -100,28 +74,456 @@ export const soundEffects = pgTable("sound_effects", {
   isActive: boolean("is_active").default(true),
 });
 
+export const generationJobs = pgTable("generation_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").references(() => videoProjects.id), // null for direct generations
+  userId: varchar("user_id").references(() => users.id), // owner; only they can follow or cancel the job
+  type: text("type").notNull().default("project"), // project, direct, scenes
+  status: text("status").notNull().default("pending"), // pending, processing, completed, failed, cancelled
+  progress: integer("progress").notNull().default(0),
+  currentStep: text("current_step").notNull().default("Queued"),
+  estimatedTimeRemaining: integer("estimated_time_remaining").notNull().default(180), // seconds
+  input: json("input").$type<GenerationJobInput>().notNull(),
+  result: json("result").$type<GenerationJobResult>(),
+  error: text("error"),
+  attempts: integer("attempts").notNull().default(0),
+  leaseExpiresAt: timestamp("lease_expires_at"), // renewed by the worker running the job; once past, the job is orphaned
+  eventSeq: integer("event_seq").notNull().default(0), // highest event id handed out; processes reserve ids in blocks
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+});
+
+// Ledger of every credit movement; a job has at most one debit, one adjustment and one refund
+export const creditTransactions = pgTable("credit_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  jobId: varchar("job_id"), // generation job the entry belongs to; written before the job row exists
+  type: text("type").notNull(), // debit, adjustment, refund
+  amount: integer("amount").notNull(), // negative for debits, positive for refunds, either for adjustments
+  balanceAfter: integer("balance_after").notNull(),
+  description: text("description").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  jobEntry: uniqueIndex("credit_transactions_job_type_idx").on(table.jobId, table.type),
+}));
+
+// Pronunciation fixes applied to narration before synthesis; an entry without a project covers all of the user's work
+export const lexiconEntries = pgTable("lexicon_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  projectId: varchar("project_id").references(() => videoProjects.id, { onDelete: "cascade" }),
+  term: text("term").notNull(), // matched as a whole word or phrase, ignoring case
+  pronunciation: text("pronunciation").notNull(),
+  format: text("format").notNull().default("respelling"), // respelling, ipa
+  language: text("language"), // base language code; null applies to every voice
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Snapshot of what to render, taken when the job is queued so later project edits don't leak in
+export type GenerationJobInput = {
+  prompt: string;
+  style: string;
+  duration: number;
+  resolution: string;
+  aspectRatio: string;
+  settings?: VideoProject["settings"];
+  scenes?: RenderScene[]; // only for scene renders from the studio
+  renderSettings?: RenderSettings;
+  loudnessTarget?: LoudnessTarget; // defaults to youtube
+  lexicon?: LexiconRule[]; // the owner's pronunciation fixes as they stood when the job was queued
+  tts?: TTSRequest; // only for speech-only jobs from /api/tts
+  renderProfile?: RenderProfile; // the project's reference-matched encode and pacing
+};
+
+export type GenerationJobResult = {
+  videoUrl?: string; // absent for speech-only jobs, whose file is the audioUrl
+  thumbnailUrl?: string;
+  duration: number;
+  audioUrl?: string;
+  srtUrl?: string; // caption sidecars, present when subtitles were enabled
+  vttUrl?: string;
+  loudness?: LoudnessReport; // absent when the audio was silent
+  warnings?: string[]; // problems worth telling the user about that didn't stop the render
+};
+
+export type LoudnessStats = {
+  integrated: number; // LUFS
+  truePeak: number; // dBTP
+  lra: number; // LU
+};
+
+// Measured before mastering and as delivered
+export type LoudnessReport = {
+  target: LoudnessTarget;
+  input: LoudnessStats;
+  output: LoudnessStats;
+};
+
+// A stretch of a video in seconds from its start
+export type TimeRange = {
+  start: number;
+  end: number;
+};
+
+// What /api/analyze-video reports: stream details from ffprobe, everything else measured with ffmpeg filters
+export type VideoAnalysis = {
+  duration: number;
+  resolution: { width: number; height: number };
+  frameRate: number;
+  bitrate: number; // bits per second
+  codecInfo: { video: string; audio: string }; // "none" for a missing stream
+  hasAudio: boolean;
+  audioChannels: number;
+  audioSampleRate: number;
+  quality: {
+    estimatedCRF: number;
+    colorSpace: string;
+    dynamicRange: string;
+  };
+  technicalSpecs: {
+    pixelFormat: string;
+    profile: string;
+    level: string;
+  };
+  visualElements: {
+    sceneCuts: number[]; // when each shot after the first starts
+    averageShotLength: number; // seconds
+    blackFrames: TimeRange[];
+    frozenFrames: TimeRange[];
+    motion: number; // median luma change between consecutive frames, 0-255, so cuts barely count
+    hasCameraMovement: boolean;
+    brightness: number; // mean luma, 0-255
+    saturation: number; // mean chroma distance from grey; 0 is greyscale
+    lightingQuality: "low" | "medium" | "high";
+    colorGrading: string; // e.g. "vivid, warm"
+    palette: { color: string; share: number }[]; // commonest colours as #rrggbb, share 0-1 of the sampled pixels
+  };
+  audioFeatures: {
+    silences: TimeRange[];
+    silenceRatio: number; // 0-1 of the duration
+    loudness: LoudnessStats | null; // null when silent or this server can't measure it
+    audioQuality: "low" | "medium" | "high";
+  };
+  warnings: string[]; // measurements that couldn't be taken
+};
+
+// Figures the reference benchmark takes a median of
+export type BenchmarkMetric =
+  | "bitrate"
+  | "frameRate"
+  | "cutsPerMinute"
+  | "averageShotLength"
+  | "loudness"
+  | "truePeak"
+  | "brightness"
+  | "saturation"
+  | "motion";
+
+// One upload to /api/analyze-reference-videos: its analysis, or why there isn't one
+export type ReferenceVideo = {
+  name: string; // as uploaded
+  analysis?: VideoAnalysis;
+  error?: string;
+};
+
+// What the analyzed references have in common, and which of them stray from it
+export type ReferenceBenchmark = {
+  references: ReferenceVideo[];
+  medians: Record<BenchmarkMetric, number | null>; // null when no reference could be measured for it
+  resolution: { width: number; height: number }; // the commonest, the larger on a tie
+  colorGrading: string; // the commonest
+  palette: { color: string; share: number }[]; // the references' palettes pooled
+  outliers: { name: string; metric: BenchmarkMetric | "resolution"; value: number; median: number }[]; // resolution compares heights
+};
+
+// What VideoAnalyzerService.getRecommendedSettings suggests for making videos like an analyzed one
+export type RecommendedSettings = {
+  video: {
+    resolution: { width: number; height: number };
+    frameRate: number;
+    targetBitrate: number; // bits per second
+    crf: number;
+    colorSpace: string;
+    pixelFormat: string;
+    profile: string;
+    motionBlur: boolean;
+    colorGrading: string;
+    shotLength: number; // seconds between cuts
+  };
+  audio: {
+    sampleRate: number;
+    channels: number;
+    bitrate: number;
+    codec: string;
+    profile: string;
+    loudnessTarget: LoudnessTarget; // the platform target nearest the measured loudness
+  };
+  processing: {
+    useAIUpscaling: boolean;
+    enhanceColors: boolean;
+    stabilization: boolean;
+    noiseReduction: boolean;
+    dynamicRangeOptimization: boolean;
+  };
+};
+
+// A voice as /api/voices lists it, whichever TTS provider synthesizes it
+export type TTSVoice = {
+  id: string;
+  name: string;
+  description: string;
+  provider: string; // registry id: coqui, bark, indic-tts, espeak, elevenlabs, openai
+  gender: VoiceGender;
+  language: string; // ISO 639-1 base code, e.g. "en" or "hi"
+  locale?: string; // e.g. "en-GB" when the voice has a regional accent
+  quality: VoiceQuality;
+  style?: string;
+  available: boolean; // false when the provider's engine isn't installed or configured on this server
+};
+
+// What probing found for one external tool or TTS engine
+export type EngineStatus = {
+  available: boolean;
+  version?: string;
+  error?: string; // why it is unavailable
+};
+
+// GET /api/capabilities: what this server can actually render
+export type ServerCapabilities = {
+  probedAt: string;
+  tools: Record<"ffmpeg" | "ffprobe" | "fontconfig", EngineStatus>;
+  ttsProviders: (EngineStatus & { id: string; name: string; kind: "local" | "cloud" })[];
+  fonts: string[]; // installed font families; empty when fontconfig is missing, so nothing can be said about them
+  features: {
+    rendering: boolean;
+    subtitleBurnIn: boolean;
+    musicMixing: boolean;
+    loudnessMastering: boolean;
+    voiceProcessing: boolean;
+    videoAnalysis: boolean; // also needs ffprobe
+    outputFormats: ("mp4" | "webm")[];
+    audioFormats: AudioFormat[]; // what the TTS endpoints can encode to
+  };
+};
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertVideoProjectSchema = createInsertSchema(videoProjects).omit({
+// What /api/register and /api/login accept; the password is hashed before it reaches storage
+export const authCredentialsSchema = z.object({
+  username: z.string().trim().min(3).max(50),
+  password: z.string().min(8).max(200),
+});
+
+// Platform loudness targets: youtube -14 LUFS, broadcast -23 LUFS (EBU R128), podcast -16 LUFS
+export const loudnessTargetSchema = z.enum(["youtube", "broadcast", "podcast"]);
+
+// Encode and pacing settings taken from a reference video's analysis; projects set up by hand have none
+export const renderProfileSchema = z.object({
+  frameRate: z.number().min(12).max(60),
+  crf: z.number().int().min(0).max(51),
+  maxBitrate: z.number().int().min(100_000).max(100_000_000), // bits per second the encoder may peak at
+  shotLength: z.number().min(0.5).max(60), // seconds between cuts; scene durations follow from it and the project's length
+  loudnessTarget: loudnessTargetSchema,
+  reference: z.string().max(255), // the analyzed file's name
+});
+
+// The prompt-to-video form's camera, physics, voice, avatar and audio choices
+export const videoProjectSettingsSchema = z.object({
+  camera: z.object({
+    pan: z.boolean(),
+    zoom: z.boolean(),
+    tracking: z.boolean(),
+  }),
+  physics: z.object({
+    accuracy: z.number(),
+    motionBlur: z.number(),
+  }),
+  voice: z.object({
+    provider: z.string(),
+    model: z.string(),
+    script: z.string(),
+    speed: z.number(),
+    pitch: z.number(),
+  }),
+  avatar: z.object({
+    id: z.string(),
+    lipSyncQuality: z.string(),
+    eyeContact: z.boolean(),
+  }),
+  audio: z.object({
+    bgmTrack: z.string(),
+    bgmVolume: z.number(),
+    soundEffects: z.array(z.string()),
+    autoMatch: z.boolean(),
+  }),
+});
+
+export const insertVideoProjectSchema = createInsertSchema(videoProjects, {
+  settings: videoProjectSettingsSchema.nullable().optional(),
+  renderProfile: renderProfileSchema.nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// PATCH /api/projects/:id; ownership and render state stay with the server
+export const videoProjectUpdateSchema = insertVideoProjectSchema.omit({
+  userId: true,
+  status: true,
+  videoUrl: true,
+  thumbnailUrl: true,
+}).partial();
+
 export const insertVoiceModelSchema = createInsertSchema(voiceModels);
 export const insertAvatarModelSchema = createInsertSchema(avatarModels);
 export const insertBackgroundMusicSchema = createInsertSchema(backgroundMusic);
 export const insertSoundEffectSchema = createInsertSchema(soundEffects);
 
+// Named voice-processing chains; each adjustment left out keeps the preset's own value
+export const voicePresetSchema = z.enum(["none", "podcast", "broadcast", "warm-narrator", "phone", "radio"]);
+
+export const voiceProcessingSchema = z.object({
+  preset: voicePresetSchema.default("none"),
+  bass: z.number().min(-12).max(12).optional(), // dB
+  presence: z.number().min(-12).max(12).optional(), // dB
+  deEssing: z.number().min(0).max(1).optional(),
+  compression: z.number().min(0).max(1).optional(),
+  roomTone: z.number().min(0).max(1).optional(),
+});
+
+// Scene renders submitted by the studio; fields the server can't use, like blob URLs, are stripped
+export const renderSceneSchema = z.object({
+  id: z.string(),
+  title: z.string().max(200).default(""),
+  text: z.string().trim().min(1).max(1000).superRefine((text, ctx) => {
+    // Narration may carry SSML markup; reject it here rather than have it misread mid-render
+    const error = validateSsml(text);
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid markup: ${error}` });
+  }),
+  background: z.enum(["gradient", "solid", "particles", "waves"]).default("gradient"),
+  voiceId: z.string().default(""),
+  duration: z.number().min(1).max(60), // an estimate for auto scenes until the narration has been synthesized
+  durationMode: z.enum(["auto", "fixed"]).default("auto"), // auto fits the scene to its narration plus padding
+  textStyle: z.enum(["fade-in", "typewriter", "slide-up", "zoom", "karaoke"]).default("fade-in"),
+  audioEnabled: z.boolean().default(true),
+  speaker: z.string().trim().max(60).optional(), // who says a line of dialogue, for lower thirds and captions
+  voiceProcessing: voiceProcessingSchema.optional(), // overrides the project's chain for this scene
+});
+
+// Silence around the narration of auto-fitted scenes, in seconds
+export const scenePaddingSchema = z.object({
+  head: z.number().min(0).max(5).default(0.3),
+  tail: z.number().min(0).max(5).default(0.7),
+});
+
+// How captions are chunked and, when burned in, drawn; sizes are in libass units (a 288px-high canvas) so they scale with resolution
+export const subtitleStyleSchema = z.object({
+  burnIn: z.boolean().default(false),
+  font: z.string().trim().regex(/^[\w \-]{1,60}$/, "Font name may only contain letters, digits, spaces and dashes").default("DejaVu Sans"),
+  fontSize: z.number().int().min(8).max(72).default(18),
+  outline: z.number().min(0).max(6).default(1.5),
+  position: z.enum(["bottom", "middle", "top"]).default("bottom"),
+  maxCharsPerLine: z.number().int().min(16).max(80).default(42),
+});
+
+export const renderSettingsSchema = z.object({
+  title: z.string().max(200).default("Untitled Project"),
+  resolution: z.enum(["720p", "1080p", "4k"]),
+  frameRate: z.number().int().min(12).max(60),
+  backgroundMusic: z.string().optional(),
+  backgroundMusicVolume: z.number().min(0).max(100).default(30),
+  subtitlesEnabled: z.boolean().default(false),
+  subtitleStyle: subtitleStyleSchema.default({}),
+  loudnessTarget: loudnessTargetSchema.default("youtube"),
+  scenePadding: scenePaddingSchema.default({}),
+  outputFormat: z.enum(["mp4", "webm"]).default("mp4"),
+  lowerThirds: z.boolean().default(true), // names the speaker of each dialogue scene on screen
+  voiceProcessing: voiceProcessingSchema.default({}),
+});
+
+export const renderScenesSchema = z.object({
+  scenes: z.array(renderSceneSchema).min(1).max(50),
+  settings: renderSettingsSchema,
+});
+
+// What /api/lexicon accepts; a respelling is read by the engine as ordinary text, IPA is passed on as a phoneme hint
+export const lexiconFormatSchema = z.enum(["respelling", "ipa"]);
+
+export const lexiconEntryInputSchema = z.object({
+  term: z.string().trim().min(1).max(100),
+  pronunciation: z.string().trim().min(1).max(200).regex(/^[^<>]*$/, "Pronunciation can't contain markup"),
+  format: lexiconFormatSchema.default("respelling"),
+  language: z.string().trim().toLowerCase().regex(/^[a-z]{2}$/, "Language must be a two-letter code").nullable().default(null),
+  projectId: z.string().nullable().default(null),
+});
+
+export const lexiconEntryUpdateSchema = lexiconEntryInputSchema.omit({ projectId: true }).partial();
+
+export const lexiconPreviewSchema = lexiconEntryInputSchema.pick({ term: true, pronunciation: true, format: true }).extend({
+  voiceId: z.string().min(1),
+  text: z.string().trim().min(1).max(300).optional(), // a sentence using the term; defaults to the term alone
+});
+
+export const voiceGenderSchema = z.enum(["female", "male", "neutral"]);
+export const voiceQualitySchema = z.enum(["premium", "standard"]);
+
+// Filters accepted by GET /api/voices; language matches the base code, so "en" includes en-GB voices
+export const voiceQuerySchema = z.object({
+  language: z.string().trim().toLowerCase().optional(),
+  gender: voiceGenderSchema.optional(),
+  provider: z.string().trim().optional(),
+  quality: voiceQualitySchema.optional(),
+  available: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+});
+
+// Encodings the TTS endpoints return; opus is Opus in an Ogg file. Without a sample rate the engine's own is kept.
+export const audioFormatSchema = z.enum(["wav", "mp3", "opus", "flac"]);
+export const AUDIO_SAMPLE_RATES = [8000, 16000, 22050, 24000, 44100, 48000];
+
+export const audioOutputSchema = z.object({
+  format: audioFormatSchema.default("wav"),
+  sampleRate: z.number().int().refine(rate => AUDIO_SAMPLE_RATES.includes(rate), {
+    message: `Sample rate must be one of ${AUDIO_SAMPLE_RATES.join(", ")}`,
+  }).optional(),
+});
+
+// POST /api/generate-video-direct: a prompt rendered without a project. Parsed before the job is priced.
+export const directGenerationSchema = z.object({
+  prompt: z.string().trim().min(1).max(2000),
+  style: z.string().max(50).default("cinematic"),
+  duration: z.number().int().min(1).max(60).default(8), // seconds
+  resolution: z.enum(["720p", "1080p", "4k"]).default("720p"),
+  aspectRatio: z.enum(["16:9", "9:16", "1:1", "4:3"]).default("16:9"),
+  loudnessTarget: loudnessTargetSchema.default("youtube"),
+});
+
+// POST /api/tts: a script of any length synthesized in the background to a downloadable file
+export const ttsRequestSchema = audioOutputSchema.extend({
+  text: z.string().trim().min(1).max(50_000),
+  voiceId: z.string().min(1),
+  speed: z.number().min(0.5).max(2).default(1),
+  pitch: z.number().min(-12).max(12).default(0), // semitones
+  voiceProcessing: voiceProcessingSchema.optional(),
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type PublicUser = Omit<User, "password">; // what the API returns for a user
+export type AuthCredentials = z.infer<typeof authCredentialsSchema>;
 export type VideoProject = typeof videoProjects.$inferSelect;
+export type VideoProjectSettings = z.infer<typeof videoProjectSettingsSchema>;
 export type InsertVideoProject = z.infer<typeof insertVideoProjectSchema>;
+export type VideoProjectUpdate = z.infer<typeof videoProjectUpdateSchema>;
+export type RenderProfile = z.infer<typeof renderProfileSchema>;
 export type VoiceModel = typeof voiceModels.$inferSelect;
 export type InsertVoiceModel = z.infer<typeof insertVoiceModelSchema>;
 export type AvatarModel = typeof avatarModels.$inferSelect;
@@ -130,3 +532,42 @@ export type BackgroundMusic = typeof backgroundMusic.$inferSelect;
 export type InsertBackgroundMusic = z.infer<typeof insertBackgroundMusicSchema>;
 export type SoundEffect = typeof soundEffects.$inferSelect;
 export type InsertSoundEffect = z.infer<typeof insertSoundEffectSchema>;
+export type GenerationJob = typeof generationJobs.$inferSelect;
+export type InsertGenerationJob = typeof generationJobs.$inferInsert;
+// Conditions a job row must still meet for a guarded update to apply
+export type GenerationJobMatch = Partial<Pick<GenerationJob, "status" | "attempts">>;
+
+// What each kind of job event carries; a snapshot is the whole job as stored
+export type JobEventData = {
+  snapshot: GenerationJob;
+  status: { status: string };
+  progress: { progress: number; estimatedTimeRemaining: number };
+  step: { currentStep: string };
+  log: { message: string };
+  result: { status: string; result: GenerationJobResult | null; error: string | null };
+};
+export type JobEventType = keyof JobEventData;
+// One entry in a job's event stream. Ids only increase within a job, across restarts too, so clients can resume
+// after them; they come from blocks reserved on the job row, so they may skip where a block went unused.
+export type JobEvent = { [T in JobEventType]: { id: number; type: T; data: JobEventData[T] } }[JobEventType];
+export type CreditTransaction = typeof creditTransactions.$inferSelect;
+export type InsertCreditTransaction = typeof creditTransactions.$inferInsert;
+export type LexiconEntry = typeof lexiconEntries.$inferSelect;
+export type InsertLexiconEntry = typeof lexiconEntries.$inferInsert;
+export type LexiconEntryInput = z.infer<typeof lexiconEntryInputSchema>;
+export type LexiconFormat = z.infer<typeof lexiconFormatSchema>;
+export type LexiconRule = Pick<LexiconEntry, "term" | "pronunciation" | "format" | "language">; // what synthesis needs of an entry
+export type RenderScene = z.infer<typeof renderSceneSchema>;
+export type LoudnessTarget = z.infer<typeof loudnessTargetSchema>;
+export type SubtitleStyle = z.infer<typeof subtitleStyleSchema>;
+export type ScenePadding = z.infer<typeof scenePaddingSchema>;
+export type VoicePreset = z.infer<typeof voicePresetSchema>;
+export type VoiceProcessing = z.infer<typeof voiceProcessingSchema>;
+export type RenderSettings = z.infer<typeof renderSettingsSchema>;
+export type RenderScenesRequest = z.infer<typeof renderScenesSchema>;
+export type VoiceGender = z.infer<typeof voiceGenderSchema>;
+export type VoiceQuality = z.infer<typeof voiceQualitySchema>;
+export type VoiceQuery = z.infer<typeof voiceQuerySchema>;
+export type AudioFormat = z.infer<typeof audioFormatSchema>;
+export type AudioOutput = z.infer<typeof audioOutputSchema>;
+export type TTSRequest = z.infer<typeof ttsRequestSchema>;
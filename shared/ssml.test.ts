@@ -0,0 +1,57 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseSsml, splitSsml, validateSsml, type SsmlSegment } from "./ssml";
+
+const LIMIT = 2000;
+
+// The whitespace between paragraphs isn't spoken, and pieces are trimmed at their cuts
+function spoken(text: string): SsmlSegment[] {
+  return parseSsml(text).filter(segment => segment.type === "break" || segment.text.trim() !== "");
+}
+
+function paragraph(i: number): string {
+  return `<p>Paragraph ${i} is read <emphasis level="strong">slowly</emphasis> and carefully, ` +
+    `with the date <say-as interpret-as="date" format="dmy">0${(i % 9) + 1}/03/2024</say-as> in it.</p>`;
+}
+
+describe("splitSsml", () => {
+  const paragraphs = Array.from({ length: 40 }, (_, i) => paragraph(i) + (i % 5 === 4 ? `\n<break time="1s"/>` : ""));
+  const script = `<speak><prosody rate="slow" pitch="+2st">\n${paragraphs.join("\n\n")}\n</prosody></speak>`;
+
+  it("cuts a long SSML script into pieces within the limit", () => {
+    assert.ok(script.length > LIMIT);
+    const pieces = splitSsml(script, LIMIT);
+    assert.ok(pieces.length > 1);
+    for (const piece of pieces) {
+      assert.ok(piece.length <= LIMIT, `piece of ${piece.length} characters`);
+    }
+  });
+
+  it("keeps every piece's markup balanced and meaning the same as the whole", () => {
+    const pieces = splitSsml(script, LIMIT);
+    for (const piece of pieces) {
+      assert.equal(validateSsml(piece), null);
+    }
+    assert.deepEqual(pieces.flatMap(spoken), spoken(script));
+  });
+
+  it("never cuts inside say-as, phoneme or sub", () => {
+    const text = `<speak>First part.\n\n<say-as interpret-as="characters">AB\n\nCD</say-as>\n\nLast part.</speak>`;
+    assert.deepEqual(splitSsml(text, 10), [
+      "<speak>First part.</speak>",
+      `<speak><say-as interpret-as="characters">AB\n\nCD</say-as></speak>`,
+      "<speak>Last part.</speak>",
+    ]);
+  });
+
+  it("groups plain paragraphs up to the limit", () => {
+    assert.deepEqual(splitSsml("One two.\n\nThree four.\n\nFive six seven eight.", 24), [
+      "One two.\n\nThree four.",
+      "Five six seven eight.",
+    ]);
+  });
+
+  it("cuts scripts whose markup doesn't parse at blank lines only", () => {
+    assert.deepEqual(splitSsml("<speak>Open\n\nstill open", 5), ["<speak>Open", "still open"]);
+  });
+});
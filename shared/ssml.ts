@@ -0,0 +1,370 @@
+// The SSML subset voice scripts and scene text may use. Text without any of these tags is plain text and is spoken
+// exactly as written, so stray "<" or "&" in ordinary scripts never needs escaping.
+//
+//   <speak>, <p>, <s>                       containers; paragraphs and sentences end with a short pause
+//   <break time="500ms"/> or strength="..." a pause
+//   <emphasis level="strong|moderate|reduced|none">
+//   <prosody rate="slow|80%|1.2" pitch="+2st|-10%|high" volume="+3dB|soft">
+//   <say-as interpret-as="cardinal|ordinal|digits|characters|date|telephone" format="mdy|dmy|ymd|...">
+//   <phoneme alphabet="ipa|x-sampa" ph="...">word</phoneme>
+//   <sub alias="spoken form">written form</sub>
+
+export interface Prosody {
+  rate: number; // multiplier, 1 is the voice's normal pace
+  pitch: number; // semitones
+  volumeDb: number;
+}
+
+export interface SayAs {
+  interpretAs: "cardinal" | "ordinal" | "digits" | "characters" | "date" | "telephone";
+  format?: string; // for dates, the field order such as "mdy" or "dmy"
+}
+
+export interface Phoneme {
+  alphabet: "ipa" | "x-sampa";
+  ph: string;
+}
+
+export type SsmlSegment =
+  | { type: "text"; text: string; prosody: Prosody; sayAs?: SayAs; phoneme?: Phoneme }
+  | { type: "break"; seconds: number };
+
+export class SsmlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SsmlError";
+  }
+}
+
+export const NEUTRAL_PROSODY: Prosody = { rate: 1, pitch: 0, volumeDb: 0 };
+
+const SSML_TAG = /<\/?(speak|p|s|break|emphasis|prosody|say-as|phoneme|sub)\b/i;
+const TAG = /<(\/?)([a-zA-Z][\w:-]*)((?:\s+[\w:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+const ATTRIBUTE = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const MAX_BREAK_SECONDS = 10;
+const MIN_RATE = 0.5;
+const MAX_RATE = 2;
+const MAX_PITCH = 12;
+
+const BREAK_STRENGTHS: Record<string, number> = {
+  "none": 0,
+  "x-weak": 0.1,
+  "weak": 0.25,
+  "medium": 0.5,
+  "strong": 0.75,
+  "x-strong": 1.2,
+};
+const CONTAINER_BREAKS: Record<string, number> = { p: 0.6, s: 0.3 };
+const RATES: Record<string, number> = { "x-slow": 0.5, "slow": 0.75, "medium": 1, "default": 1, "fast": 1.25, "x-fast": 1.5 };
+const PITCHES: Record<string, number> = { "x-low": -6, "low": -3, "medium": 0, "default": 0, "high": 3, "x-high": 6 };
+const VOLUMES: Record<string, number> = { "x-soft": -12, "soft": -6, "medium": 0, "default": 0, "loud": 6, "x-loud": 10 };
+
+// Emphasis is rendered as a slower, slightly higher and louder delivery; reduced is the opposite
+const EMPHASIS: Record<string, Prosody> = {
+  strong: { rate: 0.9, pitch: 1, volumeDb: 3 },
+  moderate: { rate: 0.95, pitch: 0.5, volumeDb: 1.5 },
+  reduced: { rate: 1.05, pitch: -0.5, volumeDb: -3 },
+  none: NEUTRAL_PROSODY,
+};
+
+const SAY_AS: Record<string, SayAs["interpretAs"]> = {
+  "cardinal": "cardinal",
+  "number": "cardinal",
+  "ordinal": "ordinal",
+  "digits": "digits",
+  "characters": "characters",
+  "spell-out": "characters",
+  "date": "date",
+  "telephone": "telephone",
+};
+
+interface OpenElement {
+  name: string;
+  prosody: Prosody;
+  sayAs?: SayAs;
+  phoneme?: Phoneme;
+  alias?: string;
+  aliasSpoken?: boolean;
+}
+
+export function hasSsmlMarkup(text: string): boolean {
+  return SSML_TAG.test(text);
+}
+
+// Plain text comes back as a single neutral segment; markup that is malformed or outside the subset throws SsmlError
+export function parseSsml(text: string): SsmlSegment[] {
+  if (!hasSsmlMarkup(text)) {
+    return [{ type: "text", text, prosody: NEUTRAL_PROSODY }];
+  }
+
+  const segments: SsmlSegment[] = [];
+  const stack: OpenElement[] = [{ name: "", prosody: NEUTRAL_PROSODY }];
+  const top = () => stack[stack.length - 1];
+
+  const pushText = (raw: string) => {
+    const element = top();
+    // A <sub> is spoken as its alias once, whatever text it wraps
+    if (element.alias !== undefined) {
+      if (!element.aliasSpoken) {
+        element.aliasSpoken = true;
+        segments.push({ type: "text", text: element.alias, prosody: element.prosody });
+      }
+      return;
+    }
+    const content = decodeEntities(raw);
+    if (!content) return;
+    segments.push({ type: "text", text: content, prosody: element.prosody, sayAs: element.sayAs, phoneme: element.phoneme });
+  };
+
+  let position = 0;
+  for (const match of Array.from(text.matchAll(TAG))) {
+    pushText(text.slice(position, match.index));
+    position = match.index! + match[0].length;
+
+    const [, closing, rawName, rawAttributes, selfClosing] = match;
+    const name = rawName.toLowerCase();
+    const attributes = parseAttributes(rawAttributes);
+
+    if (closing) {
+      if (top().name !== name) {
+        throw new SsmlError(`Unexpected </${name}>${top().name ? `; <${top().name}> is still open` : ""}`);
+      }
+      stack.pop();
+      if (CONTAINER_BREAKS[name]) segments.push({ type: "break", seconds: CONTAINER_BREAKS[name] });
+      continue;
+    }
+
+    if (name === "break") {
+      segments.push({ type: "break", seconds: parseBreak(attributes) });
+      continue;
+    }
+
+    const element = openElement(name, attributes, top());
+    if (selfClosing) {
+      // Self-closing <sub alias="..."/> still says its alias; other empty elements say nothing
+      if (element.alias) segments.push({ type: "text", text: element.alias, prosody: element.prosody });
+      continue;
+    }
+    stack.push(element);
+  }
+  pushText(text.slice(position));
+
+  if (stack.length > 1) {
+    throw new SsmlError(`<${top().name}> is never closed`);
+  }
+  return segments;
+}
+
+// The error a script's markup would raise, or null when it parses; used to reject bad scripts at the API
+export function validateSsml(text: string): string | null {
+  try {
+    parseSsml(text);
+    return null;
+  } catch (error) {
+    if (error instanceof SsmlError) return error.message;
+    throw error;
+  }
+}
+
+// What the script reads as on screen: tags removed, entities decoded and sub/say-as/phoneme showing their written form
+export function ssmlToPlainText(text: string): string {
+  if (!hasSsmlMarkup(text)) return text;
+  return decodeEntities(text.replace(TAG, (tag, _closing, name: string) =>
+    name.toLowerCase() === "break" || CONTAINER_BREAKS[name.toLowerCase()] ? " " : ""
+  )).replace(/\s+/g, " ").trim();
+}
+
+// Cuts a long script into pieces of at most maxChars (a longer stretch without a cut stays whole) at blank lines,
+// </p> and <break/>. Elements open at a cut are closed before it and opened again after it, so each piece parses
+// with the markup that applied to it. Scripts whose markup doesn't parse are cut at blank lines only.
+export function splitSsml(text: string, maxChars: number): string[] {
+  const cuts = hasSsmlMarkup(text) && validateSsml(text) === null ? markupCuts(text) : blankLineCuts(text, 0, text.length, []);
+  cuts.unshift({ position: 0, open: [] });
+  cuts.push({ position: text.length, open: [] });
+
+  const pieces: string[] = [];
+  let start = cuts[0];
+  let end: ScriptCut | null = null;
+  for (const cut of cuts.slice(1)) {
+    // Stretches with nothing to say, such as a closing </speak>, always join the piece before them
+    const speaks = ssmlToPlainText(text.slice(end?.position ?? start.position, cut.position)).trim() !== "";
+    if (end && speaks && scriptPiece(text, start, cut).length > maxChars) {
+      pieces.push(scriptPiece(text, start, end));
+      start = end;
+    }
+    end = cut;
+  }
+  if (end) pieces.push(scriptPiece(text, start, end));
+  return pieces.filter(piece => ssmlToPlainText(piece).trim() !== "");
+}
+
+interface ScriptCut {
+  position: number;
+  open: string[]; // start tags of the elements open at the cut, outermost first
+}
+
+// Elements whose content means something as a whole; a script is never cut inside one
+const UNSPLITTABLE = new Set(["say-as", "phoneme", "sub"]);
+
+function markupCuts(text: string): ScriptCut[] {
+  const cuts: ScriptCut[] = [];
+  const stack: { name: string; tag: string }[] = [];
+  const splittable = () => !stack.some(element => UNSPLITTABLE.has(element.name));
+
+  let position = 0;
+  for (const match of Array.from(text.matchAll(TAG))) {
+    if (splittable()) cuts.push(...blankLineCuts(text, position, match.index!, stack.map(element => element.tag)));
+    position = match.index! + match[0].length;
+
+    const [tag, closing, rawName, , selfClosing] = match;
+    const name = rawName.toLowerCase();
+    if (closing) {
+      stack.pop();
+    } else if (!selfClosing && name !== "break") {
+      stack.push({ name, tag });
+    }
+    if ((name === "break" || (closing && name === "p")) && splittable()) {
+      cuts.push({ position, open: stack.map(element => element.tag) });
+    }
+  }
+  cuts.push(...blankLineCuts(text, position, text.length, []));
+  return cuts;
+}
+
+function blankLineCuts(text: string, from: number, to: number, open: string[]): ScriptCut[] {
+  return Array.from(text.slice(from, to).matchAll(/\n\s*\n/g), match => ({ position: from + match.index! + match[0].length, open }));
+}
+
+function scriptPiece(text: string, from: ScriptCut, to: ScriptCut): string {
+  const closing = to.open.map(tag => `</${tag.match(/^<([\w:-]+)/)![1]}>`).reverse().join("");
+  return `${from.open.join("")}${text.slice(from.position, to.position).trim()}${closing}`;
+}
+
+function openElement(name: string, attributes: Record<string, string>, parent: OpenElement): OpenElement {
+  const element: OpenElement = { name, prosody: parent.prosody, sayAs: parent.sayAs, phoneme: parent.phoneme, alias: parent.alias };
+
+  switch (name) {
+    case "speak":
+    case "p":
+    case "s":
+      break;
+    case "emphasis": {
+      const level = attributes.level ?? "moderate";
+      const emphasis = EMPHASIS[level];
+      if (!emphasis) throw new SsmlError(`Unknown emphasis level "${level}"`);
+      element.prosody = combine(parent.prosody, emphasis);
+      break;
+    }
+    case "prosody":
+      element.prosody = combine(parent.prosody, {
+        rate: attributes.rate !== undefined ? parseRate(attributes.rate) : 1,
+        pitch: attributes.pitch !== undefined ? parsePitch(attributes.pitch) : 0,
+        volumeDb: attributes.volume !== undefined ? parseVolume(attributes.volume) : 0,
+      });
+      break;
+    case "say-as": {
+      const interpretAs = SAY_AS[(attributes["interpret-as"] ?? "").toLowerCase()];
+      if (!interpretAs) {
+        throw new SsmlError(`Unsupported say-as interpret-as="${attributes["interpret-as"] ?? ""}"; use ${Object.keys(SAY_AS).join(", ")}`);
+      }
+      element.sayAs = { interpretAs, format: attributes.format?.toLowerCase() };
+      break;
+    }
+    case "phoneme": {
+      const alphabet = (attributes.alphabet ?? "ipa").toLowerCase();
+      if (alphabet !== "ipa" && alphabet !== "x-sampa") {
+        throw new SsmlError(`Unsupported phoneme alphabet "${alphabet}"; use ipa or x-sampa`);
+      }
+      if (!attributes.ph?.trim()) throw new SsmlError("<phoneme> needs a ph attribute");
+      element.phoneme = { alphabet, ph: attributes.ph.trim() };
+      break;
+    }
+    case "sub":
+      if (attributes.alias === undefined) throw new SsmlError("<sub> needs an alias attribute");
+      element.alias = attributes.alias;
+      break;
+    default:
+      throw new SsmlError(`Unsupported tag <${name}>; use speak, p, s, break, emphasis, prosody, say-as, phoneme or sub`);
+  }
+
+  return element;
+}
+
+function combine(outer: Prosody, inner: Prosody): Prosody {
+  return {
+    rate: clamp(outer.rate * inner.rate, MIN_RATE, MAX_RATE),
+    pitch: clamp(outer.pitch + inner.pitch, -MAX_PITCH, MAX_PITCH),
+    volumeDb: outer.volumeDb + inner.volumeDb,
+  };
+}
+
+function parseBreak(attributes: Record<string, string>): number {
+  if (attributes.time !== undefined) {
+    const match = attributes.time.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s)$/i);
+    if (!match) throw new SsmlError(`Invalid break time "${attributes.time}"; use values like 500ms or 1.5s`);
+    const seconds = parseFloat(match[1]) / (match[2].toLowerCase() === "ms" ? 1000 : 1);
+    return Math.min(seconds, MAX_BREAK_SECONDS);
+  }
+  const strength = attributes.strength ?? "medium";
+  if (BREAK_STRENGTHS[strength] === undefined) throw new SsmlError(`Unknown break strength "${strength}"`);
+  return BREAK_STRENGTHS[strength];
+}
+
+function parseRate(value: string): number {
+  const named = RATES[value.trim()];
+  if (named !== undefined) return named;
+  const percent = value.trim().match(/^([+-]?)(\d+(?:\.\d+)?)%$/);
+  if (percent) {
+    // "80%" is a proportion of normal; "+10%" and "-20%" are changes relative to it
+    const amount = parseFloat(percent[2]) / 100;
+    return percent[1] === "+" ? 1 + amount : percent[1] === "-" ? 1 - amount : amount;
+  }
+  const multiplier = Number(value);
+  if (value.trim() && Number.isFinite(multiplier) && multiplier > 0) return multiplier;
+  throw new SsmlError(`Invalid prosody rate "${value}"`);
+}
+
+function parsePitch(value: string): number {
+  const named = PITCHES[value.trim()];
+  if (named !== undefined) return named;
+  const semitones = value.trim().match(/^([+-]?\d+(?:\.\d+)?)st$/);
+  if (semitones) return parseFloat(semitones[1]);
+  const percent = value.trim().match(/^([+-]\d+(?:\.\d+)?)%$/);
+  if (percent && parseFloat(percent[1]) > -100) return 12 * Math.log2(1 + parseFloat(percent[1]) / 100);
+  throw new SsmlError(`Invalid prosody pitch "${value}"; use semitones like +2st, a percentage like -10%, or low/high`);
+}
+
+function parseVolume(value: string): number {
+  const named = VOLUMES[value.trim()];
+  if (named !== undefined) return named;
+  const decibels = value.trim().match(/^([+-]?\d+(?:\.\d+)?)dB$/i);
+  if (decibels) return parseFloat(decibels[1]);
+  throw new SsmlError(`Invalid prosody volume "${value}"; use decibels like +3dB or soft/loud`);
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of Array.from(raw.matchAll(ATTRIBUTE))) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(amp|lt|gt|quot|apos|#\d+|#x[0-9a-f]+);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case "amp": return "&";
+      case "lt": return "<";
+      case "gt": return ">";
+      case "quot": return "\"";
+      case "apos": return "'";
+      default:
+        return String.fromCodePoint(code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10));
+    }
+  });
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
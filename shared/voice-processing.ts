@@ -0,0 +1,52 @@
+import type { VoicePreset, VoiceProcessing } from "./schema";
+
+// Everything a voice-processing chain does, in the order it is applied; zero or null leaves a stage out
+export interface VoiceChain {
+  highpass: number; // Hz, cuts rumble below it
+  lowpass: number | null; // Hz, cuts everything above it, e.g. for a telephone band
+  bass: number; // dB shelf at 120 Hz
+  presence: number; // dB bell at 3 kHz, where intelligibility lives
+  deEssing: number; // 0-1
+  compression: number; // 0-1, from gentle levelling to a dense broadcast sound
+  roomTone: number; // 0-1, level of a quiet pink-noise bed under the voice
+}
+
+const NEUTRAL: VoiceChain = { highpass: 0, lowpass: null, bass: 0, presence: 0, deEssing: 0, compression: 0, roomTone: 0 };
+
+export const VOICE_PRESETS: Record<VoicePreset, { label: string; chain: VoiceChain }> = {
+  none: { label: "None", chain: NEUTRAL },
+  podcast: {
+    label: "Podcast",
+    chain: { highpass: 80, lowpass: null, bass: 2, presence: 3, deEssing: 0.5, compression: 0.6, roomTone: 0 },
+  },
+  broadcast: {
+    label: "Broadcast",
+    chain: { highpass: 70, lowpass: null, bass: 3, presence: 2, deEssing: 0.6, compression: 0.8, roomTone: 0 },
+  },
+  "warm-narrator": {
+    label: "Warm Narrator",
+    chain: { highpass: 60, lowpass: 12000, bass: 4, presence: -1, deEssing: 0.4, compression: 0.4, roomTone: 0.15 },
+  },
+  phone: {
+    label: "Phone",
+    chain: { highpass: 300, lowpass: 3400, bass: 0, presence: 4, deEssing: 0, compression: 0.7, roomTone: 0.1 },
+  },
+  radio: {
+    label: "Radio",
+    chain: { highpass: 200, lowpass: 5000, bass: -2, presence: 5, deEssing: 0.3, compression: 0.9, roomTone: 0.05 },
+  },
+};
+
+// The preset's chain with the listener's adjustments on top; null when it would leave the voice untouched
+export function resolveVoiceChain(processing: VoiceProcessing | undefined): VoiceChain | null {
+  if (!processing) return null;
+  const { preset = "none", ...adjustments } = processing;
+  const chain = { ...VOICE_PRESETS[preset].chain };
+  for (const [key, value] of Object.entries(adjustments)) {
+    if (value !== undefined) chain[key as keyof typeof adjustments] = value;
+  }
+
+  const untouched = chain.highpass === 0 && chain.lowpass === null && chain.bass === 0 && chain.presence === 0
+    && chain.deEssing === 0 && chain.compression === 0 && chain.roomTone === 0;
+  return untouched ? null : chain;
+}